@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockLinkToken
+ * @notice Plain ERC20 standing in for LINK on a local dev node.
+ *         Installed with anvil_setCode (no constructor run) - balances are seeded
+ *         through storage by the preflight fixtures.
+ */
+contract MockLinkToken is ERC20("ChainLink Token", "LINK") {}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {AggregatorV3Interface} from "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+
+/**
+ * @title MockVolatilityFeed
+ * @notice Volatility feed for a local dev node: a constant answer that is always fresh.
+ *         Keeps no storage, so it works when installed with anvil_setCode.
+ */
+contract MockVolatilityFeed is AggregatorV3Interface {
+    int256 public constant ANSWER = 5000;
+
+    function decimals() external pure returns (uint8) {
+        return 2;
+    }
+
+    function description() external pure returns (string memory) {
+        return "Mock ETH/USD 24hr Realized Volatility";
+    }
+
+    function version() external pure returns (uint256) {
+        return 1;
+    }
+
+    function getRoundData(uint80 _roundId)
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return (_roundId, ANSWER, block.timestamp, block.timestamp, _roundId);
+    }
+
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return (1, ANSWER, block.timestamp, block.timestamp, 1);
+    }
+}
@@ -1,7 +1,15 @@
 import { Routes, Route } from 'react-router-dom'
 import { Providers } from '@/components/providers'
 import { HomePage } from '@/pages/HomePage'
+import { DashboardPage } from '@/pages/DashboardPage'
 import { useCooldownManager } from '@/hooks/use-cooldown-manager'
+import { usePersistScope } from '@/hooks/use-persist-scope'
+
+// Lives inside Providers - needs the wagmi account
+function PersistScopeSync() {
+  usePersistScope()
+  return null
+}
 
 function App() {
   // Initialize centralized cooldown timer for the entire app
@@ -9,8 +17,10 @@ function App() {
 
   return (
     <Providers>
+      <PersistScopeSync />
       <Routes>
         <Route path="/" element={<HomePage />} />
+        <Route path="/dashboard" element={<DashboardPage />} />
       </Routes>
     </Providers>
   )
@@ -94,6 +94,16 @@ export const CCIPProgress: React.FC = () => {
                 </span>
               </div>
             )}
+
+            {ccipRequest.helperTxHash && (
+              <div className="flex justify-between">
+                <span className="text-white/60">Helper TX:</span>
+                <span className="text-white/80 font-mono">
+                  {ccipRequest.helperTxHash.slice(0, 8)}...{ccipRequest.helperTxHash.slice(-6)}
+                  {ccipRequest.helperBlockNumber !== null && ` (block ${ccipRequest.helperBlockNumber})`}
+                </span>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,110 @@
+import { Card, CardContent } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { AlertTriangle, Droplets, Fuel, Clock, Vault } from "lucide-react"
+import { formatEther } from "viem"
+import { formatBalance, formatCooldown } from "@/lib/utils"
+import type { ChainStatusResult } from "@/lib/multi-chain-status"
+
+interface ChainStatusCardProps {
+  result: ChainStatusResult
+}
+
+interface TokenRowProps {
+  symbol: string
+  pool: bigint
+  capacity: bigint
+  drip: bigint
+  vault: bigint
+}
+
+function TokenRow({ symbol, pool, capacity, drip, vault }: TokenRowProps) {
+  const tankPercent = capacity > 0n ? Number((pool * 100n) / capacity) : 0
+
+  return (
+    <div className="p-3 bg-white/5 rounded-md space-y-2">
+      <div className="flex items-center justify-between font-body text-xs">
+        <span className="text-white font-semibold">{symbol}</span>
+        <span className="text-white/60">{tankPercent}% full</span>
+      </div>
+      <Progress value={tankPercent} className="h-1.5 bg-white/10" />
+      <div className="grid grid-cols-3 gap-2 font-body text-xs">
+        <div>
+          <p className="text-white/50 flex items-center gap-1"><Fuel className="h-3 w-3" />Tank</p>
+          <p className="text-white">{formatBalance(Number(formatEther(pool)))}</p>
+        </div>
+        <div>
+          <p className="text-white/50 flex items-center gap-1"><Vault className="h-3 w-3" />Vault</p>
+          <p className="text-white">{formatBalance(Number(formatEther(vault)))}</p>
+        </div>
+        <div>
+          <p className="text-white/50 flex items-center gap-1"><Droplets className="h-3 w-3" />Drip</p>
+          <p className="text-white">{formatBalance(Number(formatEther(drip)), 4)}</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Read-only faucet overview for a single chain (multi-chain dashboard)
+ */
+export function ChainStatusCard({ result }: ChainStatusCardProps) {
+  if (result.status !== 'ok') {
+    return (
+      <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+        <CardContent className="p-4 space-y-2">
+          <h3 className="font-body text-white font-semibold">{result.displayName}</h3>
+          <p className="font-body text-xs text-white/60 flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3 text-yellow-300" />
+            {result.status === 'not-deployed' ? 'No faucet deployed on this chain' : `Unavailable: ${result.error}`}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { data } = result
+  const { snapshot } = data
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: data.themeColor }} />
+            <h3 className="font-body text-white font-semibold">{data.displayName}</h3>
+          </div>
+          {data.refillInProgress ? (
+            <span className="font-body text-xs px-2 py-0.5 rounded bg-yellow-500/20 border border-yellow-400/30 text-yellow-200">
+              Refill in progress
+            </span>
+          ) : (
+            <span className="font-body text-xs px-2 py-0.5 rounded bg-white/10 border border-white/20 text-white/60">
+              Idle
+            </span>
+          )}
+        </div>
+
+        <TokenRow
+          symbol={data.ticker}
+          pool={snapshot.active.pool}
+          capacity={snapshot.active.capacity}
+          drip={snapshot.active.drip}
+          vault={snapshot.treasury.active}
+        />
+        <TokenRow
+          symbol="LINK"
+          pool={snapshot.link.pool}
+          capacity={snapshot.link.capacity}
+          drip={snapshot.link.drip}
+          vault={snapshot.treasury.link}
+        />
+
+        <p className="font-body text-xs text-white/60 flex items-center gap-1">
+          <Clock className="h-3 w-3" />
+          Cooldown {formatCooldown(snapshot.constants.cooldown)}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
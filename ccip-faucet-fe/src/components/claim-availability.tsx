@@ -0,0 +1,72 @@
+import { useState } from "react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Clock, CheckCircle } from "lucide-react"
+import { formatCooldown } from "@/lib/utils"
+import { useChainCooldowns } from "@/hooks/use-chain-cooldowns"
+
+interface ClaimAvailabilityProps {
+  address: `0x${string}`
+  currentChainId: number | null
+  onSelectChain: (chainId: number) => void
+}
+
+/**
+ * Compact "next claim available" summary for every supported chain (header)
+ * Clicking a chain switches to it
+ */
+export function ClaimAvailability({ address, currentChainId, onSelectChain }: ClaimAvailabilityProps) {
+  const { statuses, claimableCount } = useChainCooldowns(address)
+  const [isOpen, setIsOpen] = useState(false)
+
+  if (statuses.length === 0) return null
+
+  const soonest = Math.min(...statuses.map(status => status.nextClaimIn))
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button className="hidden md:flex items-center space-x-1.5 bg-white/10 backdrop-blur-sm rounded-lg px-3 py-1.5 border border-white/20 h-8 hover:bg-white/20 transition-colors">
+          {claimableCount > 0 ? (
+            <CheckCircle className="h-3 w-3 text-green-400" />
+          ) : (
+            <Clock className="h-3 w-3 text-white/70" />
+          )}
+          <span className="font-body text-white/90 text-xs font-medium">
+            {claimableCount > 0
+              ? `Claim ready on ${claimableCount}/${statuses.length}`
+              : `Next claim ${formatCooldown(soonest)}`}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="z-[9999] w-72 p-2 bg-black/60 backdrop-blur-sm border-white/20" side="bottom" align="end">
+        <div className="space-y-1">
+          {statuses.map(status => {
+            const isCurrent = status.chainId === currentChainId
+            return (
+              <button
+                key={status.chainId}
+                onClick={() => {
+                  setIsOpen(false)
+                  if (!isCurrent) onSelectChain(status.chainId)
+                }}
+                className={`w-full flex items-center justify-between p-2 rounded-md font-body text-xs transition-colors ${
+                  isCurrent ? 'bg-white/15 cursor-default' : 'bg-white/5 hover:bg-white/10'
+                }`}
+              >
+                <span className="text-white">{status.displayName}</span>
+                <span className="flex items-center space-x-2">
+                  <span className={status.activeRemaining === 0 ? 'text-green-300' : 'text-white/60'}>
+                    {status.ticker} {status.activeRemaining === 0 ? 'ready' : formatCooldown(status.activeRemaining)}
+                  </span>
+                  <span className={status.linkRemaining === 0 ? 'text-green-300' : 'text-white/60'}>
+                    LINK {status.linkRemaining === 0 ? 'ready' : formatCooldown(status.linkRemaining)}
+                  </span>
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect, useMemo } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ExternalLink, RefreshCw } from "lucide-react"
+import { useClaimHistory } from "@/hooks/use-claim-history"
+import { formatClaimAmount, type ClaimRecord } from "@/lib/claim-history"
+import { getConfigExplorerUrl } from "@/lib/config/ui/constants"
+import { formatBalance } from "@/lib/utils"
+import { formatEther } from "viem"
+
+interface ClaimHistoryProps {
+  address: `0x${string}` | null
+}
+
+// Keep the list compact - totals still cover every claim
+const MAX_VISIBLE_CLAIMS = 20
+
+function claimKey(claim: ClaimRecord): string {
+  return `${claim.chainName}:${claim.txHash}:${claim.logIndex}`
+}
+
+export function ClaimHistory({ address }: ClaimHistoryProps) {
+  const { claims, totals, failedChains, isLoading, error, refresh } = useClaimHistory(address)
+  const [explorerUrls, setExplorerUrls] = useState<Record<string, string>>({})
+
+  const visibleClaims = useMemo(() => claims.slice(0, MAX_VISIBLE_CLAIMS), [claims])
+
+  // Resolve explorer links per claim chain (config-driven, async)
+  useEffect(() => {
+    let cancelled = false
+    const resolveUrls = async () => {
+      const entries = await Promise.all(
+        visibleClaims.map(async claim => {
+          try {
+            return [claimKey(claim), await getConfigExplorerUrl(claim.chainName, 'tx', claim.txHash)] as const
+          } catch {
+            return null
+          }
+        })
+      )
+      if (!cancelled) {
+        setExplorerUrls(Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry !== null)))
+      }
+    }
+    resolveUrls()
+    return () => { cancelled = true }
+  }, [visibleClaims])
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="font-body text-white/70 text-sm">Your drips across all supported chains</p>
+          <Button
+            onClick={refresh}
+            disabled={isLoading}
+            size="sm"
+            variant="ghost"
+            className="text-white/70 hover:text-white hover:bg-white/10 p-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        {/* Totals per token */}
+        {totals.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {totals.map(total => (
+              <div key={total.symbol} className="p-2 bg-white/5 rounded-md">
+                <p className="font-body text-xs text-white/60">Total {total.symbol}</p>
+                <p className="font-body text-sm text-white font-semibold">
+                  {formatBalance(Number(formatEther(total.amount)))}
+                </p>
+                <p className="font-body text-xs text-white/50">{total.count} claims</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Claim list */}
+        {visibleClaims.length > 0 ? (
+          <div className="space-y-1">
+            {visibleClaims.map(claim => {
+              const url = explorerUrls[claimKey(claim)]
+              return (
+                <div key={claimKey(claim)} className="flex items-center justify-between p-2 bg-white/5 rounded-md font-body text-xs">
+                  <div className="flex flex-col">
+                    <span className="text-white">
+                      {formatBalance(formatClaimAmount(claim))} {claim.symbol}
+                    </span>
+                    <span className="text-white/50">{claim.chainName}</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-white/60">
+                      {claim.timestamp ? new Date(claim.timestamp * 1000).toLocaleString() : `Block ${claim.blockNumber}`}
+                    </span>
+                    {url && (
+                      <a href={url} target="_blank" rel="noopener noreferrer" className="text-white/60 hover:text-white">
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+            {claims.length > MAX_VISIBLE_CLAIMS && (
+              <p className="font-body text-xs text-white/50 text-center">
+                Showing latest {MAX_VISIBLE_CLAIMS} of {claims.length} claims
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="font-body text-xs text-white/60 text-center py-2">
+            {isLoading ? 'Scanning chains for your claims...' : 'No claims found yet'}
+          </p>
+        )}
+
+        {(error || failedChains.length > 0) && (
+          <p className="font-body text-xs text-yellow-200/80">
+            {error ?? `Could not reach: ${failedChains.join(', ')} (showing cached claims)`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
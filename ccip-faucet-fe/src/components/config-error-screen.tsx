@@ -0,0 +1,55 @@
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { FileWarning, RefreshCw } from "lucide-react"
+import type { ConfigValidationError } from "@/lib/config"
+
+interface ConfigErrorScreenProps {
+  error: ConfigValidationError
+}
+
+/**
+ * Full-page replacement for the app when a chain config file fails validation
+ * Lists every problem of the file so it can be fixed in one pass
+ */
+export function ConfigErrorScreen({ error }: ConfigErrorScreenProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 p-4">
+      <Card className="w-full max-w-2xl bg-white/10 backdrop-blur-sm border-white/20">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-start space-x-3">
+            <FileWarning className="h-6 w-6 text-red-400 shrink-0 mt-0.5" />
+            <div>
+              <h1 className="font-body text-lg text-white font-semibold">Chain configuration error</h1>
+              <p className="font-body text-sm text-white/60">
+                <span className="font-mono text-white/80">public/configs/{error.file}</span> failed validation
+                with {error.issues.length} {error.issues.length === 1 ? 'problem' : 'problems'}.
+              </p>
+            </div>
+          </div>
+
+          <ul className="space-y-2">
+            {error.issues.map((issue, index) => (
+              <li key={`${issue.path}-${index}`} className="p-3 bg-white/5 rounded-md font-body text-sm">
+                <span className="font-mono text-yellow-200">{issue.path}</span>
+                <span className="text-white/80"> {issue.message}</span>
+              </li>
+            ))}
+          </ul>
+
+          <p className="font-body text-xs text-white/50">
+            Fix the file (or the <span className="font-mono">VITE_*</span> variables in your <span className="font-mono">.env</span>) and reload.
+            See <span className="font-mono">public/configs/README.md</span> for the expected format.
+          </p>
+
+          <Button
+            onClick={() => window.location.reload()}
+            className="bg-white/10 hover:bg-white/20 border border-white/20 text-white font-body"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reload
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
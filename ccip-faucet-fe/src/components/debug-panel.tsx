@@ -1,5 +1,7 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { getAddresses, configService } from '@/lib/config'
+import { getRpcPoolHealth, maskRpcUrl, normalizeRpcUrls, type RpcPoolHealth } from '@/lib/rpc-pool'
+import { pollingWorker } from '@/lib/polling-worker'
 
 // Simple placeholder functions for debug tests
 const testWalletPersistence = () => ({
@@ -14,10 +16,62 @@ const debugRPCConnection = async () => ({
   reservoirStatus: { monPool: 0, linkPool: 0 }
 })
 
+// Refresh cadence of the RPC health table
+const RPC_HEALTH_REFRESH = 5 * 1000
+
+/**
+ * Per-endpoint health of one RPC pool
+ */
+function RpcHealthTable({ title, health }: { title: string; health: RpcPoolHealth }) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4">
+      <h3 className="text-gray-200 font-semibold mb-2">
+        {title} <span className="text-gray-400 font-normal text-xs">chain {health.chainId}</span>
+      </h3>
+      <table className="w-full text-xs text-gray-300">
+        <thead>
+          <tr className="text-left text-gray-400">
+            <th className="font-medium pb-1">Endpoint</th>
+            <th className="font-medium pb-1">Latency</th>
+            <th className="font-medium pb-1">Errors</th>
+            <th className="font-medium pb-1">Block lag</th>
+            <th className="font-medium pb-1">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {health.endpoints.map((endpoint) => {
+            const benched = endpoint.cooldownUntil > Date.now()
+            return (
+              <tr key={endpoint.url} title={endpoint.lastError ?? undefined}>
+                <td className="py-0.5 font-mono">{maskRpcUrl(endpoint.url)}</td>
+                <td>{endpoint.latencyMs === null ? '—' : `${Math.round(endpoint.latencyMs)}ms`}</td>
+                <td>{(endpoint.errorRate * 100).toFixed(0)}% ({endpoint.failures}/{endpoint.requests})</td>
+                <td>{endpoint.blockNumber === null ? '—' : endpoint.blockLag}</td>
+                <td>
+                  {benched ? '🚫 Benched' : endpoint.url === health.activeUrl ? '✅ Active' : '🟡 Standby'}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 export function DebugPanel() {
   const [debugInfo, setDebugInfo] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [rpcHealth, setRpcHealth] = useState<{ app: RpcPoolHealth[]; worker: RpcPoolHealth | null }>({ app: [], worker: null })
+
+  // NEW: Live RPC pool health (main-thread pools + the polling worker's pool)
+  useEffect(() => {
+    const refresh = () => setRpcHealth({ app: getRpcPoolHealth(), worker: pollingWorker.getRpcHealth() })
+    refresh()
+    const interval = setInterval(refresh, RPC_HEALTH_REFRESH)
+    return () => clearInterval(interval)
+  }, [])
 
   const runDebugTests = async () => {
     setIsLoading(true)
@@ -92,6 +146,15 @@ export function DebugPanel() {
         </div>
       )}
 
+      {(rpcHealth.worker || rpcHealth.app.length > 0) && (
+        <div className="space-y-4 mb-4">
+          {rpcHealth.worker && <RpcHealthTable title="RPC Pool (polling worker)" health={rpcHealth.worker} />}
+          {rpcHealth.app.map((health, index) => (
+            <RpcHealthTable key={`${health.chainId}-${index}`} title="RPC Pool" health={health} />
+          ))}
+        </div>
+      )}
+
       {debugInfo && (
         <div className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -102,7 +165,7 @@ export function DebugPanel() {
                 <div><strong>Chain ID:</strong> {debugInfo.config.chainId}</div>
                 <div><strong>Name:</strong> {debugInfo.config.name}</div>
                 <div><strong>Ticker:</strong> {debugInfo.config.ticker}</div>
-                <div><strong>RPC URL:</strong> {debugInfo.config.rpcUrl?.substring(0, 50)}...</div>
+                <div><strong>RPC Endpoints:</strong> {normalizeRpcUrls(debugInfo.config.rpcUrl ?? []).map(maskRpcUrl).join(', ')}</div>
               </div>
             </div>
 
@@ -1,4 +1,6 @@
 import React from 'react'
+import { ConfigValidationError } from '@/lib/config'
+import { ConfigErrorScreen } from '@/components/config-error-screen'
 
 interface ErrorBoundaryState {
   hasError: boolean
@@ -25,6 +27,11 @@ export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoun
 
   render() {
     if (this.state.hasError) {
+      // Config errors thrown after startup (e.g. switching to a chain with a broken file)
+      if (this.state.error instanceof ConfigValidationError) {
+        return <ConfigErrorScreen error={this.state.error} />
+      }
+
       return (
         <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white">
           <div className="text-center space-y-4">
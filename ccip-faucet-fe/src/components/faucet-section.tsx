@@ -209,7 +209,8 @@ export function FaucetSection({
     }
 
     // New user with zero balance - show gas-free option for native token drip only
-    if (wallet.nativeBalance === 0 && tokenType === "active") {  // Generic: was "mon"
+    // Not when the chain's bundler/paymaster URLs are unset (gas-free disabled)
+    if (wallet.nativeBalance === 0 && tokenType === "active" && derivedConfig?.gasFreeEnabled !== false) {  // Generic: was "mon"
       return { text: `Get First ${derivedConfig?.nativeSymbol || 'MON'} (Gas-Free)`, disabled: false, isGasFree: true }
     }
 
@@ -230,7 +231,7 @@ export function FaucetSection({
   const getFuelButtonState = useCallback((tokenType: "active" | "link") => {  // Generic: was "mon" | "link"
     const tokenState = tokenType === 'active' ? activeTokenState : linkTokenState  // Generic: was 'mon'
     // Use memoized network check instead of calling requireMonad() again
-    // Use vault balances from Zustand store (updated by fetchAllFaucetData)
+    // Use vault balances from Zustand store (updated from the polling worker's snapshot)
     const vaultEmpty = tokenType === "active" ? vaultBalances.active === 0 : vaultBalances.link === 0  // Generic: was "mon" and vaultBalances.mon
 
     // DEBUG: Log vault balance and empty state
@@ -3,7 +3,9 @@ import { useState, useEffect } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Info, CheckCircle, AlertCircle } from "lucide-react"
-import { useAccountAbstraction } from "@/hooks/use-account-abstraction"
+import { formatEther } from "viem"
+import { useAccountAbstraction, type GaslessPreview } from "@/hooks/use-account-abstraction"
+import type { SponsorshipEligibility } from "@/lib/aa-client"
 import { getFaucetAddress } from '@/lib/config'
 // CONSOLIDATION: Use configurable explorer URL instead of hardcoded
 import { getConfigExplorerUrl } from '@/lib/config/ui/constants'
@@ -26,7 +28,13 @@ export function GasFreeModal({ isOpen, onClose, onSuccess, walletAddress, dripAm
   // CONSOLIDATION: Dynamic explorer URL based on active chain
   const [explorerTxUrl, setExplorerTxUrl] = useState<string>("")
 
-  const { executeGaslessTransaction, isProcessing } = useAccountAbstraction()
+  // NEW: smart account + sponsored gas estimate, loaded before anything is signed
+  const [eligibility, setEligibility] = useState<SponsorshipEligibility | null>(null)
+  const [preview, setPreview] = useState<GaslessPreview | null>(null)
+  const [previewError, setPreviewError] = useState<string>("")
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false)
+
+  const { checkEligibility, previewGaslessTransaction, executeGaslessTransaction, isProcessing } = useAccountAbstraction()
 
   // CONSOLIDATION: Load faucet address and explorer URL from config
   useEffect(() => {
@@ -51,6 +59,45 @@ export function GasFreeModal({ isOpen, onClose, onSuccess, walletAddress, dripAm
     }
   }, [isOpen, txHash])
 
+  const nativeSymbol = derivedConfig?.nativeSymbol || 'MON'
+
+  useEffect(() => {
+    if (!isOpen || step !== "intro" || !walletAddress || !faucetContractAddress) return
+
+    let cancelled = false
+    const loadPreview = async () => {
+      setIsPreviewLoading(true)
+      setPreviewError("")
+
+      // NEW: eligibility first - an ineligible user is told why instead of signing into a bundler error
+      const check = await checkEligibility(nativeSymbol, walletAddress as `0x${string}`, faucetContractAddress as `0x${string}`)
+      if (cancelled) return
+      if (!check.success || !check.eligibility.eligible) {
+        setEligibility(check.success ? check.eligibility : null)
+        setPreview(null)
+        setPreviewError(check.success ? "" : check.error)
+        setIsPreviewLoading(false)
+        return
+      }
+      setEligibility(check.eligibility)
+
+      const result = await previewGaslessTransaction(walletAddress as `0x${string}`, faucetContractAddress as `0x${string}`)
+      if (cancelled) return
+      if (result.success) {
+        setPreview(result.preview)
+      } else {
+        setPreview(null)
+        setPreviewError(result.error)
+      }
+      setIsPreviewLoading(false)
+    }
+
+    loadPreview()
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, step, walletAddress, faucetContractAddress, nativeSymbol, checkEligibility, previewGaslessTransaction])
+
   const handleExecuteTransaction = async () => {
     if (!walletAddress) return
 
@@ -92,9 +139,14 @@ export function GasFreeModal({ isOpen, onClose, onSuccess, walletAddress, dripAm
       setStep("intro")
       setError("")
       setTxHash("")
+      setEligibility(null)
+      setPreview(null)
+      setPreviewError("")
     }
   }
 
+  const isIneligible = eligibility !== null && !eligibility.eligible
+
   const renderContent = () => {
     switch (step) {
       case "intro":
@@ -117,8 +169,46 @@ export function GasFreeModal({ isOpen, onClose, onSuccess, walletAddress, dripAm
                 <p className="text-sm text-white/70">(Gas Fees on Us)</p>
               </div>
 
+              {isPreviewLoading && (
+                <p className="font-body text-white/70 text-xs">Checking sponsorship eligibility...</p>
+              )}
+              {isIneligible && (
+                <div className="flex items-start space-x-2 bg-red-500/20 border border-red-500/30 p-3 rounded-lg text-left">
+                  <AlertCircle className="h-4 w-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  <div className="space-y-1">
+                    <p className="font-body text-red-300 text-xs font-semibold">
+                      {eligibility.policy?.status === "unchecked" ? "Sponsorship could not be checked" : "Not eligible for a gas-free claim"}
+                    </p>
+                    {eligibility.reasons.map(reason => (
+                      <p key={reason.check} className="font-body text-red-300 text-xs">{reason.message}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {preview && (
+                <div className="bg-white/10 p-3 rounded-lg text-left space-y-1">
+                  <p className="text-xs text-white/70">
+                    Smart account{preview.smartAccount.isDeployed ? "" : " (created with this claim)"}:
+                  </p>
+                  <p className="font-mono text-xs text-white break-all">{preview.smartAccount.address}</p>
+                  {eligibility?.policy?.name && (
+                    <p className="text-xs text-white/70">Sponsored by policy: {eligibility.policy.name}</p>
+                  )}
+                  <p className="text-xs text-white/70">
+                    Sponsored gas: up to {Number(formatEther(preview.estimate.sponsoredCost)).toFixed(6)} {derivedConfig?.nativeSymbol || 'MON'}
+                  </p>
+                </div>
+              )}
+              {previewError && (
+                <div className="flex items-start space-x-2 bg-red-500/20 border border-red-500/30 p-3 rounded-lg text-left">
+                  <AlertCircle className="h-4 w-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  <p className="font-body text-red-300 text-xs">{previewError}</p>
+                </div>
+              )}
+
               <Button
                 onClick={handleExecuteTransaction}
+                disabled={isPreviewLoading || isIneligible || !!previewError}
                 className="w-full bg-white/10 backdrop-blur-sm border border-white/30 text-white hover:bg-white/20 text-lg py-3"
               >
                 Confirm Request
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react"
+import { Link } from "react-router-dom"
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip"
 import { Progress } from "@/components/ui/progress"
 import { 
@@ -14,12 +15,15 @@ import {
   LogIn,
   LogOut,
   Network,
-  AlertTriangle
+  AlertTriangle,
+  LayoutGrid
 } from "lucide-react"
 import { formatBalance } from "@/lib/utils"
 import { useCCIPRequest } from "@/store/faucet-store"
 import { useRainbowKitNetworkSwitch } from "@/hooks/use-rainbowkit-network-switch"
 import { NetworkSwitchingModal } from "@/components/network-switching-modal"
+import { CHAIN_REGISTRY_UPDATED } from "@/lib/chain-registry"
+import { ClaimAvailability } from "@/components/claim-availability"
 import { getCCIPPhaseText, getCCIPPhaseTooltip, getCCIPColors } from '@/lib/ccip-utils'
 import type { DerivedConfig } from '@/lib/types/config'
 
@@ -90,14 +94,18 @@ export function Header({
 
   const [availableChains, setAvailableChains] = useState<any[]>([])
 
-  // FIXED: Load available chains once on mount (no dependency on getAvailableChains function)
+  // FIXED: Load available chains on mount (no dependency on getAvailableChains function)
+  // NEW: ...and again whenever the chain registry changes
   useEffect(() => {
     const loadChains = async () => {
       const chains = await getAvailableChains()
       setAvailableChains(chains)
     }
     loadChains()
-  }, []) // Empty dependency array - load once on mount
+
+    window.addEventListener(CHAIN_REGISTRY_UPDATED, loadChains)
+    return () => window.removeEventListener(CHAIN_REGISTRY_UPDATED, loadChains)
+  }, [])
 
   const handleNetworkButtonClick = () => {
     openModal()
@@ -128,6 +136,16 @@ export function Header({
           {/* Left side - Simple Title */}
           <div className="flex items-center">
             <h1 className="font-body text-white text-xl font-bold tracking-tight">PSEUDO (水道)</h1>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Link to="/dashboard" className="ml-3 text-white/60 hover:text-white transition-colors">
+                  <LayoutGrid className="h-4 w-4" />
+                </Link>
+              </TooltipTrigger>
+              <TooltipContent className="z-[9999]">
+                <p className="font-body text-xs">All faucets at a glance</p>
+              </TooltipContent>
+            </Tooltip>
                 </div>
 
           {/* Center - Status Components Wrapper */}
@@ -214,6 +232,15 @@ export function Header({
 
           {/* Right side - Balance & Wallet Section */}
           <div className="flex items-center space-x-4">
+            {/* NEW: Next claim per chain - jump straight to a claimable chain */}
+            {wallet.isConnected && wallet.address && (
+              <ClaimAvailability
+                address={wallet.address as `0x${string}`}
+                currentChainId={currentChainId ?? null}
+                onSelectChain={handleSwitchNetwork}
+              />
+            )}
+
             {/* Network Indicator */}
             <Tooltip>
               <TooltipTrigger asChild>
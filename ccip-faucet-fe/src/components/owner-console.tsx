@@ -0,0 +1,237 @@
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { StatusAlert, ActionButton } from "@/components/ui"
+import { SafeBatchPanel } from "@/components/safe-batch-panel"
+import { AlertTriangle, FlaskConical, ListPlus, RefreshCw, Send } from "lucide-react"
+import { useOwnerConsole } from "@/hooks/use-owner-console"
+import { useSafeProposals } from "@/hooks/use-safe-proposals"
+import { OWNER_ACTIONS, formatSeconds, type OwnerFunctionName, type OwnerFormValues } from "@/lib/owner-actions"
+import type { SafeInfo } from "@/lib/safe-proposals"
+
+interface OwnerConsoleProps {
+  nativeSymbol: string
+  /** Faucet owner is this Safe - actions are added to a batch for it instead of sent */
+  safe?: SafeInfo
+  /** Called after a confirmed action (vault balances may have changed) */
+  onConfirmed?: () => void
+}
+
+/**
+ * Typed console for every onlyOwner faucet function:
+ * current value → validated input → simulation → transaction → emitted event
+ */
+export function OwnerConsole({ nativeSymbol, safe, onConfirmed }: OwnerConsoleProps) {
+  const { context, isLoading, error, refresh, getStatus, resetStatus, simulate, execute, propose } = useOwnerConsole(nativeSymbol, safe)
+  const proposals = useSafeProposals(safe)
+  const [selected, setSelected] = useState<OwnerFunctionName>("setCooldown")
+  const [values, setValues] = useState<OwnerFormValues>({})
+  const [confirmOpen, setConfirmOpen] = useState(false)
+
+  const action = OWNER_ACTIONS.find(entry => entry.functionName === selected) ?? OWNER_ACTIONS[0]
+  const status = getStatus(selected)
+  const isBusy = status.phase === "simulating" || status.phase === "sending"
+
+  const account = context?.account
+
+  // Fresh form (with the action's defaults) whenever another action is picked or the owner state is re-read
+  useEffect(() => {
+    setValues(context && action.defaults ? action.defaults(context) : {})
+  }, [action, context])
+
+  // The last result stays visible across refreshes - only cleared for another action or account
+  useEffect(() => {
+    resetStatus(selected)
+  }, [selected, account, resetStatus])
+
+  const setValue = (name: string, value: string) => setValues(prev => ({ ...prev, [name]: value }))
+
+  const handleSend = async () => {
+    if (safe) {
+      const proposal = await propose(action, values)
+      if (proposal) proposals.add(proposal)
+      return
+    }
+    const confirmed = await execute(action, values)
+    if (confirmed) {
+      setValues(context && action.defaults ? action.defaults(context) : {})
+      onConfirmed?.()
+    }
+  }
+
+  const secondsPreview = action.fields[0]?.kind === "seconds" && /^\d+$/.test(values.seconds ?? "")
+    ? formatSeconds(BigInt(values.seconds))
+    : null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-body font-medium text-white text-sm">Owner Console</h5>
+        <Button
+          onClick={refresh}
+          disabled={isLoading}
+          size="sm"
+          variant="ghost"
+          className="text-white/70 hover:text-white hover:bg-white/10 p-2"
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {safe && (
+        <p className="font-body text-white/60 text-xs break-all">
+          Owner is a Safe ({safe.threshold}/{safe.owners.length} signers): {safe.address}. Actions are simulated as the Safe
+          and added to a batch for the Safe Transaction Builder.
+        </p>
+      )}
+
+      {error && <StatusAlert type="error" title="Could not read faucet state" message={error} />}
+
+      <div className="space-y-2">
+        <Label htmlFor="owner-action" className="font-body text-white/80 text-xs">
+          Action
+        </Label>
+        <select
+          id="owner-action"
+          value={selected}
+          onChange={(e) => setSelected(e.target.value as OwnerFunctionName)}
+          className="w-full bg-white/10 border border-white/30 rounded text-white text-sm p-2 h-10 font-body focus-natural"
+        >
+          {OWNER_ACTIONS.map(entry => (
+            <option key={entry.functionName} value={entry.functionName} className="bg-black">
+              {entry.label} ({entry.functionName})
+            </option>
+          ))}
+        </select>
+        <p className="font-body text-white/60 text-xs">{action.description}</p>
+        <p className="font-body text-white/90 text-sm">
+          <span className="font-medium">Current:</span>{" "}
+          {context ? action.current(context) : isLoading ? "Loading..." : "Unavailable"}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {action.fields.map(field => {
+          const id = `owner-${action.functionName}-${field.name}`
+          if (field.kind === "bool") {
+            return (
+              <label key={field.name} htmlFor={id} className="flex items-center space-x-2 font-body text-white/80 text-sm">
+                <input
+                  id={id}
+                  type="checkbox"
+                  checked={values[field.name] === "true"}
+                  onChange={(e) => setValue(field.name, String(e.target.checked))}
+                  className="accent-white"
+                />
+                <span>{field.label}</span>
+              </label>
+            )
+          }
+          return (
+            <div key={field.name} className={`space-y-2 ${field.kind === "bytes32-list" ? "sm:col-span-2" : ""}`}>
+              <Label htmlFor={id} className="font-body text-white/80 text-xs">
+                {field.label}{field.kind === "amount" ? ` (${action.functionName.includes("Link") ? "LINK" : nativeSymbol})` : ""}
+              </Label>
+              {field.kind === "bytes32-list" ? (
+                <Textarea
+                  id={id}
+                  placeholder={field.placeholder}
+                  value={values[field.name] ?? ""}
+                  onChange={(e) => setValue(field.name, e.target.value)}
+                  className="bg-white/10 border-white/30 text-white placeholder:text-white/50 font-mono text-xs"
+                />
+              ) : (
+                <Input
+                  id={id}
+                  type={field.kind === "address" ? "text" : "number"}
+                  placeholder={field.placeholder}
+                  value={values[field.name] ?? ""}
+                  onChange={(e) => setValue(field.name, e.target.value)}
+                  className="bg-white/10 border-white/30 text-white placeholder:text-white/50"
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+      {secondsPreview && <p className="font-body text-white/60 text-xs">= {secondsPreview}</p>}
+
+      <div className="grid grid-cols-2 gap-3">
+        <ActionButton
+          variant="blue"
+          state={!context ? "disabled" : status.phase === "simulating" ? "loading" : isBusy ? "disabled" : "enabled"}
+          icon={<FlaskConical className="h-4 w-4" />}
+          onClick={() => simulate(action, values)}
+          fullWidth
+        >
+          Simulate
+        </ActionButton>
+        <ActionButton
+          variant={action.danger ? "red" : "green"}
+          state={!context ? "disabled" : status.phase === "sending" ? "loading" : isBusy ? "disabled" : "enabled"}
+          icon={safe ? <ListPlus className="h-4 w-4" /> : <Send className="h-4 w-4" />}
+          onClick={() => action.danger ? setConfirmOpen(true) : handleSend()}
+          fullWidth
+        >
+          {safe ? "Add to batch" : "Send"}
+        </ActionButton>
+      </div>
+
+      {status.phase === "simulated" && <StatusAlert type="info" title="Simulation passed" message={status.message} />}
+      {status.phase === "sending" && <StatusAlert type="info" title="Sending" message={status.message} />}
+      {status.phase === "queued" && <StatusAlert type="success" title="Queued" message={status.message} />}
+      {status.phase === "failed" && <StatusAlert type="error" title={`${action.functionName} failed`} message={status.message} />}
+      {status.phase === "confirmed" && (
+        <StatusAlert
+          type="success"
+          title={`${action.functionName} confirmed`}
+          message={[...(status.events ?? []), status.message, status.hash && `tx ${status.hash}`].filter(Boolean).join("\n")}
+          className="whitespace-pre-line break-all"
+        />
+      )}
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent variant="glass">
+          <DialogHeader>
+            <DialogTitle className="font-body text-white">Confirm {action.label}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3">
+              <div className="flex items-start space-x-2">
+                <AlertTriangle className="h-4 w-4 text-red-400 mt-0.5 flex-shrink-0" />
+                <p className="font-body text-red-300 text-xs">{action.description}</p>
+              </div>
+            </div>
+            <div className="space-y-1">
+              {action.fields.map(field => (
+                <p key={field.name} className="font-body text-white/90 text-sm break-all">
+                  <span className="font-medium">{field.label}:</span> {values[field.name] || "—"}
+                </p>
+              ))}
+            </div>
+            <div className="flex space-x-3">
+              <DialogClose asChild>
+                <Button variant="ghost" className="flex-1 bg-white/10 backdrop-blur-sm border border-white/30 text-white hover:bg-white/20">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <DialogClose asChild>
+                <Button
+                  className="flex-1 bg-red-600/30 backdrop-blur-sm border border-red-500/40 hover:bg-red-600/50 text-white"
+                  onClick={handleSend}
+                >
+                  Confirm
+                </Button>
+              </DialogClose>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {safe && <SafeBatchPanel proposals={proposals} />}
+    </div>
+  )
+}
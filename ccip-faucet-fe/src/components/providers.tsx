@@ -1,6 +1,7 @@
 import { WagmiProvider } from 'wagmi'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { getWagmiConfig } from '@/lib/wagmi'
+import { CHAIN_REGISTRY_UPDATED } from '@/lib/chain-registry'
 import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit'
 import { useState, useEffect } from 'react'
 
@@ -33,6 +34,17 @@ export function Providers({ children }: { children: React.ReactNode }) {
     initializeWagmi()
   }, [])
 
+  // NEW: A registry change rebuilds the wagmi config with the new chain list - hand the new one to WagmiProvider
+  useEffect(() => {
+    const applyRegistryChange = () => {
+      const wagmiConfig = getWagmiConfig()
+      setConfig(wagmiConfig)
+      setChains(wagmiConfig.chains)
+    }
+    window.addEventListener(CHAIN_REGISTRY_UPDATED, applyRegistryChange)
+    return () => window.removeEventListener(CHAIN_REGISTRY_UPDATED, applyRegistryChange)
+  }, [])
+
   if (isLoading || !config) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -0,0 +1,111 @@
+import { Button } from "@/components/ui/button"
+import { StatusAlert, ActionButton } from "@/components/ui"
+import { CheckCircle, Clock, Copy, Download, RefreshCw, X } from "lucide-react"
+import type { useSafeProposals } from "@/hooks/use-safe-proposals"
+
+interface SafeBatchPanelProps {
+  proposals: ReturnType<typeof useSafeProposals>
+}
+
+/**
+ * Queued owner calls for the Safe owner (export as a Transaction Builder file or raw tuples)
+ * and exported calls tracked by calldata hash until the Safe executes them
+ */
+export function SafeBatchPanel({ proposals }: SafeBatchPanelProps) {
+  const { batch, tracked, pendingCount, isRefreshing, error, refresh, remove, clearBatch, exportBatch, clearExecuted } = proposals
+  const executedCount = tracked.length - pendingCount
+
+  return (
+    <div className="space-y-3 border-t border-white/20 pt-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-body font-medium text-white text-sm">Safe Batch ({batch.length})</h5>
+        {batch.length > 0 && (
+          <Button onClick={clearBatch} size="sm" variant="ghost" className="text-white/70 hover:text-white hover:bg-white/10 text-xs">
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {batch.length === 0 ? (
+        <p className="font-body text-white/60 text-xs">No calls queued - pick an action above and add it to the batch.</p>
+      ) : (
+        <ul className="space-y-1">
+          {batch.map((tx, index) => (
+            <li key={`${tx.data}-${index}`} className="flex items-center justify-between bg-white/5 rounded px-2 py-1">
+              <span className="font-mono text-white/90 text-xs break-all">{tx.label}</span>
+              <Button onClick={() => remove(index)} size="sm" variant="ghost" className="text-white/60 hover:text-white hover:bg-white/10 p-1 h-6 w-6">
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <ActionButton
+          variant="green"
+          state={batch.length === 0 ? "disabled" : "enabled"}
+          icon={<Download className="h-4 w-4" />}
+          onClick={() => exportBatch("safe")}
+          fullWidth
+        >
+          Safe JSON
+        </ActionButton>
+        <ActionButton
+          variant="secondary"
+          state={batch.length === 0 ? "disabled" : "enabled"}
+          icon={<Copy className="h-4 w-4" />}
+          onClick={() => exportBatch("raw")}
+          fullWidth
+        >
+          Copy raw txs
+        </ActionButton>
+      </div>
+
+      {error && <StatusAlert type="error" title="Safe batch" message={error} />}
+
+      {tracked.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h5 className="font-body font-medium text-white text-sm">
+              Proposals ({pendingCount} pending, {executedCount} executed)
+            </h5>
+            <div className="flex items-center space-x-1">
+              {executedCount > 0 && (
+                <Button onClick={clearExecuted} size="sm" variant="ghost" className="text-white/70 hover:text-white hover:bg-white/10 text-xs">
+                  Clear executed
+                </Button>
+              )}
+              <Button
+                onClick={refresh}
+                disabled={isRefreshing}
+                size="sm"
+                variant="ghost"
+                className="text-white/70 hover:text-white hover:bg-white/10 p-2"
+              >
+                <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+          <ul className="space-y-1">
+            {tracked.map(entry => (
+              <li key={`${entry.calldataHash}-${entry.createdAt}`} className="flex items-start space-x-2 bg-white/5 rounded px-2 py-1">
+                {entry.executedTxHash
+                  ? <CheckCircle className="h-4 w-4 text-green-400 mt-0.5 flex-shrink-0" />
+                  : <Clock className="h-4 w-4 text-yellow-400 mt-0.5 flex-shrink-0" />}
+                <div className="min-w-0">
+                  <p className="font-mono text-white/90 text-xs break-all">{entry.label}</p>
+                  <p className="font-body text-white/60 text-xs break-all">
+                    {entry.executedTxHash
+                      ? `Executed in block ${entry.executedBlock} - tx ${entry.executedTxHash}`
+                      : `Waiting for Safe signatures (exported at block ${entry.fromBlock})`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
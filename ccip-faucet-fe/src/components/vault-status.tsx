@@ -1,16 +1,11 @@
 
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect } from "react"
 import { Card, CardContent } from "@/components/ui/card"
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogClose } from "@/components/ui/dialog"
-import { Input } from "@/components/ui/input"
-import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { TooltipProvider, Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
-import { StatusCard, StatusAlert, ActionButton, ContractAddress } from "@/components/ui"
-import { Shield, Minus, Info, AlertTriangle, RefreshCw } from "lucide-react"
-import { useWalletClient } from 'wagmi'
-import { parseAbi, encodeFunctionData, parseEther } from 'viem'
-import { publicClient } from '@/lib/viem'
+import { StatusCard, StatusAlert, ContractAddress } from "@/components/ui"
+import { OwnerConsole } from "@/components/owner-console"
+import { Shield, RefreshCw } from "lucide-react"
 import { useFaucet } from "@/hooks/use-faucet"
 import { useStatus } from "@/hooks/use-status"
 
@@ -18,21 +13,20 @@ import { useStatus } from "@/hooks/use-status"
 import { useAddressState, useAddressUtils } from '@/store/faucet-store'
 
 import type { DerivedConfig } from '@/lib/types/config'
+import type { SafeInfo } from '@/lib/safe-proposals'
 
 import React from "react"
 
 interface VaultStatusProps {
   isOwner: boolean
   derivedConfig?: DerivedConfig | null
+  /** Set when the faucet owner is a Safe - owner actions are batched for it instead of sent */
+  ownerSafe?: SafeInfo | null
 }
 
-function VaultStatusComponent({ isOwner, derivedConfig }: VaultStatusProps) {
+function VaultStatusComponent({ isOwner, derivedConfig, ownerSafe }: VaultStatusProps) {
   const { faucet, refreshVaultBalances } = useFaucet()
-  const { data: walletClient } = useWalletClient()  // Fixed: use useWalletClient from wagmi
   const [isRefreshing, setIsRefreshing] = useState(false)
-  const [withdrawToken, setWithdrawToken] = useState<"active" | "link">("active")
-  const [withdrawAmount, setWithdrawAmount] = useState("")
-  const [isWithdrawValid, setIsWithdrawValid] = useState(true)
   
   // 🆕 CONSOLIDATED: Use Zustand address state instead of separate loading
   const addresses = useAddressState()
@@ -63,49 +57,6 @@ function VaultStatusComponent({ isOwner, derivedConfig }: VaultStatusProps) {
   const activeStatus = useStatus(faucet.vaultActive, activeCritical)  // Changed from monStatus and vaultMon
   const linkStatus = useStatus(faucet.vaultLink, linkCritical)
 
-  // Validate withdrawal amount
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      if (!withdrawAmount || parseFloat(withdrawAmount) <= 0) {
-        setIsWithdrawValid(true)
-        return
-      }
-
-      const amount = parseFloat(withdrawAmount)
-      
-      // Calculate treasury balance (total balance minus reservoir)
-      // This matches the Faucet.sol contract logic
-      const totalActiveBalance = faucet.vaultActive + faucet.active.tankBalance
-      const activeTreasuryBalance = totalActiveBalance > faucet.vaultActive ? totalActiveBalance - faucet.vaultActive : 0
-      
-      const totalLinkBalance = faucet.vaultLink + faucet.link.tankBalance
-      const linkTreasuryBalance = totalLinkBalance > faucet.vaultLink ? totalLinkBalance - faucet.vaultLink : 0
-      
-      const maxAmount = withdrawToken === "active" ? activeTreasuryBalance : linkTreasuryBalance
-      setIsWithdrawValid(amount <= maxAmount)
-    }, 300)
-
-    return () => clearTimeout(timer)
-  }, [withdrawAmount, withdrawToken, faucet.vaultActive, faucet.vaultLink, faucet.active.tankBalance, faucet.link.tankBalance])
-
-  // Memoize button state to prevent flickering
-  const withdrawButtonState = useMemo(() => ({
-    disabled: !isWithdrawValid || !withdrawAmount || parseFloat(withdrawAmount) <= 0,
-    text: withdrawAmount ? `Withdraw ${withdrawAmount} ${withdrawToken.toUpperCase()}` : 'Enter amount'
-  }), [isWithdrawValid, withdrawAmount, withdrawToken])
-
-  // Currently unused in UI – retained for future animation enhancements
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [_stableAnimated, setStableAnimated] = useState(false)
-  
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setStableAnimated(isWithdrawValid)
-    }, 150) // Increased debounce from 50ms to 150ms
-    
-    return () => clearTimeout(timer)
-  }, [isWithdrawValid])
-
   const handleRefreshBalances = async () => {
     setIsRefreshing(true)
     try {
@@ -220,153 +171,12 @@ function VaultStatusComponent({ isOwner, derivedConfig }: VaultStatusProps) {
                 </div>
                 </div>
 
-                {/* Withdraw Section */}
-                <div className="space-y-3">
-                  <h5 className="font-body font-medium text-white text-sm">Emergency Withdraw</h5>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                    <div className="space-y-2">
-                      <Label htmlFor="token-select" className="font-body text-white/80 text-xs">
-                          Token
-                        </Label>
-                        <select
-                        id="token-select"
-                          value={withdrawToken}
-                          onChange={(e) => setWithdrawToken(e.target.value as "active" | "link")}
-                        className="w-full bg-white/10 border border-white/30 rounded text-white text-sm p-2 h-10 font-body focus-natural"
-                        >
-                        <option value="active" className="bg-black">
-                          {derivedConfig?.nativeSymbol || 'MON'}
-                        </option>
-                        <option value="link" className="bg-black">
-                          LINK
-                        </option>
-                        </select>
-                      </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="withdraw-amount" className="font-body text-white/80 text-xs">
-                          Amount
-                        </Label>
-                        <Input
-                        id="withdraw-amount"
-                          type="number"
-                        placeholder="Enter amount"
-                          value={withdrawAmount}
-                          onChange={(e) => setWithdrawAmount(e.target.value)}
-                        className="bg-white/10 border-white/30 text-white placeholder:text-white/90"
-                      />
-                      {/* Validation text for over-withdrawal */}
-                      {!isWithdrawValid && withdrawAmount && parseFloat(withdrawAmount) > 0 && (
-                        <p className="font-body text-xs text-red-400 mt-1">
-                          Amount exceeds available treasury balance.
-                        </p>
-                      )}
-                    </div>
-                  </div>
-
-                  <Dialog>
-                    <DialogTrigger asChild>
-                      <ActionButton
-                        variant="red"
-                        state={withdrawButtonState.disabled ? "disabled" : "enabled"}
-                        icon={<Minus className="h-4 w-4" />}
-                        rightIcon={<Info className="h-3 w-3" />}
-                        fullWidth
-                        animated={false}  // Disable pulse animation to prevent flicker
-                        tooltip="Emergency withdrawal from vault reserves (admin only)"
-                      >
-                        {withdrawButtonState.text}
-                      </ActionButton>
-                    </DialogTrigger>
-                        <DialogContent variant="glass">
-                          <DialogHeader>
-                            <DialogTitle className="font-body text-white">Confirm Emergency Withdrawal</DialogTitle>
-                          </DialogHeader>
-                          <div className="space-y-4 pt-4">
-                            <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3">
-                              <div className="flex items-start space-x-2">
-                                <AlertTriangle className="h-4 w-4 text-red-400 mt-0.5 flex-shrink-0" />
-                                <div>
-                                  <p className="font-body text-red-400 font-semibold text-sm">Emergency Withdrawal Warning</p>
-                                  <p className="font-body text-red-300 text-xs">
-                                    This will reduce vault reserves and may affect the faucet's ability to refill tanks.
-                                  </p>
-                                </div>
-                              </div>
-                            </div>
-
-                            <div className="space-y-2">
-                              <p className="font-body text-white/90 text-sm">
-                                <span className="font-medium">Amount:</span> {withdrawAmount} {withdrawToken.toUpperCase()}
-                              </p>
-                              <p className="font-body text-white/90 text-sm">
-                                <span className="font-medium">Remaining:</span>{" "}
-                                {withdrawToken === "active"
-                                  ? faucet.vaultActive - parseFloat(withdrawAmount || "0") // Changed from vaultMon
-                                  : faucet.vaultLink - parseFloat(withdrawAmount || "0")}{" "}
-                                {withdrawToken.toUpperCase()}
-                              </p>
-                            </div>
-
-                            <div className="flex space-x-3">
-                              <DialogClose asChild>
-                                <Button variant="ghost" className="flex-1 bg-white/10 backdrop-blur-sm border border-white/30 text-white hover:bg-white/20">
-                                  Cancel
-                                </Button>
-                              </DialogClose>
-                              <DialogClose asChild>
-                                <Button
-                                  className="flex-1 bg-red-600/30 backdrop-blur-sm border border-red-500/40 hover:bg-red-600/50 text-white"
-                                  onClick={async () => {
-                                    if (!walletClient) return
-                                    if (!isWithdrawValid) return
-
-                                    try {
-                                      const amountWei = parseEther(withdrawAmount as `${string}`)
-
-                                      const faucetAbi = parseAbi([
-                                        'function emergencyWithdrawMon(address to,uint256 amount)',
-                                        'function emergencyWithdrawLink(address to,uint256 amount)',
-                                      ])
-
-                                      const functionName = withdrawToken === 'active'
-                                        ? 'emergencyWithdrawMon'
-                                        : 'emergencyWithdrawLink'
-
-                                      const txHash = await walletClient.sendTransaction({
-                                        account: walletClient.account,
-                                        to: (addresses?.FAUCET_ADDRESS || '') as `0x${string}`,
-                                        data: encodeFunctionData({
-                                          abi: faucetAbi,
-                                          functionName,
-                                          args: [walletClient.account.address as `0x${string}` , amountWei],
-                                        }),
-                                        value: 0n,
-                                        chain: walletClient.chain,  // Add missing chain parameter
-                                      })
-
-                                      console.log('⏳ Waiting for emergency withdraw tx...', txHash)
-                                      await publicClient.waitForTransactionReceipt({ hash: txHash })
-
-                                      console.log('✅ Emergency withdrawal confirmed')
-
-                                      // Refresh balances after withdrawal
-                                      await refreshVaultBalances()
-
-                                    } catch (error) {
-                                      console.error('Emergency withdrawal failed', error)
-                                    } finally {
-                                    setWithdrawAmount("")
-                                    }
-                                  }}
-                                >
-                                  Confirm Withdrawal
-                                </Button>
-                              </DialogClose>
-                            </div>
-                    </div>
-                  </DialogContent>
-                </Dialog>
-                </div>
+                {/* Owner Console - every onlyOwner faucet function (incl. both emergency withdrawals) */}
+                <OwnerConsole
+                  nativeSymbol={derivedConfig?.nativeSymbol || 'MON'}
+                  safe={ownerSafe ?? undefined}
+                  onConfirmed={handleRefreshBalances}
+                />
               </div>
           </div>
         )}
@@ -1,63 +1,149 @@
-
-
-import { useState } from 'react'
-import { encodeFunctionData, parseAbi } from 'viem'
+import { useCallback, useState } from 'react'
 import { useWalletClient } from 'wagmi'
-import { getSmartAccountClient } from '@/lib/aa-client'
+import {
+  checkSponsorshipEligibility,
+  estimateGasFreeClaim,
+  getSmartAccountClient,
+  getSmartAccountInfo,
+  sendGasFreeClaim,
+  type GasFreeEstimate,
+  type SmartAccountInfo,
+  type SponsorshipEligibility,
+} from '@/lib/aa-client'
 import { getFaucetAddress } from '@/lib/config'
+import { createConfigDrivenPublicClient } from '@/lib/config/chain/viem-client'
+import { decodeFaucetTxError, simulateFaucetWrite, type FaucetTxErrorCode } from '@/lib/faucet-tx'
+
+/**
+ * What the gas-free claim will do, before anything is signed
+ */
+export interface GaslessPreview {
+  smartAccount: SmartAccountInfo
+  estimate: GasFreeEstimate
+}
+
+export type GaslessResult =
+  | { success: true; txHash: `0x${string}`; userOpHash: `0x${string}`; smartAccount: `0x${string}` }
+  | { success: false; error: string; code: FaucetTxErrorCode }
+
+function toFailure(error: unknown): Extract<GaslessResult, { success: false }> {
+  const { code, message } = decodeFaucetTxError(error, 'requestNativeTokensTo')
+  return { success: false, error: message, code }
+}
 
 export function useAccountAbstraction() {
   const [isProcessing, setIsProcessing] = useState(false)
   const { data: walletClient } = useWalletClient()
 
-  const executeGaslessTransaction = async (
+  /**
+   * Build the SmartAccountClient and simulate the inner call from the smart account -
+   * cooldown / empty reservoir fail here, before a UserOperation is built and signed
+   */
+  const prepareClaim = useCallback(async (recipientAddress?: `0x${string}`, faucetAddress?: `0x${string}`) => {
+    if (!walletClient) throw new Error('Wallet not connected')
+
+    // Build a SmartAccountClient for this wallet
+    const sac = await getSmartAccountClient(walletClient)
+
+    // Get faucet address from config if not provided
+    const faucet = faucetAddress ?? (await getFaucetAddress()) as `0x${string}`
+
+    // IMPORTANT: Use the EOA address (recipientAddress) as the recipient, not the smart account address
+    const recipient = recipientAddress ?? walletClient.account.address
+
+    console.log('AA Transaction Details:')
+    console.log('- EOA Address (walletClient):', walletClient.account.address)
+    console.log('- Smart Account Address:', sac.account.address)
+    console.log('- Final Recipient (tokens go to):', recipient)
+    console.log('- Faucet Address:', faucet)
+
+    await simulateFaucetWrite(await createConfigDrivenPublicClient(), {
+      faucet,
+      functionName: 'requestNativeTokensTo',
+      args: [recipient],
+      account: sac.account.address,
+    })
+
+    return { sac, faucet, recipient }
+  }, [walletClient])
+
+  /**
+   * Would the claim be sponsored? Checked before the modal offers to sign anything
+   */
+  const checkEligibility = useCallback(async (
+    nativeSymbol: string,
     recipientAddress?: `0x${string}`,
     faucetAddress?: `0x${string}`,
-  ): Promise<{ success: boolean; txHash?: string; error?: string }> => {
-    if (!walletClient) return { success: false, error: 'Wallet not connected' }
+  ): Promise<{ success: true; eligibility: SponsorshipEligibility } | Extract<GaslessResult, { success: false }>> => {
+    if (!walletClient) return { success: false, error: 'Wallet not connected', code: 'unknown' }
 
     try {
-      setIsProcessing(true)
+      const faucet = faucetAddress ?? (await getFaucetAddress()) as `0x${string}`
+      const recipient = recipientAddress ?? walletClient.account.address
+      return { success: true, eligibility: await checkSponsorshipEligibility(walletClient, faucet, recipient, nativeSymbol) }
+    } catch (error) {
+      const failure = toFailure(error)
+      console.error('Sponsorship eligibility check failed:', failure.error)
+      return failure
+    }
+  }, [walletClient])
+
+  /**
+   * Counterfactual smart account + sponsored gas estimate for the claim (no signature)
+   */
+  const previewGaslessTransaction = useCallback(async (
+    recipientAddress?: `0x${string}`,
+    faucetAddress?: `0x${string}`,
+  ): Promise<{ success: true; preview: GaslessPreview } | Extract<GaslessResult, { success: false }>> => {
+    if (!walletClient) return { success: false, error: 'Wallet not connected', code: 'unknown' }
+
+    try {
+      const [smartAccount, { sac, faucet, recipient }] = await Promise.all([
+        getSmartAccountInfo(walletClient.account.address),
+        prepareClaim(recipientAddress, faucetAddress),
+      ])
+      if (smartAccount.address.toLowerCase() !== sac.account.address.toLowerCase()) {
+        console.warn('⚠️ Factory getAddress and the smart account client disagree:', smartAccount.address, sac.account.address)
+      }
 
-      // Build a SmartAccountClient for this wallet
-      const sac = await getSmartAccountClient(walletClient)
+      const estimate = await estimateGasFreeClaim(sac, faucet, recipient)
+      console.log('⛽ Gas-free claim estimate:', estimate)
+      return { success: true, preview: { smartAccount, estimate } }
+    } catch (error) {
+      const failure = toFailure(error)
+      console.error('AA preview failed:', failure.error)
+      return failure
+    }
+  }, [walletClient, prepareClaim])
 
-      // Get faucet address from config if not provided
-      const finalFaucetAddress = faucetAddress ?? (await getFaucetAddress()) as `0x${string}`
+  const executeGaslessTransaction = useCallback(async (
+    recipientAddress?: `0x${string}`,
+    faucetAddress?: `0x${string}`,
+  ): Promise<GaslessResult> => {
+    if (!walletClient) return { success: false, error: 'Wallet not connected', code: 'unknown' }
 
-      // IMPORTANT: Use the EOA address (recipientAddress) as the recipient, not the smart account address
-      const finalRecipient = recipientAddress ?? walletClient.account.address
-      
-      console.log('AA Transaction Details:')
-      console.log('- EOA Address (walletClient):', walletClient.account.address)
-      console.log('- Smart Account Address:', sac.account.address)
-      console.log('- Final Recipient (tokens go to):', finalRecipient)
-      console.log('- Faucet Address:', finalFaucetAddress)
+    try {
+      setIsProcessing(true)
+
+      const { sac, faucet, recipient } = await prepareClaim(recipientAddress, faucetAddress)
 
       // Send the faucet call via a sponsored UserOperation
-      const faucetAbi = parseAbi(['function requestNativeTokensTo(address)'])
-
-      const txHash = await sac.sendTransaction({
-        to: finalFaucetAddress,
-        data: encodeFunctionData({
-          abi: faucetAbi,
-          functionName: 'requestNativeTokensTo',
-          args: [finalRecipient], // This MUST be the EOA address
-        }),
-        value: 0n,
-      })
+      const { txHash, userOpHash, smartAccount } = await sendGasFreeClaim(sac, faucet, recipient)
 
       console.log('AA Transaction Hash:', txHash)
-      return { success: true, txHash }
-    } catch (error: any) {
-      console.error('AA Transaction failed:', error)
-      return { success: false, error: error?.message ?? 'Unknown error' }
+      return { success: true, txHash, userOpHash, smartAccount }
+    } catch (error) {
+      const failure = toFailure(error)
+      console.error('AA Transaction failed:', failure.error)
+      return failure
     } finally {
       setIsProcessing(false)
     }
-  }
+  }, [walletClient, prepareClaim])
 
   return {
+    checkEligibility,
+    previewGaslessTransaction,
     executeGaslessTransaction,
     isProcessing,
   }
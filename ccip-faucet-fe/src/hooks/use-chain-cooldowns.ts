@@ -0,0 +1,68 @@
+import { useState, useEffect, useMemo } from 'react'
+import type { Address } from 'viem'
+import { getFaucetChains, type FaucetChainInfo } from '@/lib/multi-chain-status'
+import { useChainCooldownState, getRemainingCooldown } from '@/store/faucet-store'
+
+export interface ChainClaimStatus {
+  chainName: string
+  chainId: number
+  displayName: string
+  ticker: string
+  activeRemaining: number
+  linkRemaining: number
+  /** Seconds until the first token on this chain becomes claimable (0 = claimable now) */
+  nextClaimIn: number
+}
+
+/**
+ * Next-claim status for every supported chain
+ * Deadlines live in the store keyed by chainId - the polling worker seeds them from each chain's lastClaim data
+ */
+export function useChainCooldowns(address: Address | null | undefined) {
+  const cooldowns = useChainCooldownState()
+  const [chains, setChains] = useState<FaucetChainInfo[]>([])
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  useEffect(() => {
+    if (!address) {
+      setChains([])
+      return
+    }
+
+    let cancelled = false
+    getFaucetChains()
+      .then(result => { if (!cancelled) setChains(result) })
+      .catch(error => console.error('❌ Failed to load faucet chains:', error))
+    return () => { cancelled = true }
+  }, [address])
+
+  // 1s tick for the countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Chains without deadlines yet (not polled, or unreachable) are left out
+  const statuses = useMemo<ChainClaimStatus[]>(() => chains.flatMap(chain => {
+    const entry = cooldowns[chain.chainId]
+    if (!entry) return []
+
+    const activeRemaining = getRemainingCooldown(entry.active.dripAvailableAt, now)
+    const linkRemaining = getRemainingCooldown(entry.link.dripAvailableAt, now)
+
+    return [{
+      chainName: chain.chainName,
+      chainId: chain.chainId,
+      displayName: chain.displayName,
+      ticker: chain.ticker,
+      activeRemaining,
+      linkRemaining,
+      nextClaimIn: Math.min(activeRemaining, linkRemaining),
+    }]
+  }), [chains, cooldowns, now])
+
+  return {
+    statuses,
+    claimableCount: statuses.filter(status => status.nextClaimIn === 0).length,
+  }
+}
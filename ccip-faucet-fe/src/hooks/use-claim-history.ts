@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import type { Address } from 'viem'
+import {
+  fetchClaimHistory,
+  getCachedClaims,
+  getClaimTotals,
+  type ClaimRecord,
+} from '@/lib/claim-history'
+import { FAUCET_EVENTS_POLLED, type FaucetEventsPolledDetail } from '@/lib/polling-worker'
+
+/**
+ * Connected wallet's Drip history across all supported chains
+ * Renders cached claims immediately, then refreshes from chain in the background
+ */
+export function useClaimHistory(address: Address | null | undefined) {
+  const [claims, setClaims] = useState<ClaimRecord[]>([])
+  const [failedChains, setFailedChains] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!address) return
+
+    try {
+      setIsLoading(true)
+      setError(null)
+      const result = await fetchClaimHistory(address)
+      setClaims(result.claims)
+      setFailedChains(result.failedChains)
+      console.log(`📜 Claim history refreshed: ${result.claims.length} claims`)
+    } catch (err) {
+      console.error('❌ Failed to fetch claim history:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch claim history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address])
+
+  useEffect(() => {
+    if (!address) {
+      setClaims([])
+      setFailedChains([])
+      return
+    }
+
+    // Instant render from cache, then catch up with new blocks
+    setClaims(getCachedClaims(address))
+    refresh()
+  }, [address, refresh])
+
+  // The polling worker saw a new Drip for this wallet - pick it up without waiting for a manual refresh
+  useEffect(() => {
+    if (!address) return
+
+    const handleEvents = (event: Event) => {
+      const { drips } = (event as CustomEvent<FaucetEventsPolledDetail>).detail
+      if (drips.length > 0) refresh()
+    }
+    window.addEventListener(FAUCET_EVENTS_POLLED, handleEvents)
+    return () => window.removeEventListener(FAUCET_EVENTS_POLLED, handleEvents)
+  }, [address, refresh])
+
+  const totals = useMemo(() => getClaimTotals(claims), [claims])
+
+  return {
+    claims,
+    totals,
+    failedChains,
+    isLoading,
+    error,
+    refresh,
+  }
+}
@@ -1,5 +1,6 @@
 import { useEffect } from 'react'
 import { useFaucetStore } from '@/store/faucet-store'
+import { getActiveChainConfig } from '@/lib/config'
 
 /**
  * Centralized cooldown manager hook
@@ -73,6 +74,9 @@ export function useAutoCooldownManager() {
     // Ensure timer is running
     startCooldownTimer()
     
+    // NEW: Record the deadline for the active chain so it survives chain switches
+    recordChainCooldown(token, type, seconds)
+    
     console.log(`⏱️ Set ${token} ${type} cooldown: ${seconds}s`)
   }
 
@@ -81,4 +85,21 @@ export function useAutoCooldownManager() {
     setDripCooldown: (token: 'active' | 'link', seconds: number) => setCooldown(token, 'drip', seconds),
     setRequestCooldown: (token: 'active' | 'link', seconds: number) => setCooldown(token, 'request', seconds),
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Store a cooldown as an absolute deadline under the active chain's id
+ */
+export async function recordChainCooldown(token: 'active' | 'link', type: 'drip' | 'request', seconds: number) {
+  try {
+    const { chainId } = await getActiveChainConfig()
+    const availableAt = Math.floor(Date.now() / 1000) + seconds
+    useFaucetStore.getState().setChainCooldown(
+      chainId,
+      token,
+      type === 'drip' ? { dripAvailableAt: availableAt } : { requestAvailableAt: availableAt }
+    )
+  } catch (error) {
+    console.warn('⚠️ Failed to record per-chain cooldown:', error)
+  }
+}
@@ -3,6 +3,7 @@ import { usePublicClient } from 'wagmi'
 import { getFaucetAddress } from '@/lib/config/chain/addresses'
 import { createConfigDrivenPublicClient } from '@/lib/config/chain/viem-client'
 import { cachedContractRead } from '@/lib/request-cache'
+import { readSafeInfo, type SafeInfo } from '@/lib/safe-proposals'
 
 // Faucet contract owner function ABI
 const ownerAbi = [
@@ -17,6 +18,8 @@ const ownerAbi = [
 
 export function useFaucetOwner() {
   const [faucetOwner, setFaucetOwner] = useState<string | null>(null)
+  // NEW: set when the owner is a Safe multisig (owner actions are exported as batches)
+  const [ownerSafe, setOwnerSafe] = useState<SafeInfo | null>(null)
   const [isOwnerLoading, setIsOwnerLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -32,6 +35,7 @@ export function useFaucetOwner() {
 
         // Use cached contract read for efficiency
         const owner = await cachedContractRead(
+          { chainId: publicClient.chain.id, contract: faucetAddress },
           'faucetOwner',
           () => publicClient.readContract({
             address: faucetAddress as `0x${string}`,
@@ -44,10 +48,17 @@ export function useFaucetOwner() {
 
         setFaucetOwner(owner)
         console.log('✅ Faucet owner fetched:', owner)
+
+        const safe = await readSafeInfo(publicClient, owner)
+        setOwnerSafe(safe)
+        if (safe) {
+          console.log(`🔐 Faucet owner is a Safe (${safe.threshold}/${safe.owners.length})`)
+        }
       } catch (err) {
         console.error('❌ Failed to fetch faucet owner:', err)
         setError(err instanceof Error ? err.message : 'Failed to fetch owner')
         setFaucetOwner(null)
+        setOwnerSafe(null)
       } finally {
         setIsOwnerLoading(false)
       }
@@ -58,6 +69,7 @@ export function useFaucetOwner() {
 
   return {
     faucetOwner,
+    ownerSafe,
     isOwnerLoading,
     error,
   }
@@ -1,14 +1,15 @@
 import { useState, useEffect, useCallback } from 'react'
-import { parseAbi, encodeFunctionData, formatEther } from "viem"
 import { useWalletClient, usePublicClient } from 'wagmi'
 import { getFaucetSnapshot } from '@/lib/faucetClient'
 import { publicClient } from '@/lib/viem'
-import { useAutoCooldownManager } from '@/hooks/use-cooldown-manager'
-import { faucetAbi } from '@/lib/faucetAbi'  // Use centralized ABI
+import { useAutoCooldownManager, recordChainCooldown } from '@/hooks/use-cooldown-manager'
 import { useFaucetStore, useTokenState, useVaultState, useVolatilityState } from '@/store/faucet-store'
-import { useBatchOperations } from '@/hooks/use-batch-operations'
 import { useRequireActiveChain } from '@/hooks/use-require-active-chain'
 import { getFaucetAddress, getLinkTokenAddress } from '@/lib/config/chain/addresses'
+import { getActiveChainConfig } from '@/lib/config/chain/viem-client'
+import { invalidateForFaucetEvents } from '@/lib/request-cache'
+import { reportFaucetTxError, sendFaucetWrite } from '@/lib/faucet-tx'
+import { pollingWorker } from '@/lib/polling-worker'
 
 interface TokenState {
   tankBalance: number // Per-asset tank (available for dripping)
@@ -83,7 +84,6 @@ export function useFaucet() {
 
   const { data: walletClient } = useWalletClient()
   const { setDripCooldown } = useAutoCooldownManager()
-  const { fetchAllFaucetData } = useBatchOperations()
   const { updateTokenState, updateVolatility } = useFaucetStore()
 
   // REMOVED: Local state and sync effects - now reading directly from Zustand
@@ -96,126 +96,23 @@ export function useFaucet() {
     
     try {
       console.log('   → Calling getFaucetSnapshot...')
-      const snap = await getFaucetSnapshot(account)
-      console.log('   → getFaucetSnapshot succeeded, processing data...')
-
-      const activePoolNum  = Number(formatEther(snap.active.pool))
-      const activeDripNum  = Number(formatEther(snap.active.drip))
-      const linkPoolNum = Number(formatEther(snap.link.pool))
-      const linkDripNum = Number(formatEther(snap.link.drip))
-
-      // New: derive on-chain reservoir capacities for accurate UI max values
-      const activeCapNum  = Number(formatEther(snap.active.capacity))
-      const linkCapNum = Number(formatEther(snap.link.capacity))
-
-      // CRITICAL FIX: Fetch base drip amounts and thresholds from contract
-      const activeBaseDripNum = Number(formatEther(snap.active.baseDrip))
-      const linkBaseDripNum = Number(formatEther(snap.link.baseDrip))
-      
-      // Calculate low tank threshold based on contract thresholdFactor
-      const thresholdFactor = snap.constants.thresholdFactor
-      const activeLowThreshold = activeDripNum * thresholdFactor
-      const linkLowThreshold = linkDripNum * thresholdFactor
-
-      // CRITICAL FIX: Calculate remaining cooldown time from contract data
-      const contractCooldown = snap.constants.cooldown
-      let activeRemainingCooldown = 0
-      let linkRemainingCooldown = 0
-      
-      // Get current cooldown state from Zustand store
-      const currentState = useFaucetStore.getState()
-      const currentActiveCooldown = currentState.tokens.active.dripCooldownTime
-      const currentLinkCooldown = currentState.tokens.link.dripCooldownTime
-      
-      if (account && snap.lastClaim) {
-        const now = Math.floor(Date.now() / 1000) // Current timestamp in seconds
-        const activeLastClaim = Number(snap.lastClaim.active)
-        const linkLastClaim = Number(snap.lastClaim.link)
-        
-        // Only recalculate cooldown if there's no active cooldown in Zustand
-        // This prevents overwriting existing cooldown state during data refreshes
-        if (currentActiveCooldown <= 0) {
-          activeRemainingCooldown = Math.max(0, contractCooldown - (now - activeLastClaim))
-        } else {
-          activeRemainingCooldown = currentActiveCooldown
-        }
-        
-        if (currentLinkCooldown <= 0) {
-          linkRemainingCooldown = Math.max(0, contractCooldown - (now - linkLastClaim))
-        } else {
-          linkRemainingCooldown = currentLinkCooldown
-        }
-        
-        console.log(`⏱️ Cooldown calculation for ${account}:`, {
-          contractCooldown,
-          now,
-          activeLastClaim,
-          linkLastClaim,
-          currentActiveCooldown,
-          currentLinkCooldown,
-          activeRemainingCooldown,
-          linkRemainingCooldown,
-          preservedActive: currentActiveCooldown > 0,
-          preservedLink: currentLinkCooldown > 0,
-        })
-      }
-
-      // Update Zustand store with fresh data including base amounts, thresholds, and cooldowns
-      console.log('   → Updating Zustand store with contract data:')
-      console.log('     • Active:', { tankBalance: activePoolNum, currentDripAmount: activeDripNum, maxTankBalance: activeCapNum })
-      console.log('     • Link:', { tankBalance: linkPoolNum, currentDripAmount: linkDripNum, maxTankBalance: linkCapNum })
-      
-      updateTokenState('active', {
-        tankBalance: activePoolNum,
-        currentDripAmount: activeDripNum,
-        maxTankBalance: activeCapNum,
-        baseDripAmount: activeBaseDripNum,
-        lowTankThreshold: activeLowThreshold,
-        dripCooldownTime: activeRemainingCooldown,
+      const { chainId } = await getActiveChainConfig()
+      // NEW: Stale-while-revalidate - cached tank data renders immediately, fresh data follows
+      const snap = await getFaucetSnapshot(account, {
+        staleWhileRevalidate: true,
+        onRevalidated: (fresh) => useFaucetStore.getState().applyFaucetSnapshot(chainId, fresh),
       })
-      
-      updateTokenState('link', {
-        tankBalance: linkPoolNum,
-        currentDripAmount: linkDripNum,
-        maxTankBalance: linkCapNum,
-        baseDripAmount: linkBaseDripNum,
-        lowTankThreshold: linkLowThreshold,
-        dripCooldownTime: linkRemainingCooldown,
-      })
-      
-      console.log('   → Zustand store updated successfully')
-
-      // Update vault balances from treasury data
-      const { updateVaultBalance } = useFaucetStore.getState()
-      updateVaultBalance('active', Number(formatEther(snap.treasury.active)))
-      updateVaultBalance('link', Number(formatEther(snap.treasury.link)))
+      console.log('   → getFaucetSnapshot succeeded, processing data...')
 
-      // Start cooldown timer if any cooldowns are active
-      if (activeRemainingCooldown > 0 || linkRemainingCooldown > 0) {
-        const { startCooldownTimer } = useFaucetStore.getState()
-        startCooldownTimer()
-      }
+      // CONSOLIDATION: Same store update the polling worker uses (tanks, thresholds, vaults, cooldowns)
+      useFaucetStore.getState().applyFaucetSnapshot(chainId, snap)
 
       console.log('🔄 Faucet snapshot refreshed:', {
-        active: { 
-          pool: activePoolNum, 
-          drip: activeDripNum, 
-          capacity: activeCapNum,
-          baseDrip: activeBaseDripNum,
-          lowThreshold: activeLowThreshold,
-          cooldown: activeRemainingCooldown,
-        },
-        link: { 
-          pool: linkPoolNum, 
-          drip: linkDripNum, 
-          capacity: linkCapNum,
-          baseDrip: linkBaseDripNum,
-          lowThreshold: linkLowThreshold,
-          cooldown: linkRemainingCooldown,
-        },
+        chainId,
+        active: snap.active,
+        link: snap.link,
         treasury: snap.treasury,
-        thresholdFactor,
-        contractCooldown,
+        constants: snap.constants,
       })
 
     } catch (error) {
@@ -282,22 +179,22 @@ export function useFaucet() {
     try {
       updateTokenState(tokenKey, { isDripLoading: true })
 
-      // Use imported faucetAbi instead of hardcoded ABI
+      // NEW: Simulated first - cooldown / empty reservoir reverts surface before the wallet prompt
       const functionName = tokenType === "active" ? "requestNativeTokens" : "requestLinkTokens"
       const faucetAddress = await getFaucetAddress()
-      const { request } = await publicClient.simulateContract({
-        address: faucetAddress as `0x${string}`,
-        abi: faucetAbi,  // Use imported ABI
+      const { receipt, events } = await sendFaucetWrite(walletClient, publicClient, {
+        faucet: faucetAddress as `0x${string}`,
         functionName,
-        account: walletClient.account,
+        account: walletClient.account.address,
       })
-
-      const txHash = await walletClient.writeContract(request)
-      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
       
       if (receipt.status === 'success') {
         updateTokenState(tokenKey, { isDripLoading: false })
         
+        // NEW: Our own Drip event invalidates the tank + lastClaim reads it changed
+        const { chainId } = await getActiveChainConfig()
+        invalidateForFaucetEvents(chainId, faucetAddress, events)
+        
         // FIXED: Get the actual contract cooldown duration instead of hardcoded value
         const snap = await getFaucetSnapshot(walletClient.account.address)
         const contractCooldown = snap.constants.cooldown // This is the actual COOLDOWN from contract
@@ -308,7 +205,8 @@ export function useFaucet() {
         setDripCooldown(tokenType, contractCooldown)
       }
     } catch (err) {
-      console.error('Drip failed', err)
+      const error = reportFaucetTxError(err)
+      console.error('Drip failed:', error.message)
       updateTokenState(tokenKey, { isDripLoading: false })
     }
   }
@@ -328,6 +226,7 @@ export function useFaucet() {
           isRequestLoading: false,
           requestCooldownTime: 24 * 60 * 60, // 24 hours cooldown for fuel button
       })
+      recordChainCooldown(tokenKey, 'request', 24 * 60 * 60)
     }, 2000)
   }
 
@@ -379,19 +278,11 @@ export function useFaucet() {
   }
 
   // Refresh vault balances (can be called manually)
+  // The polling worker's snapshot carries the vaults - ask it for a cycle now instead of reading here
   const refreshVaultBalances = async () => {
-    try {
-      await fetchAllFaucetData()
-    } catch (error) {
-      console.error('Failed to refresh vault balances:', error)
-    }
+    pollingWorker.refresh()
   }
 
-  // 🚀 Initial vault balance fetch
-  useEffect(() => {
-    fetchAllFaucetData()
-  }, [fetchAllFaucetData])
-
   // CONSOLIDATED: Listen for faucet refresh events with network validation
   useEffect(() => {
     const handleFaucetRefresh = async (event: CustomEvent) => {
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react'
+import { fetchAllChainStatuses, type ChainStatusResult } from '@/lib/multi-chain-status'
+
+// Dashboard is read-only overview data - a minute between refreshes is plenty
+const DASHBOARD_REFRESH_INTERVAL = 60 * 1000
+
+/**
+ * Faucet status for every supported chain (no wallet required)
+ */
+export function useMultiChainStatus() {
+  const [chains, setChains] = useState<ChainStatusResult[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const results = await fetchAllChainStatuses()
+      setChains(results)
+      setLastUpdated(new Date())
+    } catch (error) {
+      console.error('❌ Failed to fetch multi-chain status:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+
+    // OPTIMIZED: Only poll while the page is visible
+    const interval = setInterval(() => {
+      if (!document.hidden) {
+        refresh()
+      }
+    }, DASHBOARD_REFRESH_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  return {
+    chains,
+    isLoading,
+    lastUpdated,
+    refresh,
+  }
+}
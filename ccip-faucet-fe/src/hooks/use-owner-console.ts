@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useWalletClient } from 'wagmi'
+import { encodeFunctionData } from 'viem'
+import { faucetAbi } from '@/lib/faucetAbi'
+import { getFaucetAddress } from '@/lib/config/chain/addresses'
+import { createConfigDrivenPublicClient, getActiveChainConfig } from '@/lib/config/chain/viem-client'
+import { invalidateForFaucetEvents, requestCache } from '@/lib/request-cache'
+import { sendFaucetWrite, simulateFaucetWrite, type FaucetWrite } from '@/lib/faucet-tx'
+import {
+  describeOwnerActionError,
+  formatOwnerEvent,
+  readOwnerConsoleState,
+  type OwnerAction,
+  type OwnerActionContext,
+  type OwnerConsoleState,
+  type OwnerFormValues,
+  type OwnerFunctionName,
+} from '@/lib/owner-actions'
+import type { SafeInfo, SafeProposalTx } from '@/lib/safe-proposals'
+
+export type OwnerActionPhase = 'idle' | 'simulating' | 'simulated' | 'sending' | 'confirmed' | 'queued' | 'failed'
+
+export interface OwnerActionStatus {
+  phase: OwnerActionPhase
+  message?: string
+  hash?: `0x${string}`
+  /** Formatted events from the receipt */
+  events?: string[]
+}
+
+const IDLE: OwnerActionStatus = { phase: 'idle' }
+
+/**
+ * `setCooldown(21600)` style label for a proposal
+ */
+function formatCall(functionName: OwnerFunctionName, args: readonly unknown[]): string {
+  const format = (arg: unknown): string => Array.isArray(arg) ? `[${arg.map(format).join(', ')}]` : String(arg)
+  return `${functionName}(${args.map(format).join(', ')})`
+}
+
+/**
+ * Owner console state + simulate / send for every onlyOwner faucet action
+ * With a Safe owner, calls are simulated from the Safe and proposed (encoded for a batch) instead of sent
+ */
+export function useOwnerConsole(nativeSymbol: string, safe?: SafeInfo) {
+  const { data: walletClient } = useWalletClient()
+  const [state, setState] = useState<OwnerConsoleState | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [statuses, setStatuses] = useState<Partial<Record<OwnerFunctionName, OwnerActionStatus>>>({})
+
+  const setStatus = useCallback((functionName: OwnerFunctionName, status: OwnerActionStatus) =>
+    setStatuses(prev => ({ ...prev, [functionName]: status })), [])
+
+  const getStatus = useCallback((functionName: OwnerFunctionName) => statuses[functionName] ?? IDLE, [statuses])
+  const resetStatus = useCallback((functionName: OwnerFunctionName) => setStatus(functionName, IDLE), [setStatus])
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [faucetAddress, publicClient, { multicall }] = await Promise.all([
+        getFaucetAddress(),
+        createConfigDrivenPublicClient(),
+        getActiveChainConfig(),
+      ])
+      setState(await readOwnerConsoleState(publicClient, faucetAddress as `0x${string}`, multicall))
+    } catch (err) {
+      console.error('❌ Failed to read owner console state:', err)
+      setError(describeOwnerActionError(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Safe mode acts as the Safe (simulation sender, default withdrawal recipient) - no wallet needed
+  const account = safe?.address ?? walletClient?.account.address
+  const context = useMemo<OwnerActionContext | null>(
+    () => state && account ? { state, account, nativeSymbol } : null,
+    [state, account, nativeSymbol]
+  )
+
+  /**
+   * Validate + simulate; with send, also sign, wait for the receipt and decode its events
+   */
+  const run = useCallback(async (action: OwnerAction, values: OwnerFormValues, send: boolean): Promise<boolean> => {
+    const { functionName } = action
+    if (!context) return false
+
+    try {
+      const args = action.parse(values, context)
+      setStatus(functionName, { phase: 'simulating' })
+
+      const [faucetAddress, publicClient, chainConfig] = await Promise.all([
+        getFaucetAddress(),
+        createConfigDrivenPublicClient(),
+        getActiveChainConfig(),
+      ])
+      const faucet = faucetAddress as `0x${string}`
+      const write: FaucetWrite = { faucet, functionName, args, account: context.account }
+
+      if (!send) {
+        await simulateFaucetWrite(publicClient, write)
+        setStatus(functionName, { phase: 'simulated', message: 'Simulation succeeded - the call would not revert' })
+        return true
+      }
+
+      if (safe) throw new Error('The owner is a Safe - add the call to the Safe batch instead')
+      if (!walletClient) throw new Error('Connect the owner wallet first')
+      if (walletClient.chain.id !== chainConfig.chainId) {
+        throw new Error(`Switch your wallet to ${chainConfig.name} first`)
+      }
+
+      setStatus(functionName, { phase: 'sending', message: 'Confirm in your wallet...' })
+      const { hash, events } = await sendFaucetWrite(walletClient, publicClient, write)
+      console.log(`✅ Owner action ${functionName} confirmed:`, hash)
+
+      // Keep cached faucet reads in line with what just changed
+      invalidateForFaucetEvents(chainConfig.chainId, faucet, events)
+      if (action.invalidates) {
+        requestCache.invalidate({ chainId: chainConfig.chainId, contract: faucet, functionNames: action.invalidates })
+      }
+
+      setStatus(functionName, {
+        phase: 'confirmed',
+        hash,
+        events: events.map(formatOwnerEvent),
+        message: events.length === 0 ? 'Confirmed (this function emits no event)' : undefined,
+      })
+      await refresh()
+      return true
+    } catch (err) {
+      console.error(`❌ Owner action ${functionName} failed:`, err)
+      setStatus(functionName, { phase: 'failed', message: describeOwnerActionError(err) })
+      return false
+    }
+  }, [context, safe, walletClient, setStatus, refresh])
+
+  /**
+   * Safe mode: validate, simulate as the Safe and encode the call for the batch
+   */
+  const propose = useCallback(async (action: OwnerAction, values: OwnerFormValues): Promise<SafeProposalTx | null> => {
+    const { functionName } = action
+    if (!safe || !context) return null
+
+    try {
+      const args = action.parse(values, context)
+      setStatus(functionName, { phase: 'simulating' })
+
+      const [faucetAddress, publicClient] = await Promise.all([getFaucetAddress(), createConfigDrivenPublicClient()])
+      const faucet = faucetAddress as `0x${string}`
+      await simulateFaucetWrite(publicClient, { faucet, functionName, args, account: safe.address })
+
+      const proposal: SafeProposalTx = {
+        label: formatCall(functionName, args),
+        to: faucet,
+        value: BigInt(0),
+        data: encodeFunctionData({ abi: faucetAbi, functionName, args }),
+      }
+      setStatus(functionName, { phase: 'queued', message: `${proposal.label} added to the Safe batch` })
+      return proposal
+    } catch (err) {
+      console.error(`❌ Owner action ${functionName} could not be proposed:`, err)
+      setStatus(functionName, { phase: 'failed', message: describeOwnerActionError(err) })
+      return null
+    }
+  }, [context, safe, setStatus])
+
+  const simulate = useCallback((action: OwnerAction, values: OwnerFormValues) => run(action, values, false), [run])
+  const execute = useCallback((action: OwnerAction, values: OwnerFormValues) => run(action, values, true), [run])
+
+  return {
+    state,
+    context,
+    isLoading,
+    error,
+    refresh,
+    getStatus,
+    resetStatus,
+    simulate,
+    execute,
+    propose,
+  }
+}
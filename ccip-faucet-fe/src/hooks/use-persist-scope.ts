@@ -0,0 +1,32 @@
+import { useEffect } from 'react'
+import { useAccount } from 'wagmi'
+import { getActiveChainConfig } from '@/lib/config'
+import { setFaucetStoreScope } from '@/store/faucet-store'
+
+/**
+ * Keep the store's persisted partition in sync with the connected wallet
+ * (chain switches re-scope from ConfigLoader.setActiveChain)
+ */
+export function usePersistScope() {
+  const { address, status } = useAccount()
+
+  useEffect(() => {
+    // Wait for wagmi to restore the session so we don't hydrate the anonymous partition first
+    if (status === 'reconnecting' || status === 'connecting') return
+
+    let cancelled = false
+    const syncScope = async () => {
+      try {
+        const { chainId } = await getActiveChainConfig()
+        if (!cancelled) {
+          await setFaucetStoreScope({ chainId, address: address ?? null })
+        }
+      } catch (error) {
+        console.error('❌ Failed to set persisted store scope:', error)
+      }
+    }
+
+    syncScope()
+    return () => { cancelled = true }
+  }, [address, status])
+}
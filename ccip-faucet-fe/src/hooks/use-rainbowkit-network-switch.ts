@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { useAccount, useChainId, useWalletClient, useSwitchChain } from 'wagmi'
 import { getActiveChain } from '@/lib/config'
 import { configLoader } from '@/lib/config'
+import { CHAIN_REGISTRY_UPDATED } from '@/lib/chain-registry'
 
 interface NetworkSwitchState {
   isWrongNetwork: boolean
@@ -83,13 +84,16 @@ export function useRainbowKitNetworkSwitch() {
     loadActiveChain()
   }, [])
 
-  // Load supported chain IDs
+  // Load supported chain IDs (again when the chain registry changes)
   useEffect(() => {
     const loadSupportedChains = async () => {
       const chainIds = await getSupportedChainIds()
       setSupportedChainIds(chainIds)
     }
     loadSupportedChains()
+
+    window.addEventListener(CHAIN_REGISTRY_UPDATED, loadSupportedChains)
+    return () => window.removeEventListener(CHAIN_REGISTRY_UPDATED, loadSupportedChains)
   }, [])
 
   // Listen for chain changes directly from window.ethereum
@@ -1,5 +1,6 @@
 import { useChainId, useWalletClient } from 'wagmi'
 import { configLoader } from '@/lib/config'
+import { CHAIN_REGISTRY_UPDATED } from '@/lib/chain-registry'
 import { useState, useEffect } from 'react'
 
 /**
@@ -42,12 +43,15 @@ export function useRequireActiveChain() {
       }, 100)
     }
     
-    if (typeof window !== 'undefined' && (window as any).ethereum) {
-      (window as any).ethereum.on('chainChanged', handleChainChange)
-      
-      return () => {
-        (window as any).ethereum?.removeListener('chainChanged', handleChainChange)
-      }
+    // NEW: Chains added to / removed from the registry at runtime
+    window.addEventListener(CHAIN_REGISTRY_UPDATED, loadSupportedChains)
+    
+    const ethereum = (window as any).ethereum
+    ethereum?.on('chainChanged', handleChainChange)
+    
+    return () => {
+      window.removeEventListener(CHAIN_REGISTRY_UPDATED, loadSupportedChains)
+      ethereum?.removeListener('chainChanged', handleChainChange)
     }
   }, [])
 
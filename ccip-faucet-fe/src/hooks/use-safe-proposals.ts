@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react'
+import { createConfigDrivenPublicClient, getActiveChainConfig } from '@/lib/config/chain/viem-client'
+import { copyToClipboard } from '@/lib/utils'
+import {
+  buildSafeTransactionBatch,
+  clearExecutedProposals,
+  loadTrackedProposals,
+  refreshTrackedProposals,
+  toRawTransactions,
+  trackProposals,
+  type SafeInfo,
+  type SafeProposalTx,
+  type TrackedSafeProposal,
+} from '@/lib/safe-proposals'
+
+export type SafeExportFormat = 'safe' | 'raw'
+
+// Pending proposals are re-checked at this interval
+const POLL_INTERVAL_MS = 30 * 1000
+
+function downloadJson(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Batch of owner calls for a Safe owner + tracking of exported calls until the Safe executes them
+ */
+export function useSafeProposals(safe?: SafeInfo) {
+  const [batch, setBatch] = useState<SafeProposalTx[]>([])
+  const [tracked, setTracked] = useState<TrackedSafeProposal[]>([])
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const safeAddress = safe?.address
+
+  const refresh = useCallback(async () => {
+    if (!safeAddress) return
+    setIsRefreshing(true)
+    setError(null)
+    try {
+      const [publicClient, { chainId }] = await Promise.all([createConfigDrivenPublicClient(), getActiveChainConfig()])
+      setTracked(loadTrackedProposals(chainId, safeAddress))
+      setTracked(await refreshTrackedProposals(publicClient, chainId, safeAddress))
+    } catch (err) {
+      console.error('❌ Failed to check Safe executions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to check Safe executions')
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [safeAddress])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const pendingCount = tracked.filter(entry => !entry.executedTxHash).length
+
+  useEffect(() => {
+    if (pendingCount === 0) return
+    const interval = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [pendingCount, refresh])
+
+  /**
+   * Download the Transaction Builder file ('safe') or copy the raw tuples ('raw'), then track the calls
+   */
+  const exportBatch = async (format: SafeExportFormat): Promise<boolean> => {
+    if (!safeAddress || batch.length === 0) return false
+    setError(null)
+    try {
+      const [publicClient, { chainId }] = await Promise.all([createConfigDrivenPublicClient(), getActiveChainConfig()])
+
+      if (format === 'safe') {
+        const file = buildSafeTransactionBatch(chainId, safeAddress, batch)
+        downloadJson(`faucet-owner-batch-${chainId}-${file.createdAt}.json`, JSON.stringify(file, null, 2))
+      } else if (!await copyToClipboard(JSON.stringify(toRawTransactions(batch), null, 2))) {
+        throw new Error('Could not copy to the clipboard')
+      }
+
+      // Executions are searched from the current block on
+      const fromBlock = await publicClient.getBlockNumber()
+      setTracked(trackProposals(chainId, safeAddress, batch, fromBlock))
+      setBatch([])
+      console.log(`📤 Exported ${batch.length} owner call(s) for Safe ${safeAddress}`)
+      return true
+    } catch (err) {
+      console.error('❌ Failed to export Safe batch:', err)
+      setError(err instanceof Error ? err.message : 'Failed to export Safe batch')
+      return false
+    }
+  }
+
+  const clearExecuted = async () => {
+    if (!safeAddress) return
+    const { chainId } = await getActiveChainConfig()
+    setTracked(clearExecutedProposals(chainId, safeAddress))
+  }
+
+  return {
+    batch,
+    tracked,
+    pendingCount,
+    isRefreshing,
+    error,
+    refresh,
+    add: (tx: SafeProposalTx) => setBatch(prev => [...prev, tx]),
+    remove: (index: number) => setBatch(prev => prev.filter((_, i) => i !== index)),
+    clearBatch: () => setBatch([]),
+    exportBatch,
+    clearExecuted,
+  }
+}
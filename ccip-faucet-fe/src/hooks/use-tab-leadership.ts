@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react'
+import { tabCoordinator } from '@/lib/tab-coordinator'
+
+/**
+ * Whether this tab currently owns the CCIP monitor and polling (re-renders on hand-over)
+ */
+export function useTabLeadership(): boolean {
+  return useSyncExternalStore(
+    (onChange) => tabCoordinator.onLeadershipChange(onChange),
+    () => tabCoordinator.isLeader()
+  )
+}
@@ -3,10 +3,7 @@
 import { useState, useEffect } from "react"
 import { useAccount, useConnect, useDisconnect } from 'wagmi'
 import { WalletState } from '@/lib/types'
-import { formatEther, parseAbi } from 'viem'
-import { createConfigDrivenPublicClient, getAddresses } from '@/lib/config'
-import { cachedContractRead } from '@/lib/request-cache'
-import { configService } from '@/lib/config'
+import { useWalletBalances } from '@/store/faucet-store'
 
 export function useWallet() {
   const { address, isConnected } = useAccount()
@@ -21,84 +18,17 @@ export function useWallet() {
     linkBalance: 0,
   })
 
-  // 🆕 Track chain changes for balance refresh
-  const [chainName, setChainName] = useState<string>('')
+  // Balances are polled by the background worker (per chain + wallet scope) and read from the store
+  const walletBalances = useWalletBalances()
 
-  // Load current chain name and listen for changes
   useEffect(() => {
-    const loadChainName = async () => {
-      try {
-        const config = await configService.getActiveChainConfig()
-        setChainName(config?.name || '')
-        console.log('👛 useWallet: Chain loaded:', config?.name)
-      } catch (error) {
-        console.warn('👛 useWallet: Failed to load chain name:', error)
-      }
-    }
-    loadChainName()
-
-    // REMOVED: Chain change listener - now handled centrally by setActiveChain()
-    // Chain name updates are handled by the consolidated pipeline
-  }, [])
-
-  // Fetch real balances from blockchain
-  useEffect(() => {
-    const fetchBalances = async () => {
-      if (!address || !isConnected) {
-        setWallet(prev => ({
-          ...prev,
-          nativeBalance: 0,
-          linkBalance: 0,
-        }))
-        return
-      }
-
-      try {
-        const addresses = await getAddresses()
-        const publicClient = await createConfigDrivenPublicClient()
-
-        // Use cached contract reads for user balances
-        const [nativeBalanceRaw, linkBalanceRaw] = await Promise.all([
-          cachedContractRead(
-            'userNativeBalance',
-            () => publicClient.getBalance({ address }),
-            [address],
-            30 * 1000 // 30 seconds cache for user balances
-          ),
-          addresses.ACTIVE_CHAIN_LINK_TOKEN ? cachedContractRead(
-            'userLinkBalance',
-            () => publicClient.readContract({
-              address: addresses.ACTIVE_CHAIN_LINK_TOKEN as `0x${string}`,
-              abi: parseAbi(['function balanceOf(address) view returns (uint256)']),
-              functionName: 'balanceOf',
-              args: [address],
-            }) as Promise<bigint>,
-            [address],
-            30 * 1000 // 30 seconds cache for user balances
-          ) : Promise.resolve(0n)
-        ])
-
-        setWallet(prev => ({
-          ...prev,
-          nativeBalance: Number(formatEther(nativeBalanceRaw)),
-          linkBalance: Number(formatEther(linkBalanceRaw)),
-        }))
-      } catch (error) {
-        console.error('Failed to fetch wallet balances:', error)
-        setWallet(prev => ({
-          ...prev,
-          nativeBalance: 0,
-          linkBalance: 0,
-        }))
-      }
-    }
-
-    fetchBalances()
-
-    // Refresh balances every 60 seconds
-    const interval = setInterval(fetchBalances, 60000)
-    return () => clearInterval(interval)
-  }, [address, isConnected, chainName]) // 🆕 Re-fetch when chain changes
+    const isCurrentWallet = !!address && walletBalances.address?.toLowerCase() === address.toLowerCase()
+    setWallet(prev => ({
+      ...prev,
+      nativeBalance: isConnected && isCurrentWallet ? walletBalances.native : 0,
+      linkBalance: isConnected && isCurrentWallet ? walletBalances.link : 0,
+    }))
+  }, [address, isConnected, walletBalances])
 
   const connectWallet = async () => {
     try {
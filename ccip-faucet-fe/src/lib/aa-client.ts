@@ -1,48 +1,142 @@
 import { createSmartAccountClient } from 'permissionless'
 import { createPimlicoClient } from 'permissionless/clients/pimlico'
 import { toSimpleSmartAccount } from 'permissionless/accounts'
-import { createPublicClient, http } from 'viem'
+import { createPublicClient, encodeFunctionData, http, parseAbi, zeroAddress, type Address, type Hex, type WalletClient } from 'viem'
 // CONSOLIDATED: Use main config system instead of legacy chain-config
-import { getActiveChain, getChainConstants } from '@/lib/config'
+import { getAccountAbstractionIssues, getActiveChain, getChainConstants } from '@/lib/config'
+import { createRpcPoolTransport } from '@/lib/rpc-pool'
+import { faucetAbi } from '@/lib/faucetAbi'
 
 // CONSOLIDATION: Pimlico client is now created dynamically per chain
 // This enables multi-chain gas-free transactions
 
-// Factory that returns a ready SmartAccountClient for a connected wallet
-export async function getSmartAccountClient(walletClient: any /* wagmi WalletClient */) {
-  // CONSOLIDATION: Get both chain and AA config from consolidated system
+// NEW: Single AA module - the legacy ethers AccountAbstractionService (mock addresses, fixed gas numbers) is gone.
+// Address prediction, gas estimation, sponsorship and sending all go through the same SimpleAccount setup.
+
+// permissionless' SimpleAccountFactory for EntryPoint v0.7 - used when a chain config leaves factoryAddress at zero
+const DEFAULT_SIMPLE_ACCOUNT_FACTORY: Address = '0x91E60e0613810449d098b0b5Ec8b51A0FE8c8985'
+
+// Salt of the owner's smart account (permissionless' default index)
+const ACCOUNT_INDEX = BigInt(0)
+
+// Fixed gas fields for the policy check - pm_validateSponsorshipPolicies only evaluates the policy rules,
+// so the op is never estimated by the bundler (a fresh, unfunded smart account fails that estimate)
+const POLICY_CHECK_GAS = {
+  callGasLimit: BigInt(200000),
+  verificationGasLimit: BigInt(500000),
+  preVerificationGas: BigInt(100000),
+}
+
+const simpleAccountFactoryAbi = parseAbi([
+  'function getAddress(address owner, uint256 salt) view returns (address)',
+])
+
+/**
+ * Counterfactual smart account of an owner (deployed by the first UserOperation)
+ */
+export interface SmartAccountInfo {
+  owner: Address
+  address: Address
+  factory: Address
+  isDeployed: boolean
+}
+
+/**
+ * eth_estimateUserOperationGas result + what the paymaster covers
+ */
+export interface GasFreeEstimate {
+  callGasLimit: bigint
+  verificationGasLimit: bigint
+  preVerificationGas: bigint
+  paymasterVerificationGasLimit: bigint
+  paymasterPostOpGasLimit: bigint
+  maxFeePerGas: bigint
+  /** Worst-case cost at maxFeePerGas, paid by the paymaster */
+  sponsoredCost: bigint
+  /** Paymaster that agreed to sponsor (undefined: not sponsored) */
+  paymaster?: Address
+}
+
+export interface GasFreeClaimResult {
+  userOpHash: Hex
+  txHash: Hex
+  smartAccount: Address
+}
+
+async function getAAContext() {
   const activeChain = await getActiveChain()
   const { AA_CONFIG } = await getChainConstants()
-  
-  console.log('🔧 AA Client: Using consolidated config for', activeChain.name)
-  console.log('   📍 Bundler URL:', AA_CONFIG.bundlerUrl)
-  console.log('   📍 Entry Point:', AA_CONFIG.entryPointAddress)
-  console.log('   📍 Factory:', AA_CONFIG.factoryAddress)
-  
-  // CONSOLIDATION: Create chain-specific Pimlico client using config
-  const pimlicoClient = createPimlicoClient({
-    transport: http(AA_CONFIG.bundlerUrl),
-    entryPoint: {
-      address: AA_CONFIG.entryPointAddress as `0x${string}`,
-      version: '0.7',
-    },
-  })
-  
+  // Unset bundler / paymaster env vars turn gas-free mode off (the config still loads)
+  const aaIssues = getAccountAbstractionIssues({ accountAbstraction: AA_CONFIG })
+  if (aaIssues.length > 0) {
+    throw new Error(`Gas-free claims are disabled: ${aaIssues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`)
+  }
+  const entryPoint = { address: AA_CONFIG.entryPointAddress as Address, version: '0.7' as const }
+  const factory = AA_CONFIG.factoryAddress && AA_CONFIG.factoryAddress !== zeroAddress
+    ? AA_CONFIG.factoryAddress as Address
+    : DEFAULT_SIMPLE_ACCOUNT_FACTORY
+
   // Create config-driven public client
   const publicClient = createPublicClient({
     chain: activeChain,
-    transport: http(activeChain.rpcUrls.default.http[0]),
+    transport: createRpcPoolTransport(activeChain.id, activeChain.rpcUrls.default.http),
+  })
+
+  return { activeChain, AA_CONFIG, entryPoint, factory, publicClient }
+}
+
+/**
+ * Predict the owner's smart account from the factory's getAddress - no wallet or signature needed
+ */
+export async function getSmartAccountInfo(owner: Address): Promise<SmartAccountInfo> {
+  const { publicClient, factory } = await getAAContext()
+
+  const address = await publicClient.readContract({
+    address: factory,
+    abi: simpleAccountFactoryAbi,
+    functionName: 'getAddress',
+    args: [owner, ACCOUNT_INDEX],
+  })
+  const code = await publicClient.getCode({ address })
+
+  return { owner, address, factory, isDeployed: !!code && code !== '0x' }
+}
+
+/**
+ * Pimlico client + SimpleAccount for a connected wallet (shared by the sponsored client and eligibility checks)
+ */
+async function createSmartAccount(walletClient: WalletClient) {
+  const context = await getAAContext()
+  const { AA_CONFIG, entryPoint, factory, publicClient } = context
+
+  // CONSOLIDATION: Create chain-specific Pimlico client using config
+  const pimlicoClient = createPimlicoClient({
+    transport: http(AA_CONFIG.paymasterUrl || AA_CONFIG.bundlerUrl),
+    entryPoint,
   })
 
   const account = await toSimpleSmartAccount({
     client: publicClient,
-    owner: walletClient,
-    entryPoint: { 
-      address: AA_CONFIG.entryPointAddress as `0x${string}`, 
-      version: '0.7' 
-    },
+    owner: walletClient as Parameters<typeof toSimpleSmartAccount>[0]['owner'],
+    entryPoint,
+    // NEW: same factory / salt as getSmartAccountInfo, so predicted and used addresses match
+    factoryAddress: factory,
+    index: ACCOUNT_INDEX,
   })
 
+  return { ...context, pimlicoClient, account }
+}
+
+// Factory that returns a ready SmartAccountClient for a connected wallet
+export async function getSmartAccountClient(walletClient: WalletClient) {
+  // CONSOLIDATION: Get both chain and AA config from consolidated system
+  const { activeChain, AA_CONFIG, factory, pimlicoClient, account } = await createSmartAccount(walletClient)
+
+  console.log('🔧 AA Client: Using consolidated config for', activeChain.name)
+  console.log('   📍 Bundler URL:', AA_CONFIG.bundlerUrl)
+  console.log('   📍 Entry Point:', AA_CONFIG.entryPointAddress)
+  console.log('   📍 Factory:', factory)
+
   return createSmartAccountClient({
     account,
     chain: activeChain,
@@ -56,4 +150,175 @@ export async function getSmartAccountClient(walletClient: any /* wagmi WalletCli
       estimateFeesPerGas: async () => (await pimlicoClient.getUserOperationGasPrice()).fast,
     },
   })
-} 
\ No newline at end of file
+}
+
+export type SmartAccountClient = Awaited<ReturnType<typeof getSmartAccountClient>>
+
+function claimCall(faucet: Address, recipient: Address) {
+  return {
+    to: faucet,
+    value: BigInt(0),
+    data: encodeFunctionData({ abi: faucetAbi, functionName: 'requestNativeTokensTo', args: [recipient] }),
+  }
+}
+
+/**
+ * Estimate (eth_estimateUserOperationGas) and sponsor a claim without signing it -
+ * a paymaster policy rejection surfaces here, before the wallet is asked for anything
+ */
+export async function estimateGasFreeClaim(
+  client: SmartAccountClient,
+  faucet: Address,
+  recipient: Address
+): Promise<GasFreeEstimate> {
+  const userOp = await client.prepareUserOperation({ calls: [claimCall(faucet, recipient)] })
+
+  const paymasterVerificationGasLimit = userOp.paymasterVerificationGasLimit ?? BigInt(0)
+  const paymasterPostOpGasLimit = userOp.paymasterPostOpGasLimit ?? BigInt(0)
+  const totalGas = userOp.callGasLimit + userOp.verificationGasLimit + userOp.preVerificationGas +
+    paymasterVerificationGasLimit + paymasterPostOpGasLimit
+
+  return {
+    callGasLimit: userOp.callGasLimit,
+    verificationGasLimit: userOp.verificationGasLimit,
+    preVerificationGas: userOp.preVerificationGas,
+    paymasterVerificationGasLimit,
+    paymasterPostOpGasLimit,
+    maxFeePerGas: userOp.maxFeePerGas,
+    sponsoredCost: totalGas * userOp.maxFeePerGas,
+    paymaster: userOp.paymaster,
+  }
+}
+
+/**
+ * Sign + send the sponsored claim, then wait for the bundler to include it
+ */
+export async function sendGasFreeClaim(
+  client: SmartAccountClient,
+  faucet: Address,
+  recipient: Address
+): Promise<GasFreeClaimResult> {
+  const userOpHash = await client.sendUserOperation({ calls: [claimCall(faucet, recipient)] })
+  console.log('📨 UserOperation sent:', userOpHash)
+
+  const { receipt, success, reason } = await client.waitForUserOperationReceipt({ hash: userOpHash })
+  if (!success) {
+    throw new Error(reason ? `UserOperation reverted: ${reason}` : `UserOperation ${userOpHash} reverted`)
+  }
+
+  return { userOpHash, txHash: receipt.transactionHash, smartAccount: client.account.address }
+}
+
+// -------------------------------------------------------------------------
+// Sponsorship eligibility
+// -------------------------------------------------------------------------
+
+export type SponsorshipCheck = 'first-claim' | 'zero-balance' | 'reservoir' | 'policy'
+
+/**
+ * Whether a gas-free claim would be sponsored, known before anything is signed
+ */
+export interface SponsorshipEligibility {
+  eligible: boolean
+  /** Failed checks with user-facing reasons (empty when eligible) */
+  reasons: { check: SponsorshipCheck; message: string }[]
+  /** pm_validateSponsorshipPolicies result - null when no policy is configured or the on-chain rules already failed */
+  policy: SponsorshipPolicyResult | null
+}
+
+/**
+ * 'unchecked': the paymaster could not be asked - the claim is not offered rather than assumed sponsored
+ */
+export interface SponsorshipPolicyResult {
+  status: 'sponsored' | 'rejected' | 'unchecked'
+  name?: string
+}
+
+/**
+ * Off-chain mirror of Faucet._isValidFirstTimeClaim (used by validatePaymasterUserOp):
+ * the recipient never claimed native, holds no native balance, and the reservoir covers one drip
+ */
+async function checkFirstTimeClaim(faucet: Address, recipient: Address, symbol: string) {
+  const { publicClient } = await getAAContext()
+  const [lastClaim, balance, [pool, dripRate]] = await Promise.all([
+    publicClient.readContract({ address: faucet, abi: faucetAbi, functionName: 'lastClaimNative', args: [recipient] }),
+    publicClient.getBalance({ address: recipient }),
+    publicClient.readContract({ address: faucet, abi: faucetAbi, functionName: 'getReservoirStatus' }),
+  ])
+
+  const reasons: SponsorshipEligibility['reasons'] = []
+  if (lastClaim !== BigInt(0)) {
+    reasons.push({ check: 'first-claim', message: `Gas-free claims are for a first ${symbol} claim only - this address has claimed before` })
+  }
+  if (balance !== BigInt(0)) {
+    reasons.push({ check: 'zero-balance', message: `This address already holds ${symbol} - claim with a regular transaction instead` })
+  }
+  if (pool < dripRate) {
+    reasons.push({ check: 'reservoir', message: 'The reservoir cannot cover a drip right now - wait for a refill' })
+  }
+  return reasons
+}
+
+/**
+ * Ask the paymaster whether the configured sponsorship policy would cover the claim.
+ * The UserOperation is prepared without paymaster data and with fixed gas fields (nothing is signed,
+ * estimated or sponsored yet).
+ */
+async function checkSponsorshipPolicy(
+  walletClient: WalletClient,
+  faucet: Address,
+  recipient: Address
+): Promise<SponsorshipPolicyResult | null> {
+  const policyId = import.meta.env.VITE_POLICY_ID as string | undefined
+  if (!policyId) return null
+
+  try {
+    const { activeChain, AA_CONFIG, pimlicoClient, account } = await createSmartAccount(walletClient)
+    const unsponsoredClient = createSmartAccountClient({
+      account,
+      chain: activeChain,
+      bundlerTransport: http(AA_CONFIG.bundlerUrl),
+      userOperation: {
+        estimateFeesPerGas: async () => (await pimlicoClient.getUserOperationGasPrice()).fast,
+      },
+    })
+    const userOperation = await unsponsoredClient.prepareUserOperation({
+      calls: [claimCall(faucet, recipient)],
+      ...POLICY_CHECK_GAS,
+      parameters: ['factory', 'fees', 'nonce', 'signature'],
+    })
+
+    const policies = await pimlicoClient.validateSponsorshipPolicies({
+      userOperation,
+      sponsorshipPolicyIds: [policyId],
+    })
+    const match = policies.find(policy => policy.sponsorshipPolicyId === policyId)
+    return { status: match ? 'sponsored' : 'rejected', name: match?.data.name ?? undefined }
+  } catch (error) {
+    console.warn('⚠️ Could not validate the sponsorship policy:', error)
+    return { status: 'unchecked' }
+  }
+}
+
+/**
+ * Sponsorship eligibility for a gas-free claim: the faucet's on-chain first-claim rules plus the paymaster policy
+ */
+export async function checkSponsorshipEligibility(
+  walletClient: WalletClient,
+  faucet: Address,
+  recipient: Address,
+  nativeSymbol: string
+): Promise<SponsorshipEligibility> {
+  const reasons = await checkFirstTimeClaim(faucet, recipient, nativeSymbol)
+
+  // The policy can only be asked about a claim the faucet would accept
+  const policy = reasons.length === 0 ? await checkSponsorshipPolicy(walletClient, faucet, recipient) : null
+  if (policy?.status === 'rejected') {
+    reasons.push({ check: 'policy', message: 'The paymaster\'s sponsorship policy does not cover this claim' })
+  } else if (policy?.status === 'unchecked') {
+    reasons.push({ check: 'policy', message: 'The sponsorship policy could not be checked - try again in a moment' })
+  }
+
+  console.log('🎟️ Sponsorship eligibility:', { recipient, eligible: reasons.length === 0, reasons, policy })
+  return { eligible: reasons.length === 0, reasons, policy }
+}
@@ -1,4 +1,5 @@
 import type { ChainConfig, DerivedConfig } from './types/config'
+import { getAccountAbstractionIssues } from './config/core/schema'
 
 /**
  * Auto-derivation utilities for theme, UI text, and asset paths
@@ -30,6 +31,9 @@ export const autoDerivation = {
       nativeName: chainConfig.name,
       pageTitle: `${chainConfig.name} Faucet - KEEP CALM AND BUILD ${chainConfig.ticker} & LINK`,
       
+      // Features
+      gasFreeEnabled: getAccountAbstractionIssues(chainConfig).length === 0,
+      
       // Fallbacks
       fallbackIcon: '/tokens/mon.png', // Use MON as fallback
     }
@@ -0,0 +1,119 @@
+// Hot-reloadable chain registry
+// - Re-fetches chains.json on window focus (throttled) and on a slow interval
+// - A changed registry rebuilds the wagmi config with the new chain list (the wallet connection carries over),
+//   drops the public clients of edited chains and re-applies the active chain when its files changed
+// - The UI's chain lists follow through the CHAIN_REGISTRY_UPDATED window event
+
+import { configLoader, HELPER_CHAIN_PREFIX, type ChainRegistryChange } from '@/lib/config'
+
+/**
+ * Window event fired after a registry change was applied (detail: ChainRegistryChange)
+ */
+export const CHAIN_REGISTRY_UPDATED = 'chain-registry-updated'
+
+// Focus refreshes closer together than this are skipped
+const FOCUS_REFRESH_MIN_INTERVAL = 30 * 1000
+// Background check for tabs that stay in focus
+const REGISTRY_POLL_INTERVAL = 5 * 60 * 1000
+
+export class ChainRegistrySync {
+  private static instance: ChainRegistrySync
+  private lastRefresh = Date.now()
+  private inFlight: Promise<ChainRegistryChange | null> | null = null
+  private stopListening: (() => void) | null = null
+
+  private constructor() {}
+
+  static getInstance(): ChainRegistrySync {
+    if (!ChainRegistrySync.instance) {
+      ChainRegistrySync.instance = new ChainRegistrySync()
+    }
+    return ChainRegistrySync.instance
+  }
+
+  /**
+   * Refresh on focus / visibility and on an interval (idempotent)
+   */
+  start(): void {
+    if (this.stopListening || typeof window === 'undefined') return
+
+    const onFocus = () => {
+      if (document.visibilityState !== 'visible') return
+      if (Date.now() - this.lastRefresh < FOCUS_REFRESH_MIN_INTERVAL) return
+      void this.refresh()
+    }
+    const interval = setInterval(() => void this.refresh(), REGISTRY_POLL_INTERVAL)
+
+    window.addEventListener('focus', onFocus)
+    document.addEventListener('visibilitychange', onFocus)
+    this.stopListening = () => {
+      clearInterval(interval)
+      window.removeEventListener('focus', onFocus)
+      document.removeEventListener('visibilitychange', onFocus)
+    }
+
+    console.log('📋 Chain registry sync started')
+  }
+
+  stop(): void {
+    this.stopListening?.()
+    this.stopListening = null
+  }
+
+  /**
+   * Fetch the registry now and apply any change (concurrent calls share one fetch)
+   */
+  refresh(): Promise<ChainRegistryChange | null> {
+    if (!this.inFlight) {
+      this.lastRefresh = Date.now()
+      this.inFlight = this.runRefresh().finally(() => {
+        this.inFlight = null
+      })
+    }
+    return this.inFlight
+  }
+
+  private async runRefresh(): Promise<ChainRegistryChange | null> {
+    try {
+      const change = await configLoader.refreshRegistry()
+      if (change) await this.apply(change)
+      return change
+    } catch (error) {
+      console.warn('⚠️ Chain registry refresh failed (keeping current chains):', error)
+      return null
+    }
+  }
+
+  private async apply(change: ChainRegistryChange): Promise<void> {
+    // 1. Public clients of edited chains (RPC pools are keyed by endpoint list, so new URLs get a fresh pool)
+    const { PublicClientService } = await import('./public-client')
+    for (const name of change.updated) {
+      const config = name.startsWith(HELPER_CHAIN_PREFIX)
+        ? await configLoader.loadHelperChainConfig(name.slice(HELPER_CHAIN_PREFIX.length))
+        : await configLoader.loadChainConfig(name)
+      PublicClientService.getInstance().clearChainCache(config.chainId)
+    }
+
+    // 2. Wallet chains - same list builder as startup, rebuilt into a new wagmi config (Providers swaps it in on step 4's event)
+    const [{ getConfigDrivenChains }, { registerWagmiChains }] = await Promise.all([
+      import('./config/chain/wagmi-client'),
+      import('./wagmi'),
+    ])
+    registerWagmiChains(await getConfigDrivenChains())
+
+    // 3. Active chain (or its helper) edited → same path as a chain switch (addresses, caches, theme)
+    const activeChainName = configLoader.getActiveChainName()
+    if (activeChainName && !change.removed.includes(activeChainName)) {
+      const { ccip } = await configLoader.loadChainConfig(activeChainName)
+      if (change.updated.includes(activeChainName) || change.updated.includes(`${HELPER_CHAIN_PREFIX}${ccip.helperChain}`)) {
+        await configLoader.setActiveChain(activeChainName)
+      }
+    }
+
+    // 4. Chain lists in the UI (header, network modal, supported-chain checks)
+    window.dispatchEvent(new CustomEvent<ChainRegistryChange>(CHAIN_REGISTRY_UPDATED, { detail: change }))
+    console.log('✅ Chain registry change applied:', change)
+  }
+}
+
+export const chainRegistrySync = ChainRegistrySync.getInstance()
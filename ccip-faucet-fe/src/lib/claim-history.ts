@@ -0,0 +1,269 @@
+// Personal claim history built from faucet Drip events across every supported chain
+// Results are cached in localStorage per wallet so the panel renders instantly on the next visit
+
+import { formatEther, isAddressEqual, zeroAddress, type Address } from 'viem'
+import { configLoader } from '@/lib/config/core/loader'
+import { getChainPublicClient } from '@/lib/public-client'
+import { scanLogs } from '@/lib/log-scanner'
+import { getFaucetEvent } from '@/lib/contract-events'
+
+export type ClaimToken = 'active' | 'link'
+
+export interface ClaimRecord {
+  chainName: string
+  chainId: number
+  token: ClaimToken
+  symbol: string
+  amount: string // wei, stringified for JSON storage
+  blockNumber: string
+  txHash: `0x${string}`
+  logIndex: number
+  timestamp: number // unix seconds
+}
+
+export interface ClaimTotal {
+  symbol: string
+  amount: bigint
+  count: number
+}
+
+interface BlockRange {
+  fromBlock: string
+  toBlock: string
+}
+
+interface ChainHistoryEntry {
+  chainId: number
+  /** Newest block covered - the next refresh starts above it */
+  lastScannedBlock: string
+  /** Older ranges not scanned yet, newest first */
+  backfill: BlockRange[]
+  claims: ClaimRecord[]
+}
+
+interface ClaimHistoryCache {
+  version: number
+  chains: Record<string, ChainHistoryEntry>
+}
+
+export interface ClaimHistoryResult {
+  claims: ClaimRecord[]
+  /** Chains whose scan failed this round (cached claims for them are still returned) */
+  failedChains: string[]
+}
+
+// v3: histories are scanned newest first and backfilled, entries carry their unscanned ranges
+const CACHE_VERSION = 3
+const STORAGE_PREFIX = 'claim-history:'
+
+// History reaches back to contracts.faucetDeploymentBlock, or this far behind the head of the first
+// scan when the config has none
+const CLAIM_HISTORY_LOOKBACK = 50000n
+// getLogs budget per chain and refresh - new blocks are scanned first, the rest goes to the backfill
+const CLAIM_HISTORY_MAX_CHUNKS = 50
+
+function getStorageKey(user: Address): string {
+  return `${STORAGE_PREFIX}${user.toLowerCase()}`
+}
+
+/**
+ * Read the cached history for a wallet (no network calls)
+ */
+export function loadCachedClaimHistory(user: Address): ClaimHistoryCache {
+  try {
+    const raw = localStorage.getItem(getStorageKey(user))
+    if (raw) {
+      const parsed = JSON.parse(raw) as ClaimHistoryCache
+      if (parsed.version === CACHE_VERSION && parsed.chains) {
+        return parsed
+      }
+      console.log('🧹 Claim history cache version changed, rebuilding')
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to read claim history cache:', error)
+  }
+  return { version: CACHE_VERSION, chains: {} }
+}
+
+function saveClaimHistory(user: Address, cache: ClaimHistoryCache): void {
+  try {
+    localStorage.setItem(getStorageKey(user), JSON.stringify(cache))
+  } catch (error) {
+    console.warn('⚠️ Failed to persist claim history:', error)
+  }
+}
+
+/**
+ * Forget a wallet's cached history (next fetch rescans from scratch)
+ */
+export function clearClaimHistoryCache(user: Address): void {
+  try {
+    localStorage.removeItem(getStorageKey(user))
+  } catch {
+    // Storage unavailable - nothing to clear
+  }
+}
+
+/**
+ * Flatten cached chain entries into a newest-first claim list
+ */
+export function getCachedClaims(user: Address): ClaimRecord[] {
+  return sortClaims(Object.values(loadCachedClaimHistory(user).chains).flatMap(entry => entry.claims))
+}
+
+/**
+ * Scan every chain in chains.json for the wallet's Drip events and merge them into the cache
+ */
+export async function fetchClaimHistory(user: Address): Promise<ClaimHistoryResult> {
+  const { supportedChains } = await configLoader.loadChainsConfig()
+  const cache = loadCachedClaimHistory(user)
+
+  const results = await Promise.allSettled(
+    supportedChains.map(chainName => scanChainClaims(user, chainName, cache.chains[chainName]))
+  )
+
+  const failedChains: string[] = []
+  results.forEach((result, index) => {
+    const chainName = supportedChains[index]
+    if (result.status === 'fulfilled') {
+      if (result.value) cache.chains[chainName] = result.value
+    } else {
+      console.warn(`⚠️ Claim history scan failed for ${chainName}:`, result.reason)
+      failedChains.push(chainName)
+    }
+  })
+
+  saveClaimHistory(user, cache)
+
+  return {
+    claims: sortClaims(Object.values(cache.chains).flatMap(entry => entry.claims)),
+    failedChains,
+  }
+}
+
+/**
+ * Sum claimed amounts per token symbol
+ */
+export function getClaimTotals(claims: ClaimRecord[]): ClaimTotal[] {
+  const totals = new Map<string, ClaimTotal>()
+  for (const claim of claims) {
+    const total = totals.get(claim.symbol) ?? { symbol: claim.symbol, amount: 0n, count: 0 }
+    total.amount += BigInt(claim.amount)
+    total.count++
+    totals.set(claim.symbol, total)
+  }
+  return [...totals.values()]
+}
+
+/**
+ * Human-readable claim amount
+ */
+export function formatClaimAmount(claim: Pick<ClaimRecord, 'amount'>): number {
+  return Number(formatEther(BigInt(claim.amount)))
+}
+
+async function scanChainClaims(
+  user: Address,
+  chainName: string,
+  previous: ChainHistoryEntry | undefined
+): Promise<ChainHistoryEntry | null> {
+  const config = await configLoader.loadChainConfig(chainName)
+  const faucetAddress = config.contracts.faucet as Address
+
+  // Chains without a deployed faucet have nothing to scan
+  if (!faucetAddress || isAddressEqual(faucetAddress, zeroAddress)) {
+    return null
+  }
+
+  const client = await getChainPublicClient(chainName)
+  const head = await client.getBlockNumber()
+  const cached = previous && previous.chainId === config.chainId ? previous : undefined
+
+  const deploymentBlock = config.contracts.faucetDeploymentBlock
+  const startBlock = deploymentBlock !== undefined
+    ? BigInt(deploymentBlock)
+    : head > CLAIM_HISTORY_LOOKBACK ? head - CLAIM_HISTORY_LOOKBACK : 0n
+
+  // Blocks since the last refresh come first, so a drip made just now shows up on this refresh
+  const ranges = [
+    { fromBlock: cached ? BigInt(cached.lastScannedBlock) + 1n : startBlock, toBlock: head },
+    ...(cached?.backfill ?? []).map(range => ({ fromBlock: BigInt(range.fromBlock), toBlock: BigInt(range.toBlock) })),
+  ].filter(range => range.fromBlock <= range.toBlock)
+
+  const logs = []
+  const backfill: BlockRange[] = []
+  let chunksLeft = CLAIM_HISTORY_MAX_CHUNKS
+  for (const range of ranges) {
+    if (chunksLeft === 0) {
+      backfill.push({ fromBlock: range.fromBlock.toString(), toBlock: range.toBlock.toString() })
+      continue
+    }
+
+    const scan = await scanLogs({
+      client,
+      address: faucetAddress,
+      event: getFaucetEvent('Drip'),
+      args: { user },
+      fromBlock: range.fromBlock,
+      toBlock: range.toBlock,
+      maxChunks: chunksLeft,
+      newestFirst: true,
+    })
+    logs.push(...scan.logs)
+    chunksLeft -= scan.chunks
+
+    // Whatever this scan did not reach stays queued for the next refresh
+    if (!scan.complete) {
+      backfill.push({ fromBlock: range.fromBlock.toString(), toBlock: (scan.firstScannedBlock - 1n).toString() })
+    }
+  }
+
+  // One getBlock per distinct block for timestamps
+  const blockNumbers = [...new Set(logs.map(log => log.blockNumber))]
+  const timestamps = new Map<bigint, number>()
+  await Promise.all(blockNumbers.map(async blockNumber => {
+    const block = await client.getBlock({ blockNumber })
+    timestamps.set(blockNumber, Number(block.timestamp))
+  }))
+
+  const newClaims: ClaimRecord[] = logs.map(log => {
+    // Native drips are emitted with token = address(0)
+    const token: ClaimToken = isAddressEqual(log.args.token!, zeroAddress) ? 'active' : 'link'
+    return {
+      chainName,
+      chainId: config.chainId,
+      token,
+      symbol: token === 'active' ? config.ticker : 'LINK',
+      amount: log.args.amount!.toString(),
+      blockNumber: log.blockNumber.toString(),
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+    }
+  })
+
+  if (newClaims.length > 0) {
+    console.log(`💧 Found ${newClaims.length} new claims on ${chainName}`)
+  }
+
+  const lastScannedBlock = cached && BigInt(cached.lastScannedBlock) > head ? BigInt(cached.lastScannedBlock) : head
+
+  return {
+    chainId: config.chainId,
+    lastScannedBlock: lastScannedBlock.toString(),
+    backfill,
+    claims: dedupeClaims([...(cached?.claims ?? []), ...newClaims]),
+  }
+}
+
+function dedupeClaims(claims: ClaimRecord[]): ClaimRecord[] {
+  const seen = new Map<string, ClaimRecord>()
+  for (const claim of claims) {
+    seen.set(`${claim.txHash}:${claim.logIndex}`, claim)
+  }
+  return [...seen.values()]
+}
+
+function sortClaims(claims: ClaimRecord[]): ClaimRecord[] {
+  return [...claims].sort((a, b) => b.timestamp - a.timestamp)
+}
@@ -1,5 +1,6 @@
-import { defineChain, createPublicClient, http, type Transport } from 'viem'
+import { defineChain, createPublicClient, type Transport } from 'viem'
 import { configLoader } from '../core/loader'
+import { createRpcPoolTransport, maskRpcUrl, normalizeRpcUrls } from '../../rpc-pool'
 import type { ChainConfig, HelperChainConfig } from '../core/types'
 
 /**
@@ -42,10 +43,11 @@ export async function getHelperChainConfig(): Promise<HelperChainConfig> {
  * Create a Viem chain definition from configuration
  */
 export function createChainFromConfig(config: ChainConfig | HelperChainConfig) {
+  const rpcUrls = normalizeRpcUrls(config.rpcUrl)
   console.log('🔧 Creating chain from config:', {
     id: config.chainId,
     name: config.name,
-    rpcUrl: config.rpcUrl
+    rpcEndpoints: rpcUrls.length
   })
   
   const chain = defineChain({
@@ -58,8 +60,8 @@ export function createChainFromConfig(config: ChainConfig | HelperChainConfig) {
       decimals: 18,
     },
     rpcUrls: {
-      default: { http: [config.rpcUrl] },
-      public: { http: [config.rpcUrl] },
+      default: { http: rpcUrls },
+      public: { http: rpcUrls },
     },
     blockExplorers: {
       default: { 
@@ -70,7 +72,7 @@ export function createChainFromConfig(config: ChainConfig | HelperChainConfig) {
     testnet: true,
   })
   
-  console.log('✅ Chain created with RPC URL:', chain.rpcUrls.default.http[0])
+  console.log('✅ Chain created with RPC URL:', maskRpcUrl(chain.rpcUrls.default.http[0]))
   return chain
 }
 
@@ -90,25 +92,33 @@ export async function getHelperChain() {
   return createChainFromConfig(config)
 }
 
+/**
+ * Pooled transport for a chain config - routes to its healthiest RPC endpoint with failover
+ */
+export function createChainTransport(config: ChainConfig | HelperChainConfig): Transport {
+  return createRpcPoolTransport(config.chainId, config.rpcUrl)
+}
+
 /**
  * Create a config-driven public client
  */
 export async function createConfigDrivenPublicClient() {
   console.log('🔧 Creating config-driven public client...')
   
-  const activeChain = await getActiveChain()
+  const config = await getActiveChainConfig()
+  const activeChain = createChainFromConfig(config)
   console.log('⛓️ Active chain loaded:', {
     id: activeChain.id,
     name: activeChain.name,
-    rpcUrl: activeChain.rpcUrls.default.http[0]
+    rpcEndpoints: activeChain.rpcUrls.default.http.length
   })
   
   const client = createPublicClient({
     chain: activeChain,
-    transport: http(activeChain.rpcUrls.default.http[0] as string) as Transport,
+    transport: createChainTransport(config),
   })
   
-  console.log('✅ Public client created with RPC URL:', activeChain.rpcUrls.default.http[0])
+  console.log(`✅ Public client created over ${activeChain.rpcUrls.default.http.length} RPC endpoint(s)`)
   return client
 }
 
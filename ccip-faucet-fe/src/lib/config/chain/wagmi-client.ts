@@ -2,6 +2,7 @@ import { createConfig, http } from 'wagmi'
 import { coinbaseWallet, injected, walletConnect } from 'wagmi/connectors'
 import { configLoader } from '../core/loader'
 import { getActiveChain } from './viem-client'
+import { createRpcPoolTransport, normalizeRpcUrls } from '../../rpc-pool'
 
 /**
  * Wagmi-specific configuration loader
@@ -26,6 +27,7 @@ export async function getConfigDrivenChains() {
     for (const chainName of supportedChainNames) {
       try {
         const chainConfig = await configLoader.loadChainConfig(chainName)
+        const rpcUrls = normalizeRpcUrls(chainConfig.rpcUrl)
         
         // Create Wagmi-compatible chain definition
         const wagmiChain = {
@@ -38,8 +40,8 @@ export async function getConfigDrivenChains() {
             decimals: 18 
           },
           rpcUrls: { 
-            default: { http: [chainConfig.rpcUrl] }, 
-            public: { http: [chainConfig.rpcUrl] } 
+            default: { http: rpcUrls }, 
+            public: { http: rpcUrls } 
           },
           blockExplorers: { 
             default: { 
@@ -82,8 +84,9 @@ export async function createConfigDrivenWagmiConfig() {
       }),
       walletConnect({ projectId }),
     ],
+    // NEW: Reads share the app's RPC pools (health-scored failover across each chain's endpoints)
     transports: Object.fromEntries(
-      chains.map((c) => [c.id, http()])
+      chains.map((c) => [c.id, createRpcPoolTransport(c.id, c.rpcUrls.default.http)])
     ),
   })
 }
@@ -4,6 +4,7 @@
 
 export * from './types'
 export * from './loader'
+export * from './schema'
 
 // Re-export the singleton instance for convenience
 export { configLoader } from './loader' 
\ No newline at end of file
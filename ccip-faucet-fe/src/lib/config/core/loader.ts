@@ -1,11 +1,17 @@
-import type { ChainConfig, HelperChainConfig } from './types'
+import type { AppConfig, ChainConfig, ChainRegistryChange, HelperChainConfig } from './types'
+import { ConfigValidationError, getAccountAbstractionIssues, validateChainConfig, validateHelperChainConfig } from './schema'
+
+// Prefix of helper chain names returned by mapChainIdToName (configs under chains/helpers/)
+export const HELPER_CHAIN_PREFIX = 'helpers/'
 
 /**
  * Configuration Loader - Loads and resolves chain configurations
  */
 export class ConfigLoader {
   private static instance: ConfigLoader
-  private chainsConfig: { supportedChains: string[] } | null = null
+  private chainsConfig: AppConfig | null = null
+  // Registry refreshRegistry() diffs against - clearCache() (chain switches) leaves it alone
+  private appliedRegistry: AppConfig | null = null
   private chainConfigs: Map<string, ChainConfig> = new Map()
   private helperChainConfigs: Map<string, HelperChainConfig> = new Map()
   private selectedChainName: string | null = null
@@ -65,37 +71,67 @@ export class ConfigLoader {
   }
 
   /**
-   * Load the main chains configuration
+   * Parse a config file response, reporting malformed JSON like any other config error
    */
-  async loadChainsConfig(): Promise<{ supportedChains: string[] }> {
-    if (this.chainsConfig) {
-      return this.chainsConfig
+  private async parseConfigResponse(response: Response, file: string): Promise<unknown> {
+    const text = await response.text()
+    try {
+      return JSON.parse(text)
+    } catch (error) {
+      throw new ConfigValidationError(file, [{
+        path: '(file)',
+        message: `is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+      }])
     }
+  }
 
+  /**
+   * Fetch chains.json (the chain registry) from the server, bypassing the HTTP cache
+   */
+  private async fetchChainsConfig(): Promise<AppConfig> {
+    // Add timeout to prevent hanging
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 10000) // 10 second timeout
+    
     try {
-      console.log('📋 Loading chains config...')
-      console.log('🔍 Looking for config at: /configs/chains.json')
-      
-      // Add timeout to prevent hanging
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 10000) // 10 second timeout
-      
       const response = await fetch('/configs/chains.json', {
         signal: controller.signal,
+        cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache', // Prevent caching issues
         }
       })
       
-      clearTimeout(timeoutId)
-      
       if (!response.ok) {
         throw new Error(`Failed to load chains.json: ${response.status} ${response.statusText}`)
       }
       
-      this.chainsConfig = await response.json()
+      const config = await this.parseConfigResponse(response, 'chains.json') as AppConfig
+      if (!Array.isArray(config?.supportedChains)) {
+        throw new ConfigValidationError('chains.json', [{ path: 'supportedChains', message: 'must be a list of chain names' }])
+      }
+      return config
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  /**
+   * Load the main chains configuration
+   */
+  async loadChainsConfig(): Promise<AppConfig> {
+    if (this.chainsConfig) {
+      return this.chainsConfig
+    }
+
+    try {
+      console.log('📋 Loading chains config...')
+      console.log('🔍 Looking for config at: /configs/chains.json')
+      
+      this.chainsConfig = await this.fetchChainsConfig()
+      this.appliedRegistry ??= this.chainsConfig
       console.log('✅ Loaded chains config:', this.chainsConfig)
-      return this.chainsConfig!
+      return this.chainsConfig
     } catch (error) {
       console.error('❌ Failed to load chains config:', error)
       if (error instanceof Error && error.name === 'AbortError') {
@@ -105,6 +141,58 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * NEW: Fetch the registry again and report what changed (null when nothing did)
+   * A new or removed chain name is picked up on every refresh; edited chain files are only re-read
+   * when chains.json's `version` changed, so a refresh stays one request in the common case.
+   * A chain file that became invalid keeps serving its last good config.
+   */
+  async refreshRegistry(): Promise<ChainRegistryChange | null> {
+    const previous = this.appliedRegistry
+    const next = await this.fetchChainsConfig()
+    this.chainsConfig = next
+    this.appliedRegistry = next
+    if (!previous) return null
+
+    const added = next.supportedChains.filter(name => !previous.supportedChains.includes(name))
+    const removed = previous.supportedChains.filter(name => !next.supportedChains.includes(name))
+    removed.forEach(name => this.chainConfigs.delete(name))
+
+    const updated: string[] = []
+    if (next.version !== previous.version) {
+      console.log(`📋 Chain registry version ${previous.version ?? '(none)'} → ${next.version ?? '(none)'} - re-reading cached chain files`)
+      for (const [name, cached] of [...this.chainConfigs]) {
+        this.chainConfigs.delete(name)
+        try {
+          const fresh = await this.loadChainConfig(name)
+          if (JSON.stringify(fresh) !== JSON.stringify(cached)) updated.push(name)
+        } catch (error) {
+          console.warn(`⚠️ Keeping previous config for ${name}:`, error)
+          this.chainConfigs.set(name, cached)
+        }
+      }
+      for (const [name, cached] of [...this.helperChainConfigs]) {
+        this.helperChainConfigs.delete(name)
+        try {
+          const fresh = await this.loadHelperChainConfig(name)
+          if (JSON.stringify(fresh) !== JSON.stringify(cached)) updated.push(`${HELPER_CHAIN_PREFIX}${name}`)
+        } catch (error) {
+          console.warn(`⚠️ Keeping previous helper config for ${name}:`, error)
+          this.helperChainConfigs.set(name, cached)
+        }
+      }
+    }
+
+    if (added.length === 0 && removed.length === 0 && updated.length === 0 && next.version === previous.version) {
+      return null
+    }
+    if (this.selectedChainName && removed.includes(this.selectedChainName)) {
+      console.warn(`⚠️ Active chain ${this.selectedChainName} was removed from the registry - it stays active until the next switch`)
+    }
+    console.log('📋 Chain registry changed:', { version: next.version, added, removed, updated })
+    return { version: next.version, added, removed, updated }
+  }
+
   /**
    * Load a specific chain configuration
    */
@@ -134,11 +222,19 @@ export class ConfigLoader {
         throw new Error(`Failed to load chain config for ${chainName}: ${response.status} ${response.statusText}`)
       }
       
-      const rawConfig = await response.json()
+      const file = `chains/${chainName}.json`
+      const rawConfig = await this.parseConfigResponse(response, file)
       console.log(`📄 Raw config for ${chainName}:`, rawConfig)
       
-      const resolvedConfig = this.resolveObjectEnvVars(rawConfig) as ChainConfig
+      // NEW: Fail here with file + field path instead of deep inside a contract call
+      const resolvedConfig = validateChainConfig(this.resolveObjectEnvVars(rawConfig), file)
       console.log(`🔧 Resolved config for ${chainName}:`, resolvedConfig)
+
+      // FIX: Unset AA env vars only turn off gas-free claims - the rest of the app keeps working
+      const aaIssues = getAccountAbstractionIssues(resolvedConfig)
+      if (aaIssues.length > 0) {
+        console.warn(`⚠️ ${file}: gas-free claims disabled -`, aaIssues.map(issue => `${issue.path} ${issue.message}`).join('; '))
+      }
       
       this.chainConfigs.set(chainName, resolvedConfig)
       console.log(`✅ Loaded chain config for ${chainName}:`, resolvedConfig)
@@ -165,8 +261,9 @@ export class ConfigLoader {
       if (!response.ok) {
         throw new Error(`Failed to load helper chain config for ${helperChainName}: ${response.status}`)
       }
-      const rawConfig = await response.json()
-      const resolvedConfig = this.resolveObjectEnvVars(rawConfig) as HelperChainConfig
+      const file = `chains/helpers/${helperChainName}.json`
+      const rawConfig = await this.parseConfigResponse(response, file)
+      const resolvedConfig = validateHelperChainConfig(this.resolveObjectEnvVars(rawConfig), file)
       
       this.helperChainConfigs.set(helperChainName, resolvedConfig)
       console.log(`🔗 Loaded helper chain config for ${helperChainName}:`, resolvedConfig)
@@ -281,16 +378,15 @@ export class ConfigLoader {
       this.clearCache()
       
       // Clear other service caches synchronously to avoid race conditions
+      // NOTE: Public clients are kept - they live per chain ID, not per active chain
       const [
         { clearChainConfigCache },
         { clearAddressesCache },
-        { PublicClientService },
         { invalidateAllFaucetCache },
         { clearFaucetClientCache }
       ] = await Promise.all([
         import('./../../config/chain/viem-client'),
         import('./../../config/chain/addresses'),
-        import('./../../public-client'),
         import('./../../request-cache'),
         import('./../../faucetClient')
       ])
@@ -298,19 +394,26 @@ export class ConfigLoader {
       // Execute all cache clears
       clearChainConfigCache()
       clearAddressesCache()
-      PublicClientService.getInstance().clearCache()
       invalidateAllFaucetCache() // 🆕 Clear RPC cache too!
       clearFaucetClientCache() // 🆕 Clear cached faucet address too!
       
       // 🎯 SIMPLE: Clear cooldowns on chain switch + reload addresses
       try {
-        const { useFaucetStore } = await import('../../../store/faucet-store')
+        const { useFaucetStore, setFaucetStoreScope } = await import('../../../store/faucet-store')
         const store = useFaucetStore.getState()
         
-        // Clear cooldowns for fresh start on new chain
-        store.updateTokenState('active', { dripCooldownTime: 0, requestCooldownTime: 0 })
-        store.updateTokenState('link', { dripCooldownTime: 0, requestCooldownTime: 0 })
-        console.log('🔄 Cooldowns cleared for chain switch')
+        // NEW: Load the new chain's persisted partition (same wallet) before touching its state
+        const { chainId } = await this.loadChainConfig(chainName)
+        const { getPersistScope } = await import('../../../store/persistence')
+        const currentScope = getPersistScope()
+        if (currentScope) {
+          await setFaucetStoreScope({ chainId, address: currentScope.address })
+        }
+        
+        // Restore the new chain's own cooldowns
+        // (zeroed when nothing is recorded yet - the snapshot refresh fills them from lastClaim)
+        store.applyChainCooldowns(chainId)
+        console.log(`🔄 Cooldowns restored for chain switch to ${chainName}`)
         
         // Clear addresses and reload for new chain
         store.clearAddresses()
@@ -386,10 +489,12 @@ export class ConfigLoader {
 
   /**
    * Map chainId to chainName for dynamic switching
+   * With includeHelpers, helper configs (chains/helpers/) are searched too and returned as `helpers/<name>`
    */
-  async mapChainIdToName(chainId: number): Promise<string | null> {
+  async mapChainIdToName(chainId: number, options: { includeHelpers?: boolean } = {}): Promise<string | null> {
     try {
       const chainsConfig = await this.loadChainsConfig()
+      const helperChainNames = new Set<string>()
       
       // Load all supported chains and find matching chainId
       for (const chainName of chainsConfig.supportedChains) {
@@ -398,10 +503,25 @@ export class ConfigLoader {
           if (config.chainId === chainId) {
             return chainName
           }
+          if (config.ccip?.helperChain) helperChainNames.add(config.ccip.helperChain)
         } catch (error) {
           console.warn(`Failed to load config for ${chainName}:`, error)
         }
       }
+
+      // NEW: Helper chains are only known through the supported chains that use them
+      if (options.includeHelpers) {
+        for (const helperChainName of helperChainNames) {
+          try {
+            const config = await this.loadHelperChainConfig(helperChainName)
+            if (config.chainId === chainId) {
+              return `${HELPER_CHAIN_PREFIX}${helperChainName}`
+            }
+          } catch (error) {
+            console.warn(`Failed to load helper config for ${helperChainName}:`, error)
+          }
+        }
+      }
       
       console.warn(`No chain config found for chainId: ${chainId}`)
       return null
@@ -411,6 +531,19 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * Load the config of any configured chain (supported or helper) by chain ID
+   */
+  async loadChainConfigById(chainId: number): Promise<ChainConfig | HelperChainConfig> {
+    const chainName = await this.mapChainIdToName(chainId, { includeHelpers: true })
+    if (!chainName) {
+      throw new Error(`Unsupported chain ID: ${chainId} (no config in chains/ or chains/helpers/)`)
+    }
+    return chainName.startsWith(HELPER_CHAIN_PREFIX)
+      ? this.loadHelperChainConfig(chainName.slice(HELPER_CHAIN_PREFIX.length))
+      : this.loadChainConfig(chainName)
+  }
+
   /**
    * Get the current active chain configuration
    * Uses selected chain or falls back to first supported chain
@@ -0,0 +1,173 @@
+/**
+ * Chain config schemas - validated at load time, after ${ENV} resolution
+ * Failures name the file, the field path and the reason (ConfigValidationError)
+ * NOTE: No import.meta.env here - the config lint script reuses these schemas under Node
+ */
+
+import { z } from 'zod'
+import type { ChainConfig, HelperChainConfig } from './types'
+
+// A `${VAR}` left in a resolved value means its env var was not set
+const UNRESOLVED_ENV = /\$\{([^}]+)\}/
+const MAX_UINT64 = 18446744073709551615n
+
+export interface ConfigIssue {
+  /** Field path, e.g. `common.chainSelector` or `rpcUrl[1]` */
+  path: string
+  message: string
+}
+
+export class ConfigValidationError extends Error {
+  readonly file: string
+  readonly issues: ConfigIssue[]
+
+  constructor(file: string, issues: ConfigIssue[]) {
+    super(`Invalid config ${file}: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`)
+    this.name = 'ConfigValidationError'
+    this.file = file
+    this.issues = issues
+  }
+}
+
+function unresolvedEnvMessage(varName: string): string {
+  return `unresolved env var \${${varName}} (set VITE_${varName})`
+}
+
+const resolvedString = z.string().min(1, 'must not be empty').superRefine((value, ctx) => {
+  const match = value.match(UNRESOLVED_ENV)
+  if (match) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `has ${unresolvedEnvMessage(match[1])}` })
+})
+
+const url = resolvedString.pipe(z.string().url('must be a valid URL'))
+
+// AA endpoints may keep an unset placeholder - that only disables gas-free claims (see getAccountAbstractionIssues)
+const aaUrl = z.string().min(1, 'must not be empty')
+  .refine(value => UNRESOLVED_ENV.test(value) || z.string().url().safeParse(value).success, 'must be a valid URL')
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be a 0x-prefixed 20-byte address')
+
+const chainSelector = z.string()
+  .regex(/^\d+$/, 'must be a decimal string (CCIP chain selector)')
+  // Refinements run even when the regex failed - only range-check decimal strings
+  .refine(value => !/^\d+$/.test(value) || (BigInt(value) > 0n && BigInt(value) <= MAX_UINT64), 'must be a non-zero uint64')
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'must be a #rrggbb color')
+
+// One endpoint or a pool - entries with unset env vars are skipped (lib/rpc-pool.ts), so only
+// a list without a single usable endpoint is an error
+const rpcUrl = z.union([z.string(), z.array(z.string()).nonempty('must list at least one endpoint')], {
+  errorMap: (_issue, ctx) => ({ message: ctx.data === undefined ? 'is required' : 'must be a URL or a list of URLs' }),
+})
+  .superRefine((value, ctx) => {
+    const entries = typeof value === 'string' ? [value] : value
+    const resolved = entries.filter(entry => !UNRESOLVED_ENV.test(entry))
+
+    if (resolved.length === 0) {
+      const varName = entries[0]?.match(UNRESOLVED_ENV)?.[1] ?? 'RPC_URL'
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `has no usable endpoint - ${unresolvedEnvMessage(varName)}` })
+      return
+    }
+    entries.forEach((entry, index) => {
+      if (UNRESOLVED_ENV.test(entry) || z.string().url().safeParse(entry).success) return
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: typeof value === 'string' ? [] : [index],
+        message: 'must be a valid URL',
+      })
+    })
+  })
+
+const common = z.object({
+  linkToken: address,
+  ccipRouter: address,
+  chainSelector,
+}).passthrough()
+
+const chainBase = {
+  chainId: z.number().int().positive(),
+  name: resolvedString,
+  rpcUrl,
+  explorerUrl: url,
+  themeColor: hexColor,
+  common,
+}
+
+export const chainConfigSchema = z.object({
+  ...chainBase,
+  ticker: resolvedString,
+  gradientIntensity: z.number().min(0.1).max(0.9).optional(),
+  contracts: z.object({ faucet: address, faucetDeploymentBlock: z.number().int().nonnegative().optional() }).passthrough(),
+  multicall: z.object({
+    enabled: z.boolean().optional(),
+    address: address.optional(),
+    fallback: z.enum(['parallel', 'sequential']).optional(),
+  }).optional(),
+  ccip: z.object({
+    helperChain: z.string().regex(/^[a-z0-9-]+$/, 'must name a helper config (chains/helpers/<name>.json)'),
+  }).passthrough(),
+  accountAbstraction: z.object({
+    networkName: resolvedString,
+    entryPointAddress: address,
+    factoryAddress: address,
+    bundlerUrl: aaUrl,
+    paymasterUrl: aaUrl,
+  }).passthrough(),
+}).passthrough()
+
+export const helperChainConfigSchema = z.object({
+  ...chainBase,
+  contracts: z.object({ helper: address }).passthrough(),
+}).passthrough()
+
+function formatPath(path: (string | number)[]): string {
+  if (path.length === 0) return '(root)'
+  return path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment, '')
+}
+
+function toIssues(error: z.ZodError): ConfigIssue[] {
+  return error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined'
+      ? 'is required'
+      : issue.message,
+  }))
+}
+
+/**
+ * Unset env vars left in the bundler / paymaster URLs - gas-free claims are disabled while there are any
+ */
+export function getAccountAbstractionIssues(config: { accountAbstraction?: { bundlerUrl?: unknown; paymasterUrl?: unknown } }): ConfigIssue[] {
+  return (['bundlerUrl', 'paymasterUrl'] as const).flatMap(field => {
+    const value = config.accountAbstraction?.[field]
+    const match = typeof value === 'string' ? value.match(UNRESOLVED_ENV) : null
+    return match ? [{ path: `accountAbstraction.${field}`, message: `has ${unresolvedEnvMessage(match[1])}` }] : []
+  })
+}
+
+export interface ChainConfigValidationOptions {
+  /** Treat unresolved AA URLs as errors (config:lint) instead of a disabled gas-free mode (app) */
+  requireAccountAbstraction?: boolean
+}
+
+/**
+ * Validate a resolved chain config (`file` is only used in the error)
+ */
+export function validateChainConfig(config: unknown, file: string, options: ChainConfigValidationOptions = {}): ChainConfig {
+  const result = chainConfigSchema.safeParse(config)
+  const issues = result.success ? [] : toIssues(result.error)
+  if (options.requireAccountAbstraction && config && typeof config === 'object') {
+    issues.push(...getAccountAbstractionIssues(config))
+  }
+  if (!result.success || issues.length > 0) throw new ConfigValidationError(file, issues)
+  return result.data as ChainConfig
+}
+
+/**
+ * Validate a resolved helper chain config (`file` is only used in the error)
+ */
+export function validateHelperChainConfig(config: unknown, file: string): HelperChainConfig {
+  const result = helperChainConfigSchema.safeParse(config)
+  if (!result.success) throw new ConfigValidationError(file, toIssues(result.error))
+  return result.data as HelperChainConfig
+}
@@ -3,6 +3,7 @@
  */
 
 import { configLoader } from './loader'
+import { normalizeRpcUrls } from '../../rpc-pool'
 
 export async function testCoreConfig() {
   console.log('🧪 Testing core configuration loading...')
@@ -17,7 +18,7 @@ export async function testCoreConfig() {
     console.log('✅ Active chain config loaded:', {
       name: activeChain.name,
       chainId: activeChain.chainId,
-      rpcUrl: activeChain.rpcUrl.substring(0, 30) + '...'
+      rpcUrl: normalizeRpcUrls(activeChain.rpcUrl)[0]?.substring(0, 30) + '...'
     })
     
     // Test loading helper chain config
@@ -25,7 +26,7 @@ export async function testCoreConfig() {
     console.log('✅ Helper chain config loaded:', {
       name: helperChain.name,
       chainId: helperChain.chainId,
-      rpcUrl: helperChain.rpcUrl.substring(0, 30) + '...'
+      rpcUrl: normalizeRpcUrls(helperChain.rpcUrl)[0]?.substring(0, 30) + '...'
     })
     
     return {
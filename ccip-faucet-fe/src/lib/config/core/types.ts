@@ -2,11 +2,13 @@
  * Core Configuration Types for Multi-Chain Faucet
  */
 
+import type { MulticallSettings } from '../../multicall'
+
 export interface ChainConfig {
   chainId: number
   name: string
   ticker: string
-  rpcUrl: string
+  rpcUrl: string | string[] // One endpoint or a failover pool (see lib/rpc-pool.ts)
   explorerUrl: string
   themeColor: string
   gradientIntensity?: number // Optional: Controls how much theme color vs Chainlink blue (0.1-0.9, default 0.7)
@@ -19,8 +21,12 @@ export interface ChainConfig {
   
   contracts: {
     faucet: string
+    faucetDeploymentBlock?: number // Optional: block the faucet was deployed in - claim history backfills down to it
   }
   
+  // Optional: Multicall3 for batched reads (canonical address, parallel fallback when omitted)
+  multicall?: MulticallSettings
+  
   ccip: {
     helperChain: string
   }
@@ -37,7 +43,7 @@ export interface ChainConfig {
 export interface HelperChainConfig {
   chainId: number
   name: string
-  rpcUrl: string
+  rpcUrl: string | string[] // One endpoint or a failover pool (see lib/rpc-pool.ts)
   explorerUrl: string
   themeColor: string
   
@@ -54,6 +60,19 @@ export interface HelperChainConfig {
 
 export interface AppConfig {
   supportedChains: string[]
+  /** Registry version - bump it when a chain file changes so open tabs pick it up (see refreshRegistry) */
+  version?: string
+}
+
+/**
+ * What a registry refresh found (chain names as in chains.json, helpers as `helpers/<name>`)
+ */
+export interface ChainRegistryChange {
+  version?: string
+  added: string[]
+  removed: string[]
+  /** Cached chain/helper configs whose file content changed */
+  updated: string[]
 }
 
 /**
@@ -75,6 +94,9 @@ export interface DerivedConfig {
   nativeName: string
   pageTitle: string
   
+  // Features
+  gasFreeEnabled: boolean // Bundler + paymaster URLs resolved (no unset env vars)
+  
   // Fallbacks
   fallbackIcon: string
 } 
\ No newline at end of file
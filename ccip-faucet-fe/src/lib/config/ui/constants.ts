@@ -1,4 +1,5 @@
 import { getChainConstants } from '../chain/viem-client'
+import { configLoader } from '../core/loader'
 
 // Vault thresholds
 export const VAULT_THRESHOLDS = {
@@ -163,14 +164,16 @@ export const getExplorerUrl = (chain: 'monad' | 'helper', type: 'address' | 'con
 
 /**
  * Config-driven explorer URL helper
+ * `chain` is 'active', 'helper' or any chain name from chains.json (e.g. 'ethereum-sepolia')
  */
 export async function getConfigExplorerUrl(
-  chain: 'active' | 'helper', 
+  chain: 'active' | 'helper' | (string & {}), 
   type: 'address' | 'contract' | 'tx' | 'block', 
   value: string
 ): Promise<string> {
-  const registry = await getExplorerRegistry()
-  const explorer = registry[chain]
+  const explorer = isRegistryChain(chain)
+    ? (await getExplorerRegistry())[chain]
+    : await getChainExplorer(chain)
   
   switch (type) {
     case 'address':
@@ -186,6 +189,27 @@ export async function getConfigExplorerUrl(
   }
 }
 
+function isRegistryChain(chain: string): chain is 'active' | 'helper' {
+  return chain === 'active' || chain === 'helper'
+}
+
+/**
+ * Explorer entry for a named chain (not necessarily the active one)
+ */
+async function getChainExplorer(chainName: string) {
+  const config = await configLoader.loadChainConfig(chainName)
+  const baseUrl = config.explorerUrl
+
+  return {
+    name: `${config.name} Explorer`,
+    baseUrl,
+    address: (address: string) => `${baseUrl}/address/${address}`,
+    contract: (address: string) => `${baseUrl}/address/${address}?tab=Contract`,
+    tx: (hash: string) => `${baseUrl}/tx/${hash}`,
+    block: (block: string) => `${baseUrl}/block/${block}`,
+  }
+}
+
 // BACKWARD COMPATIBILITY FUNCTION
 // @deprecated Use getExplorerRegistry().ccip.message() instead
 export const getCCIPExplorerUrl = (messageId: string): string => {
@@ -1,5 +1,6 @@
 import { configLoader } from '../core/loader'
 import type { ChainConfig, DerivedConfig } from '../core/types'
+import { getAccountAbstractionIssues } from '../core/schema'
 
 /**
  * Theme Management - Handles theme generation and application
@@ -218,7 +219,10 @@ export class ThemeManager {
       // UI Text
       nativeSymbol: uiText.nativeSymbol,
       nativeName: uiText.nativeName,
-      pageTitle: uiText.pageTitle
+      pageTitle: uiText.pageTitle,
+      
+      // Features
+      gasFreeEnabled: getAccountAbstractionIssues(chainConfig).length === 0
     }
     
     console.log(`🎨 Auto-derived config for ${chainConfig.name}:`, derivedConfig)
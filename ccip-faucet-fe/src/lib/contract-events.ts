@@ -0,0 +1,82 @@
+// Typed event decoding for Faucet and VolatilityHelper logs
+// Consumers switch on `eventName` and get fully typed `args` - no raw topic matching
+
+import { parseEventLogs, type ContractEventName, type Log, type ParseEventLogsReturnType } from 'viem'
+import { faucetAbi } from './faucetAbi'
+import { helperAbi } from './helperAbi'
+
+export type FaucetEventName = ContractEventName<typeof faucetAbi>
+export type HelperEventName = ContractEventName<typeof helperAbi>
+
+/**
+ * Decoded faucet log - discriminated union on `eventName`
+ */
+export type FaucetEvent = ParseEventLogsReturnType<typeof faucetAbi, undefined, true>[number]
+export type FaucetEventOf<TName extends FaucetEventName> = Extract<FaucetEvent, { eventName: TName }>
+
+/**
+ * Decoded helper log - discriminated union on `eventName`
+ */
+export type HelperEvent = ParseEventLogsReturnType<typeof helperAbi, undefined, true>[number]
+export type HelperEventOf<TName extends HelperEventName> = Extract<HelperEvent, { eventName: TName }>
+
+type EventAbiItem<TAbi extends readonly unknown[], TName extends string> = Extract<TAbi[number], { type: 'event'; name: TName }>
+
+/**
+ * Decode faucet logs, dropping logs that are not faucet events
+ * Pass `address` to ignore same-signature events from other contracts (e.g. another faucet deployment)
+ */
+export function decodeFaucetLogs(logs: Log[], address?: string): FaucetEvent[] {
+  return parseEventLogs({ abi: faucetAbi, logs: filterByAddress(logs, address) }) as FaucetEvent[]
+}
+
+/**
+ * Decode a single faucet log (null if it is not a faucet event)
+ */
+export function decodeFaucetLog(log: Log): FaucetEvent | null {
+  return decodeFaucetLogs([log])[0] ?? null
+}
+
+/**
+ * Decode helper logs, dropping logs that are not helper events
+ */
+export function decodeHelperLogs(logs: Log[], address?: string): HelperEvent[] {
+  return parseEventLogs({ abi: helperAbi, logs: filterByAddress(logs, address) }) as HelperEvent[]
+}
+
+/**
+ * Decode a single helper log (null if it is not a helper event)
+ */
+export function decodeHelperLog(log: Log): HelperEvent | null {
+  return decodeHelperLogs([log])[0] ?? null
+}
+
+/**
+ * Narrow decoded events to one event name
+ */
+export function filterEvents<TEvent extends { eventName: string }, TName extends TEvent['eventName']>(
+  events: TEvent[],
+  eventName: TName
+): Extract<TEvent, { eventName: TName }>[] {
+  return events.filter((event): event is Extract<TEvent, { eventName: TName }> => event.eventName === eventName)
+}
+
+/**
+ * Faucet event ABI item, for getLogs / scanLogs filters
+ */
+export function getFaucetEvent<TName extends FaucetEventName>(name: TName): EventAbiItem<typeof faucetAbi, TName> {
+  return faucetAbi.find(item => item.type === 'event' && item.name === name) as EventAbiItem<typeof faucetAbi, TName>
+}
+
+/**
+ * Helper event ABI item, for getLogs / scanLogs filters
+ */
+export function getHelperEvent<TName extends HelperEventName>(name: TName): EventAbiItem<typeof helperAbi, TName> {
+  return helperAbi.find(item => item.type === 'event' && item.name === name) as EventAbiItem<typeof helperAbi, TName>
+}
+
+function filterByAddress(logs: Log[], address?: string): Log[] {
+  if (!address) return logs
+  const target = address.toLowerCase()
+  return logs.filter(log => log.address.toLowerCase() === target)
+}
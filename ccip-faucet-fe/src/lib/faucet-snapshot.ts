@@ -0,0 +1,141 @@
+// Faucet snapshot shape + uncached read
+// NOTE: No '@/' or config imports here - the polling worker imports this module and has no app config
+
+import type { PublicClient } from 'viem'
+import { faucetAbi } from './faucetAbi'
+import { batchRead, type MulticallSettings, type ReadCall, type ReadResult } from './multicall'
+
+export interface FaucetSnapshot {
+  active: { pool: bigint; drip: bigint; baseDrip: bigint; capacity: bigint }  // Generic: was 'mon'
+  link: { pool: bigint; drip: bigint; baseDrip: bigint; capacity: bigint }
+  treasury: { active: bigint; link: bigint }  // Generic: was 'mon'
+  constants: { cooldown: number; thresholdFactor: number }
+  lastClaim?: { active: bigint; link: bigint }  // Generic: was 'mon'
+}
+
+/**
+ * One read that feeds the snapshot
+ */
+export interface SnapshotCall {
+  /** Function name - also the request-cache key */
+  key: string
+  call: ReadCall
+  /** Cache TTL for the cached read path */
+  ttl: number
+  /** Value used when the call fails (old contracts without the function); required calls have none */
+  fallback?: bigint
+}
+
+/**
+ * Every read a snapshot needs, in one list (batched into a single aggregate3 call)
+ */
+export function getSnapshotCalls(faucetAddress: `0x${string}`, user?: `0x${string}`): SnapshotCall[] {
+  const faucetCall = (functionName: string, args?: readonly unknown[]): ReadCall => ({
+    address: faucetAddress,
+    abi: faucetAbi,
+    functionName,
+    args,
+  })
+
+  const calls: SnapshotCall[] = [
+    // Tank data changes more frequently - shorter cache (30s)
+    { key: 'getReservoirStatus', call: faucetCall('getReservoirStatus'), ttl: 30 * 1000 },
+    // Treasury data changes less frequently - longer cache (60s)
+    { key: 'getTreasuryStatus', call: faucetCall('getTreasuryStatus'), ttl: 60 * 1000 },
+    // Constants never change - very long cache (5 minutes)
+    { key: 'COOLDOWN', call: faucetCall('COOLDOWN'), ttl: 5 * 60 * 1000 },
+    { key: 'thresholdFactor', call: faucetCall('thresholdFactor'), ttl: 5 * 60 * 1000 },
+    // Base drip rates never change - very long cache (10 minutes)
+    // GRACEFUL FALLBACK: Old contracts don't have these functions - the call fails alone and reads as 0
+    { key: 'BASENATIVEDRIPRATE', call: faucetCall('BASENATIVEDRIPRATE'), ttl: 10 * 60 * 1000, fallback: 0n },
+    { key: 'BASELINKDRIPRATE', call: faucetCall('BASELINKDRIPRATE'), ttl: 10 * 60 * 1000, fallback: 0n },
+  ]
+
+  // Add user-specific cooldown data if address provided
+  if (user) {
+    calls.push(
+      { key: 'lastClaimNative', call: faucetCall('lastClaimNative', [user]), ttl: 30 * 1000 },
+      { key: 'lastClaimLink', call: faucetCall('lastClaimLink', [user]), ttl: 30 * 1000 },
+    )
+  }
+
+  return calls
+}
+
+/**
+ * Value of one snapshot read - throws for failed required calls
+ */
+export function resolveSnapshotValue(snapshotCall: SnapshotCall, result: ReadResult): unknown {
+  if (result.status === 'success') return result.result
+  if (snapshotCall.fallback !== undefined) return snapshotCall.fallback
+  throw result.error
+}
+
+function expectUint(value: unknown, name: string): bigint {
+  if (typeof value !== 'bigint') {
+    throw new Error(`Unexpected ${name} result: ${String(value)}`)
+  }
+  return value
+}
+
+function expectUintTuple(value: unknown, length: number, name: string): readonly bigint[] {
+  if (!Array.isArray(value) || value.length !== length || !value.every(entry => typeof entry === 'bigint')) {
+    throw new Error(`Unexpected ${name} result: expected ${length} uint256 values`)
+  }
+  return value
+}
+
+/**
+ * Build the snapshot from the values of getSnapshotCalls(), in the same order
+ * Each value is checked against its function's outputs - a wrong shape throws instead of rendering garbage
+ */
+export function composeSnapshot(values: readonly unknown[], user?: `0x${string}`): FaucetSnapshot {
+  const reservoirStatus = expectUintTuple(values[0], 4, 'getReservoirStatus')
+  const treasuryStatus = expectUintTuple(values[1], 6, 'getTreasuryStatus')
+  const cooldown = expectUint(values[2], 'COOLDOWN')
+  const thresholdFactor = expectUint(values[3], 'thresholdFactor')
+  const baseNativeDrip = expectUint(values[4], 'BASENATIVEDRIPRATE')
+  const baseLinkDrip = expectUint(values[5], 'BASELINKDRIPRATE')
+
+  return {
+    active: {
+      pool: reservoirStatus[0],        // ✅ TANK: Dispensable reservoir pool for dripping
+      drip: reservoirStatus[1],
+      baseDrip: baseNativeDrip,
+      capacity: treasuryStatus[4],     // Max reservoir capacity
+    },
+    link: {
+      pool: reservoirStatus[2],        // ✅ TANK: Dispensable reservoir pool for dripping
+      drip: reservoirStatus[3],
+      baseDrip: baseLinkDrip,
+      capacity: treasuryStatus[5],     // Max reservoir capacity
+    },
+    treasury: {
+      active: treasuryStatus[0],       // ✅ VAULT: Treasury balance (total - reservoir)
+      link: treasuryStatus[2],         // ✅ VAULT: Treasury balance (total - reservoir)
+    },
+    constants: {
+      cooldown: Number(cooldown),
+      thresholdFactor: Number(thresholdFactor),
+    },
+    lastClaim: user ? {
+      active: expectUint(values[6], 'lastClaimNative'),
+      link: expectUint(values[7], 'lastClaimLink'),
+    } : undefined,
+  }
+}
+
+/**
+ * Uncached snapshot read against an explicit client + faucet, in one Multicall3 round-trip.
+ * Used for fresh reads on the active chain and for reading other chains (multi-chain dashboard).
+ */
+export async function readFaucetSnapshot(
+  publicClient: PublicClient,
+  faucetAddress: `0x${string}`,
+  user?: `0x${string}`,
+  multicall: MulticallSettings = {}
+): Promise<FaucetSnapshot> {
+  const calls = getSnapshotCalls(faucetAddress, user)
+  const results = await batchRead(publicClient, calls.map(entry => entry.call), multicall)
+  return composeSnapshot(calls.map((entry, index) => resolveSnapshotValue(entry, results[index])), user)
+}
@@ -0,0 +1,272 @@
+// Simulate-before-send pipeline for faucet writes
+// Every write (drips, refill trigger, owner actions, the gas-free claim) is simulated first; a revert is
+// decoded into a FaucetTxError with a user-facing message before the wallet is ever asked to sign.
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type ContractFunctionName,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from 'viem'
+import { faucetAbi } from './faucetAbi'
+import { decodeFaucetLogs, type FaucetEvent } from './contract-events'
+
+/**
+ * Window event fired for failed writes that have no UI of their own (detail: FaucetTxError)
+ */
+export const FAUCET_TX_FAILED = 'faucet-tx-failed'
+
+export type FaucetWriteFunction = ContractFunctionName<typeof faucetAbi, 'nonpayable' | 'payable'>
+
+export type FaucetTxErrorCode =
+  | 'cooldown'
+  | 'reservoir-empty'
+  | 'refill-pending'
+  | 'refill-not-needed'
+  | 'helper-not-set'
+  | 'insufficient-treasury'
+  | 'transfer-failed'
+  | 'invalid-input'
+  | 'not-owner'
+  | 'rejected'
+  | 'insufficient-funds'
+  | 'reverted'
+  | 'unknown'
+
+/**
+ * A write that would revert (or was rejected) - `message` is ready to show as is
+ */
+export class FaucetTxError extends Error {
+  constructor(
+    readonly code: FaucetTxErrorCode,
+    message: string,
+    readonly functionName?: FaucetWriteFunction,
+    readonly cause?: unknown,
+    /** Set when the transaction was mined and reverted (unset: it was never sent) */
+    readonly hash?: Hex
+  ) {
+    super(message)
+    this.name = 'FaucetTxError'
+  }
+}
+
+export interface FaucetWrite {
+  faucet: `0x${string}`
+  functionName: FaucetWriteFunction
+  args?: readonly unknown[]
+  value?: bigint
+  /** Sender the call is simulated from (smart account for gas-free claims) */
+  account: `0x${string}`
+}
+
+export interface FaucetWriteResult {
+  hash: `0x${string}`
+  receipt: TransactionReceipt
+  /** Decoded faucet events from the receipt */
+  events: FaucetEvent[]
+}
+
+// require() reasons in Faucet.sol → code + message (Cooldown gets the remaining time, see explainCooldown)
+const REVERT_REASONS: Record<string, { code: FaucetTxErrorCode; message: string }> = {
+  'Cooldown': { code: 'cooldown', message: 'Cooldown active - you already claimed recently' },
+  'Reservoir empty': { code: 'reservoir-empty', message: 'Reservoir empty - the tank needs a refill before the next claim' },
+  'Refill already pending': { code: 'refill-pending', message: 'Refill already in progress - wait for the pending CCIP request to finish' },
+  'Reservoirs sufficiently full': { code: 'refill-not-needed', message: 'Both tanks are above the refill threshold - no refill needed' },
+  'Helper not set': { code: 'helper-not-set', message: 'No trusted helper registered for the helper chain (owner: addChain)' },
+  'Insufficient treasury balance': { code: 'insufficient-treasury', message: 'Amount exceeds the treasury balance (reservoir funds cannot be withdrawn)' },
+  'Transfer failed': { code: 'transfer-failed', message: 'Token transfer failed - the recipient rejected it or the faucet is short on funds' },
+}
+
+const CUSTOM_ERRORS: Record<string, { code: FaucetTxErrorCode; message: string }> = {
+  OwnableUnauthorizedAccount: { code: 'not-owner', message: 'Only the faucet owner can call this' },
+  InvalidRouter: { code: 'reverted', message: 'Call did not come from the CCIP router' },
+}
+
+function formatRemaining(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds % 60}s`
+}
+
+/**
+ * Reason string / custom error name of a revert, from a simulateContract or call error
+ */
+function extractRevert(error: BaseError): { reason?: string; errorName?: string } | null {
+  const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError)
+  if (reverted instanceof ContractFunctionRevertedError) {
+    return { reason: reverted.reason, errorName: reverted.data?.errorName }
+  }
+
+  // Raw eth_call errors (transaction replays) carry the revert data undecoded
+  const raw = error.walk(cause => typeof (cause as { data?: unknown }).data === 'string') as { data?: Hex } | null
+  if (raw?.data && raw.data !== '0x') {
+    try {
+      // Error(string) / Panic(uint256) are decoded too, beyond the ABI's custom errors
+      const decoded = decodeErrorResult({ abi: faucetAbi, data: raw.data }) as { errorName: string; args?: readonly unknown[] }
+      return decoded.errorName === 'Error'
+        ? { reason: String(decoded.args?.[0]) }
+        : { errorName: decoded.errorName }
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Any simulate / send error → FaucetTxError with a user-facing message
+ */
+export function decodeFaucetTxError(error: unknown, functionName?: FaucetWriteFunction): FaucetTxError {
+  if (error instanceof FaucetTxError) return error
+  if (!(error instanceof BaseError)) {
+    return new FaucetTxError('unknown', error instanceof Error ? error.message : String(error), functionName, error)
+  }
+
+  if (error.walk(cause => cause instanceof UserRejectedRequestError) || error.shortMessage.includes('User rejected')) {
+    return new FaucetTxError('rejected', 'Transaction was canceled by user.', functionName, error)
+  }
+  if (error.walk(cause => cause instanceof InsufficientFundsError)) {
+    return new FaucetTxError('insufficient-funds', 'Not enough native balance to pay for gas', functionName, error)
+  }
+
+  const revert = extractRevert(error)
+  if (revert?.errorName && CUSTOM_ERRORS[revert.errorName]) {
+    const { code, message } = CUSTOM_ERRORS[revert.errorName]
+    return new FaucetTxError(code, message, functionName, error)
+  }
+  if (revert?.reason) {
+    const known = REVERT_REASONS[revert.reason]
+    // Argument checks (zero factor, bad recipient, ...) read fine as they are
+    return known
+      ? new FaucetTxError(known.code, known.message, functionName, error)
+      : new FaucetTxError('invalid-input', revert.reason, functionName, error)
+  }
+  if (revert?.errorName) {
+    return new FaucetTxError('reverted', `Reverted: ${revert.errorName}`, functionName, error)
+  }
+  return new FaucetTxError('unknown', error.shortMessage, functionName, error)
+}
+
+/**
+ * Cooldown reverts don't say how long is left - read lastClaim + COOLDOWN for the claimant
+ */
+async function explainCooldown(client: PublicClient, write: FaucetWrite, error: FaucetTxError): Promise<FaucetTxError> {
+  const claimant = write.functionName === 'requestNativeTokensTo'
+    ? write.args?.[0] as `0x${string}`
+    : write.account
+  const lastClaimFunction = write.functionName === 'requestLinkTokens' ? 'lastClaimLink' : 'lastClaimNative'
+
+  try {
+    const [lastClaim, cooldown, block] = await Promise.all([
+      client.readContract({ address: write.faucet, abi: faucetAbi, functionName: lastClaimFunction, args: [claimant] }),
+      client.readContract({ address: write.faucet, abi: faucetAbi, functionName: 'COOLDOWN' }),
+      client.getBlock(),
+    ])
+    const remaining = Number(lastClaim + cooldown - block.timestamp)
+    if (remaining <= 0) return error
+    return new FaucetTxError('cooldown', `Cooldown active for ${formatRemaining(remaining)}`, write.functionName, error.cause)
+  } catch {
+    return error
+  }
+}
+
+/**
+ * Simulate a faucet write; throws FaucetTxError when it would revert
+ */
+export async function simulateFaucetWrite(client: PublicClient, write: FaucetWrite) {
+  try {
+    const { request } = await client.simulateContract({
+      address: write.faucet,
+      abi: faucetAbi,
+      functionName: write.functionName,
+      args: write.args as never,
+      value: write.value as never,
+      account: write.account,
+    })
+    return request
+  } catch (error) {
+    const decoded = decodeFaucetTxError(error, write.functionName)
+    console.warn(`⚠️ Simulation of ${write.functionName} failed: ${decoded.message}`)
+    throw decoded.code === 'cooldown' ? await explainCooldown(client, write, decoded) : decoded
+  }
+}
+
+/**
+ * Simulate, then sign - returns the hash without waiting (for callers that track the transaction themselves)
+ */
+export async function submitFaucetWrite(
+  walletClient: WalletClient,
+  client: PublicClient,
+  write: FaucetWrite
+): Promise<`0x${string}`> {
+  const request = await simulateFaucetWrite(client, write)
+
+  try {
+    return await walletClient.writeContract(request as Parameters<WalletClient['writeContract']>[0])
+  } catch (error) {
+    throw decodeFaucetTxError(error, write.functionName)
+  }
+}
+
+/**
+ * Simulate, then sign and wait for the receipt (decoded events included)
+ */
+export async function sendFaucetWrite(
+  walletClient: WalletClient,
+  client: PublicClient,
+  write: FaucetWrite
+): Promise<FaucetWriteResult> {
+  const hash = await submitFaucetWrite(walletClient, client, write)
+
+  try {
+    const receipt = await client.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') {
+      throw await explainRevertedTransaction(client, hash)
+    }
+    return { hash, receipt, events: decodeFaucetLogs(receipt.logs, write.faucet) }
+  } catch (error) {
+    throw decodeFaucetTxError(error, write.functionName)
+  }
+}
+
+/**
+ * Why a mined transaction reverted: replay it against the state before its block
+ * (state can change within the block, so this is the best available explanation)
+ */
+export async function explainRevertedTransaction(client: PublicClient, hash: `0x${string}`): Promise<FaucetTxError> {
+  const fallback = new FaucetTxError('reverted', `Transaction ${hash} reverted`, undefined, undefined, hash)
+  try {
+    const tx = await client.getTransaction({ hash })
+    if (!tx.to) return fallback
+    await client.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      blockNumber: tx.blockNumber !== null ? tx.blockNumber - BigInt(1) : undefined,
+    })
+    return fallback
+  } catch (error) {
+    const decoded = decodeFaucetTxError(error)
+    return decoded.code === 'unknown'
+      ? fallback
+      : new FaucetTxError(decoded.code, decoded.message, decoded.functionName, decoded.cause, hash)
+  }
+}
+
+/**
+ * Surface a failed write through the app's notifications (for callers without their own error UI)
+ */
+export function reportFaucetTxError(error: unknown, functionName?: FaucetWriteFunction): FaucetTxError {
+  const decoded = decodeFaucetTxError(error, functionName)
+  if (decoded.code !== 'rejected' && typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent<FaucetTxError>(FAUCET_TX_FAILED, { detail: decoded }))
+  }
+  return decoded
+}
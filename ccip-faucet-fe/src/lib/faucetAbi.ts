@@ -115,4 +115,328 @@ export const faucetAbi = [
     inputs: [{ name: 'messageIds', type: 'bytes32[]' }],
     outputs: [],
   },
-] as const satisfies Abi 
\ No newline at end of file
+  {
+    type: 'function',
+    name: 'emergencyWithdrawNative',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'emergencyWithdrawLink',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'addChain',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'selector', type: 'uint64' },
+      { name: 'helper', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'setCooldown',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newCooldown', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'setThresholdFactor',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newFactor', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'setCapacityFactor',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newFactor', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'setNativeReservoirCapacity',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newCapacity', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'setLinkReservoirCapacity',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newCapacity', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'refillReservoirFromTreasury',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'refillNative', type: 'bool' },
+      { name: 'refillLink', type: 'bool' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'transferOwnership',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newOwner', type: 'address' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'renounceOwnership',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  // Treasury deposits
+  {
+    type: 'function',
+    name: 'deposit',
+    stateMutability: 'payable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: 'receive',
+    stateMutability: 'payable',
+  },
+  // Configuration & state views
+  {
+    type: 'function',
+    name: 'owner',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'LINK',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'router',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'getRouter',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'helperChainSelector',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint64' }],
+  },
+  {
+    type: 'function',
+    name: 'trustedSenders',
+    stateMutability: 'view',
+    inputs: [{ name: 'chainSelector', type: 'uint64' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'capacityFactor',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'nativeReservoirCapacity',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'linkReservoirCapacity',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'pendingRequests',
+    stateMutability: 'view',
+    inputs: [{ name: 'messageId', type: 'bytes32' }],
+    outputs: [
+      { name: 'native', type: 'bool' },
+      { name: 'link', type: 'bool' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'getRefillDiagnostics',
+    stateMutability: 'view',
+    inputs: [{ name: 'messageIds', type: 'bytes32[]' }],
+    outputs: [
+      { name: 'isRefillInProgress', type: 'bool' },
+      { name: 'pendingStates', type: 'bool[]' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'supportsInterface',
+    stateMutability: 'view',
+    inputs: [{ name: 'interfaceId', type: 'bytes4' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  // Account abstraction (paymaster validation)
+  {
+    type: 'function',
+    name: 'validatePaymasterUserOp',
+    stateMutability: 'view',
+    inputs: [
+      {
+        name: 'userOp',
+        type: 'tuple',
+        components: [
+          { name: 'sender', type: 'address' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'initCode', type: 'bytes' },
+          { name: 'callData', type: 'bytes' },
+          { name: 'callGasLimit', type: 'uint256' },
+          { name: 'verificationGasLimit', type: 'uint256' },
+          { name: 'preVerificationGas', type: 'uint256' },
+          { name: 'maxFeePerGas', type: 'uint256' },
+          { name: 'maxPriorityFeePerGas', type: 'uint256' },
+          { name: 'paymasterAndData', type: 'bytes' },
+          { name: 'signature', type: 'bytes' },
+        ],
+      },
+      { name: '_userOpHash', type: 'bytes32' },
+      { name: '_maxCost', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'context', type: 'bytes' },
+      { name: 'validationData', type: 'uint256' },
+    ],
+  },
+  // Events
+  {
+    type: 'event',
+    name: 'Drip',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'RefillTriggered',
+    inputs: [{ name: 'messageId', type: 'bytes32', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'ReservoirRefilled',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'newDripRate', type: 'uint256', indexed: false },
+      { name: 'newPool', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'VolatilityReceived',
+    inputs: [
+      { name: 'responseMessageId', type: 'bytes32', indexed: true },
+      { name: 'volatilityScore', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Deposit',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'RefillStateReset',
+    inputs: [{ name: 'clearedMessageCount', type: 'uint256', indexed: false }],
+  },
+  {
+    type: 'event',
+    name: 'EmergencyWithdrawal',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'CooldownUpdated',
+    inputs: [{ name: 'newCooldown', type: 'uint256', indexed: false }],
+  },
+  {
+    type: 'event',
+    name: 'ThresholdFactorUpdated',
+    inputs: [{ name: 'newFactor', type: 'uint256', indexed: false }],
+  },
+  {
+    type: 'event',
+    name: 'ReservoirCapacityUpdated',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'newCapacity', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'CapacityFactorUpdated',
+    inputs: [{ name: 'newFactor', type: 'uint256', indexed: false }],
+  },
+  {
+    type: 'event',
+    name: 'OwnershipTransferred',
+    inputs: [
+      { name: 'previousOwner', type: 'address', indexed: true },
+      { name: 'newOwner', type: 'address', indexed: true },
+    ],
+  },
+  // Custom errors (OpenZeppelin Ownable, CCIPReceiver)
+  {
+    type: 'error',
+    name: 'OwnableUnauthorizedAccount',
+    inputs: [{ name: 'account', type: 'address' }],
+  },
+  {
+    type: 'error',
+    name: 'OwnableInvalidOwner',
+    inputs: [{ name: 'owner', type: 'address' }],
+  },
+  {
+    type: 'error',
+    name: 'InvalidRouter',
+    inputs: [{ name: 'router', type: 'address' }],
+  },
+] as const satisfies Abi
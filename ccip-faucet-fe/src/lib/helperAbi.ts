@@ -0,0 +1,135 @@
+import { Abi } from 'viem'
+
+// VolatilityHelper (deployed on the helper chain, answers the faucet's CCIP volatility requests)
+export const helperAbi = [
+  // Source chain registry
+  {
+    type: 'function',
+    name: 'selectorToFaucet',
+    stateMutability: 'view',
+    inputs: [{ name: 'sourceSelector', type: 'uint64' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'addSource',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'sourceSelector', type: 'uint64' },
+      { name: 'faucet', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'removeSource',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'sourceSelector', type: 'uint64' }],
+    outputs: [],
+  },
+  // Configuration views
+  {
+    type: 'function',
+    name: 'volatilityFeed',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'LINK',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'router',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'getRouter',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'supportsInterface',
+    stateMutability: 'view',
+    inputs: [{ name: 'interfaceId', type: 'bytes4' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  // Ownership
+  {
+    type: 'function',
+    name: 'owner',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'transferOwnership',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newOwner', type: 'address' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'renounceOwnership',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: 'receive',
+    stateMutability: 'payable',
+  },
+  // Events
+  {
+    type: 'event',
+    name: 'VolatilityResponseSent',
+    inputs: [
+      { name: 'responseMessageId', type: 'bytes32', indexed: true },
+      { name: 'originalRequestId', type: 'bytes32', indexed: true },
+      { name: 'volatilityValue', type: 'uint256', indexed: false },
+      { name: 'faucetAddress', type: 'address', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Deposit',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'OwnershipTransferred',
+    inputs: [
+      { name: 'previousOwner', type: 'address', indexed: true },
+      { name: 'newOwner', type: 'address', indexed: true },
+    ],
+  },
+  // Custom errors (OpenZeppelin Ownable, CCIPReceiver)
+  {
+    type: 'error',
+    name: 'OwnableUnauthorizedAccount',
+    inputs: [{ name: 'account', type: 'address' }],
+  },
+  {
+    type: 'error',
+    name: 'OwnableInvalidOwner',
+    inputs: [{ name: 'owner', type: 'address' }],
+  },
+  {
+    type: 'error',
+    name: 'InvalidRouter',
+    inputs: [{ name: 'router', type: 'address' }],
+  },
+] as const satisfies Abi
@@ -0,0 +1,274 @@
+// Durable block-range log scanner
+// Pages getLogs over chunked ranges and checkpoints progress so scans survive page reloads
+
+import type { AbiEvent, Address, GetLogsParameters, GetLogsReturnType, PublicClient } from 'viem'
+
+// NOTE: No '@/' imports here - preflight-check.ts imports this module directly under tsx
+
+/**
+ * Persists the last scanned block per scan stream
+ */
+export interface CheckpointStore {
+  get(key: string): bigint | null
+  set(key: string, block: bigint): void
+  remove(key: string): void
+}
+
+const STORAGE_PREFIX = 'log-scanner:'
+
+/**
+ * Browser store - checkpoints survive reloads
+ */
+export const localStorageCheckpointStore: CheckpointStore = {
+  get(key) {
+    try {
+      const value = localStorage.getItem(STORAGE_PREFIX + key)
+      return value ? BigInt(value) : null
+    } catch {
+      return null
+    }
+  },
+  set(key, block) {
+    try {
+      localStorage.setItem(STORAGE_PREFIX + key, block.toString())
+    } catch (error) {
+      console.warn('⚠️ Failed to persist log scanner checkpoint:', error)
+    }
+  },
+  remove(key) {
+    try {
+      localStorage.removeItem(STORAGE_PREFIX + key)
+    } catch {
+      // Storage unavailable - nothing to remove
+    }
+  },
+}
+
+/**
+ * In-memory store for environments without localStorage (node scripts, SSR)
+ */
+export function createMemoryCheckpointStore(): CheckpointStore {
+  const entries = new Map<string, bigint>()
+  return {
+    get: (key) => entries.get(key) ?? null,
+    set: (key, block) => { entries.set(key, block) },
+    remove: (key) => { entries.delete(key) },
+  }
+}
+
+const memoryCheckpointStore = createMemoryCheckpointStore()
+
+function getDefaultStore(): CheckpointStore {
+  return typeof localStorage !== 'undefined' ? localStorageCheckpointStore : memoryCheckpointStore
+}
+
+// Range defaults: most public RPCs accept 2k blocks, some (e.g. Monad testnet) only 100
+const DEFAULT_MAX_BLOCK_RANGE = 2000n
+const MIN_BLOCK_RANGE = 10n
+const DEFAULT_LOOKBACK = 100n
+const DEFAULT_MAX_CHUNKS = 25
+
+// Learned per-RPC range limits (also persisted through the checkpoint store under 'range:' keys)
+const rangeLimits = new Map<string, bigint>()
+
+// Error fragments RPCs use when a getLogs range or result set is too large
+const RANGE_ERROR_PATTERNS = [
+  'block range',
+  'range too large',
+  'range is too large',
+  'is limited to',
+  'too many blocks',
+  'exceeds max',
+  'query returned more than',
+  'response size',
+]
+
+function isRangeLimitError(error: unknown): boolean {
+  const message = (error instanceof Error ? `${error.message} ${(error as { details?: string }).details ?? ''}` : String(error)).toLowerCase()
+  return RANGE_ERROR_PATTERNS.some(pattern => message.includes(pattern))
+}
+
+function getRpcKey(client: PublicClient, chainId: number): string {
+  const url = (client.transport as { url?: string }).url
+  return url ?? `chain-${chainId}`
+}
+
+async function getChainId(client: PublicClient): Promise<number> {
+  return client.chain?.id ?? client.getChainId()
+}
+
+/**
+ * Build the checkpoint key for a scan stream (chain + contract + stream id)
+ */
+export function getCheckpointKey(chainId: number, address: Address, checkpointId: string): string {
+  return `${chainId}:${address.toLowerCase()}:${checkpointId}`
+}
+
+export interface ScanLogsOptions<TEvent extends AbiEvent> {
+  client: PublicClient
+  address: Address
+  event: TEvent
+  args?: GetLogsParameters<TEvent>['args']
+  /** Start block when no checkpoint exists; a function is only evaluated if needed */
+  fromBlock?: bigint | (() => Promise<bigint>)
+  /** Blocks behind the head to start from when neither checkpoint nor fromBlock is given */
+  lookback?: bigint
+  /** Defaults to the latest block */
+  toBlock?: bigint
+  /** Enables checkpointing; scans with the same id resume where the previous one stopped */
+  checkpointId?: string
+  store?: CheckpointStore
+  /** Upper bound on getLogs calls per scan - the checkpoint lets the next scan continue */
+  maxChunks?: number
+  /** Stop paging as soon as a chunk contains a matching log */
+  stopOnMatch?: boolean
+  /** Configured range cap for this RPC (learned limits may lower it further) */
+  maxBlockRange?: bigint
+  /** Page from toBlock down to fromBlock (recent logs first); checkpoints are not used */
+  newestFirst?: boolean
+}
+
+export interface ScanLogsResult<TEvent extends AbiEvent> {
+  logs: GetLogsReturnType<TEvent>
+  fromBlock: bigint
+  /** First block actually scanned (inclusive) - fromBlock unless a newestFirst scan stopped early */
+  firstScannedBlock: bigint
+  /** Last block actually scanned (inclusive) */
+  lastScannedBlock: bigint
+  /** True when the scan covered the whole range (reached toBlock, or fromBlock for newestFirst) */
+  complete: boolean
+  /** getLogs calls made (what maxChunks bounds) */
+  chunks: number
+}
+
+/**
+ * Scan a contract's event logs in chunked ranges
+ * Shrinks the chunk size when the RPC rejects a range and remembers the limit per RPC
+ */
+export async function scanLogs<const TEvent extends AbiEvent>(
+  options: ScanLogsOptions<TEvent>
+): Promise<ScanLogsResult<TEvent>> {
+  const {
+    client,
+    address,
+    event,
+    args,
+    lookback = DEFAULT_LOOKBACK,
+    checkpointId,
+    store = getDefaultStore(),
+    maxChunks = DEFAULT_MAX_CHUNKS,
+    stopOnMatch = false,
+    newestFirst = false,
+  } = options
+
+  const chainId = await getChainId(client)
+  const rpcKey = getRpcKey(client, chainId)
+  const checkpointKey = checkpointId && !newestFirst ? getCheckpointKey(chainId, address, checkpointId) : null
+
+  const toBlock = options.toBlock ?? await client.getBlockNumber()
+
+  // Resolve start: checkpoint → explicit fromBlock → head minus lookback
+  let fromBlock: bigint
+  const checkpoint = checkpointKey ? store.get(checkpointKey) : null
+  if (checkpoint !== null) {
+    fromBlock = checkpoint + 1n
+  } else if (options.fromBlock !== undefined) {
+    fromBlock = typeof options.fromBlock === 'function' ? await options.fromBlock() : options.fromBlock
+  } else {
+    fromBlock = toBlock > lookback ? toBlock - lookback : 0n
+  }
+
+  const logs = [] as unknown as GetLogsReturnType<TEvent>
+  if (fromBlock > toBlock) {
+    return { logs, fromBlock, firstScannedBlock: fromBlock, lastScannedBlock: toBlock, complete: true, chunks: 0 }
+  }
+
+  let range = rangeLimits.get(rpcKey) ?? store.get(`range:${rpcKey}`) ?? options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE
+  if (options.maxBlockRange !== undefined && options.maxBlockRange < range) {
+    range = options.maxBlockRange
+  }
+
+  // Next block to scan - chunks move up from fromBlock, or down from toBlock for newestFirst
+  let cursor = newestFirst ? toBlock : fromBlock
+  let chunks = 0
+
+  while ((newestFirst ? cursor >= fromBlock : cursor <= toBlock) && chunks < maxChunks) {
+    const chunkStart = newestFirst ? (cursor - range + 1n > fromBlock ? cursor - range + 1n : fromBlock) : cursor
+    const chunkEnd = newestFirst ? cursor : (cursor + range - 1n < toBlock ? cursor + range - 1n : toBlock)
+
+    try {
+      const chunkLogs = await client.getLogs({
+        address,
+        event,
+        args,
+        fromBlock: chunkStart,
+        toBlock: chunkEnd,
+      } as GetLogsParameters<TEvent>) as GetLogsReturnType<TEvent>
+      logs.push(...chunkLogs)
+    } catch (error) {
+      if (isRangeLimitError(error) && range > MIN_BLOCK_RANGE) {
+        range = range / 2n > MIN_BLOCK_RANGE ? range / 2n : MIN_BLOCK_RANGE
+        rangeLimits.set(rpcKey, range)
+        store.set(`range:${rpcKey}`, range)
+        console.warn(`⚠️ getLogs range rejected by RPC, retrying with ${range} blocks`)
+        continue
+      }
+      throw error
+    }
+
+    chunks++
+    if (checkpointKey) {
+      store.set(checkpointKey, chunkEnd)
+    }
+    cursor = newestFirst ? chunkStart - 1n : chunkEnd + 1n
+
+    if (stopOnMatch && logs.length > 0) break
+  }
+
+  if (newestFirst) {
+    return { logs, fromBlock, firstScannedBlock: cursor + 1n, lastScannedBlock: toBlock, complete: cursor < fromBlock, chunks }
+  }
+  return {
+    logs,
+    fromBlock,
+    firstScannedBlock: fromBlock,
+    lastScannedBlock: cursor - 1n,
+    complete: cursor > toBlock,
+    chunks,
+  }
+}
+
+/**
+ * Forget a scan stream's checkpoint (e.g. once the request it tracked is finished)
+ */
+export async function clearScanCheckpoint(
+  client: PublicClient,
+  address: Address,
+  checkpointId: string,
+  store: CheckpointStore = getDefaultStore()
+): Promise<void> {
+  const chainId = await getChainId(client)
+  store.remove(getCheckpointKey(chainId, address, checkpointId))
+}
+
+/**
+ * First block at or after a unix timestamp (binary search over getBlock - use it to seed a scan once,
+ * later scans resume from the checkpoint)
+ */
+export async function findBlockAtTimestamp(client: PublicClient, timestamp: bigint): Promise<bigint> {
+  const head = await client.getBlock()
+  if (head.timestamp <= timestamp) return head.number
+
+  let low = 0n
+  let high = head.number
+  while (low < high) {
+    const mid = (low + high) / 2n
+    const block = await client.getBlock({ blockNumber: mid })
+    if (block.timestamp < timestamp) {
+      low = mid + 1n
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
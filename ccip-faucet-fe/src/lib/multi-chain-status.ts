@@ -0,0 +1,128 @@
+// Read-only faucet status for every chain in chains.json at once
+// Independent of the active chain and the connected wallet - each chain gets its own public client
+
+import { isAddressEqual, zeroAddress, type Address } from 'viem'
+import { configLoader } from '@/lib/config/core/loader'
+import { getChainPublicClient } from '@/lib/public-client'
+import { readFaucetSnapshot, type FaucetSnapshot } from '@/lib/faucetClient'
+import { faucetAbi } from '@/lib/faucetAbi'
+
+export interface ChainFaucetStatus {
+  chainName: string
+  chainId: number
+  displayName: string
+  ticker: string
+  themeColor: string
+  faucetAddress: Address
+  snapshot: FaucetSnapshot
+  refillInProgress: boolean
+  fetchedAt: number
+}
+
+export type ChainStatusResult =
+  | { chainName: string; status: 'ok'; data: ChainFaucetStatus }
+  | { chainName: string; status: 'not-deployed'; displayName: string }
+  | { chainName: string; status: 'error'; displayName: string; error: string }
+
+/**
+ * Snapshot + refill flag for one chain's faucet
+ */
+export async function fetchChainFaucetStatus(chainName: string): Promise<ChainStatusResult> {
+  const config = await configLoader.loadChainConfig(chainName)
+  const faucetAddress = config.contracts.faucet as Address
+
+  if (!faucetAddress || isAddressEqual(faucetAddress, zeroAddress)) {
+    return { chainName, status: 'not-deployed', displayName: config.name }
+  }
+
+  try {
+    const client = await getChainPublicClient(chainName)
+    const [snapshot, refillInProgress] = await Promise.all([
+      readFaucetSnapshot(client, faucetAddress, undefined, config.multicall),
+      client.readContract({
+        address: faucetAddress,
+        abi: faucetAbi,
+        functionName: 'refillInProgress',
+      }),
+    ])
+
+    return {
+      chainName,
+      status: 'ok',
+      data: {
+        chainName,
+        chainId: config.chainId,
+        displayName: config.name,
+        ticker: config.ticker,
+        themeColor: config.themeColor,
+        faucetAddress,
+        snapshot,
+        refillInProgress,
+        fetchedAt: Date.now(),
+      },
+    }
+  } catch (error) {
+    console.warn(`⚠️ Failed to read faucet status on ${chainName}:`, error)
+    return {
+      chainName,
+      status: 'error',
+      displayName: config.name,
+      error: error instanceof Error ? error.message : 'Failed to read faucet status',
+    }
+  }
+}
+
+/**
+ * Fetch every supported chain in parallel - one slow or broken RPC never blocks the others
+ */
+export async function fetchAllChainStatuses(): Promise<ChainStatusResult[]> {
+  const { supportedChains } = await configLoader.loadChainsConfig()
+  console.log(`🌐 Fetching faucet status for ${supportedChains.length} chains...`)
+
+  const results = await Promise.allSettled(supportedChains.map(fetchChainFaucetStatus))
+
+  return results.map((result, index) => result.status === 'fulfilled'
+    ? result.value
+    : {
+        chainName: supportedChains[index],
+        status: 'error' as const,
+        displayName: supportedChains[index],
+        error: result.reason instanceof Error ? result.reason.message : 'Failed to load chain config',
+      })
+}
+
+export interface FaucetChainInfo {
+  chainName: string
+  chainId: number
+  displayName: string
+  ticker: string
+  rpcUrl: string | string[]
+  faucetAddress: Address
+}
+
+/**
+ * Every supported chain with a deployed faucet (config only - chains whose config fails to load are skipped)
+ */
+export async function getFaucetChains(): Promise<FaucetChainInfo[]> {
+  const { supportedChains } = await configLoader.loadChainsConfig()
+  const results = await Promise.allSettled(supportedChains.map(chainName => configLoader.loadChainConfig(chainName)))
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`⚠️ Failed to load chain config ${supportedChains[index]}:`, result.reason)
+      return []
+    }
+    const config = result.value
+    const faucetAddress = config.contracts.faucet as Address
+    if (!faucetAddress || isAddressEqual(faucetAddress, zeroAddress)) return []
+
+    return [{
+      chainName: supportedChains[index],
+      chainId: config.chainId,
+      displayName: config.name,
+      ticker: config.ticker,
+      rpcUrl: config.rpcUrl,
+      faucetAddress,
+    }]
+  })
+}
@@ -0,0 +1,108 @@
+// Batched contract reads through Multicall3 `aggregate3`
+// Falls back to individual reads on chains without Multicall3 (declared per chain in the chain JSON)
+// NOTE: No '@/' or config imports here - the polling worker imports this module and has no app config
+
+import type { Abi, PublicClient } from 'viem'
+
+// Deterministic deployment address on virtually every EVM chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+/**
+ * `multicall` block of a chain JSON
+ */
+export interface MulticallSettings {
+  /** false when the chain has no Multicall3 deployment (default: true) */
+  enabled?: boolean
+  /** Multicall3 address when not deployed at the canonical one */
+  address?: `0x${string}`
+  /** How to read without Multicall3: all at once, or one by one for strictly rate-limited RPCs (default: parallel) */
+  fallback?: 'parallel' | 'sequential'
+}
+
+export interface ReadCall {
+  address: `0x${string}`
+  abi: Abi
+  functionName: string
+  args?: readonly unknown[]
+}
+
+export type ReadResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: Error }
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+async function readIndividually(client: PublicClient, calls: ReadCall[], mode: 'parallel' | 'sequential'): Promise<ReadResult[]> {
+  const readOne = (call: ReadCall): Promise<ReadResult> =>
+    client.readContract(call as Parameters<PublicClient['readContract']>[0])
+      .then((result): ReadResult => ({ status: 'success', result }))
+      .catch((error): ReadResult => ({ status: 'failure', error: toError(error) }))
+
+  if (mode === 'parallel') {
+    return Promise.all(calls.map(readOne))
+  }
+
+  const results: ReadResult[] = []
+  for (const call of calls) {
+    results.push(await readOne(call))
+  }
+  return results
+}
+
+/**
+ * Read every call in one `aggregate3` round-trip. Each call may fail on its own
+ * (allowFailure) - a missing function on an old contract doesn't sink the batch.
+ */
+export async function batchRead(client: PublicClient, calls: ReadCall[], settings: MulticallSettings = {}): Promise<ReadResult[]> {
+  if (calls.length === 0) return []
+  const fallback = settings.fallback ?? 'parallel'
+
+  if (settings.enabled === false || calls.length === 1) {
+    return readIndividually(client, calls, fallback)
+  }
+
+  try {
+    const results = await client.multicall({
+      contracts: calls as Parameters<PublicClient['multicall']>[0]['contracts'],
+      allowFailure: true,
+      multicallAddress: settings.address ?? MULTICALL3_ADDRESS,
+    })
+    return results.map((result): ReadResult => result.status === 'success'
+      ? { status: 'success', result: result.result }
+      : { status: 'failure', error: toError(result.error) })
+  } catch (error) {
+    // The aggregate call itself failed (no Multicall3 at that address, RPC rejected it, ...)
+    console.warn(`⚠️ Multicall3 batch failed, falling back to ${fallback} reads:`, toError(error).message)
+    return readIndividually(client, calls, fallback)
+  }
+}
+
+/**
+ * Coalesces reads issued in the same tick into a single batchRead
+ * (lets per-read caches decide what to fetch while still paying one round-trip)
+ */
+export function createReadBatcher(client: PublicClient, settings: MulticallSettings = {}) {
+  let queue: { call: ReadCall; resolve: (result: ReadResult) => void }[] = []
+
+  const flush = async () => {
+    const batch = queue
+    queue = []
+    try {
+      const results = await batchRead(client, batch.map(entry => entry.call), settings)
+      batch.forEach((entry, index) => entry.resolve(results[index]))
+    } catch (error) {
+      batch.forEach(entry => entry.resolve({ status: 'failure', error: toError(error) }))
+    }
+  }
+
+  return {
+    read(call: ReadCall): Promise<ReadResult> {
+      return new Promise(resolve => {
+        if (queue.length === 0) queueMicrotask(flush)
+        queue.push({ call, resolve })
+      })
+    },
+  }
+}
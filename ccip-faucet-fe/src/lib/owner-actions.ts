@@ -0,0 +1,356 @@
+// Owner console: one typed definition per onlyOwner Faucet function
+// Each action knows how to show the current on-chain value, how to turn form input into call args
+// (throwing OwnerInputError on bad input), and which event confirms it.
+
+import { formatEther, isAddress, parseEther, zeroAddress, type ContractFunctionArgs, type PublicClient } from 'viem'
+import { faucetAbi } from './faucetAbi'
+import { batchRead, type MulticallSettings } from './multicall'
+import { decodeFaucetTxError } from './faucet-tx'
+import type { FaucetEvent, FaucetEventName } from './contract-events'
+
+export type OwnerFunctionName =
+  | 'setCooldown'
+  | 'setThresholdFactor'
+  | 'setCapacityFactor'
+  | 'setNativeReservoirCapacity'
+  | 'setLinkReservoirCapacity'
+  | 'refillReservoirFromTreasury'
+  | 'addChain'
+  | 'emergencyResetRefillState'
+  | 'emergencyWithdrawNative'
+  | 'emergencyWithdrawLink'
+
+/**
+ * Call args of an owner function, as the faucet ABI declares them
+ */
+export type OwnerFunctionArgs<F extends OwnerFunctionName> = ContractFunctionArgs<typeof faucetAbi, 'nonpayable', F>
+
+export type OwnerFieldKind = 'seconds' | 'integer' | 'amount' | 'address' | 'selector' | 'bool' | 'bytes32-list'
+
+export interface OwnerField {
+  name: string
+  label: string
+  kind: OwnerFieldKind
+  placeholder?: string
+}
+
+/**
+ * On-chain values the console shows next to each action
+ */
+export interface OwnerConsoleState {
+  cooldown: bigint
+  thresholdFactor: bigint
+  capacityFactor: bigint
+  nativeTreasury: bigint
+  nativeReservoir: bigint
+  linkTreasury: bigint
+  linkReservoir: bigint
+  nativeCapacity: bigint
+  linkCapacity: bigint
+  refillInProgress: boolean
+  helperChainSelector: bigint
+  /** trustedSenders[helperChainSelector] */
+  trustedHelper: `0x${string}`
+}
+
+export interface OwnerActionContext {
+  state: OwnerConsoleState
+  /** Connected owner account (default withdrawal recipient) */
+  account: `0x${string}`
+  nativeSymbol: string
+}
+
+export type OwnerFormValues = Record<string, string>
+
+export interface OwnerActionDefinition<F extends OwnerFunctionName> {
+  functionName: F
+  label: string
+  description: string
+  fields: OwnerField[]
+  /** Moves funds or clears state - the console asks for confirmation */
+  danger?: boolean
+  /** Event the contract emits on success (addChain / refillReservoirFromTreasury emit none) */
+  event?: FaucetEventName
+  /** Reads to invalidate when there is no event to drive the cache */
+  invalidates?: string[]
+  current(ctx: OwnerActionContext): string
+  defaults?(ctx: OwnerActionContext): OwnerFormValues
+  /** Form values → call args; throws OwnerInputError */
+  parse(values: OwnerFormValues, ctx: OwnerActionContext): OwnerFunctionArgs<F>
+}
+
+/**
+ * Any owner action - `parse` returns the args of its own `functionName`
+ */
+export type OwnerAction = { [F in OwnerFunctionName]: OwnerActionDefinition<F> }[OwnerFunctionName]
+
+/**
+ * Invalid console input (shown under the form, nothing is simulated)
+ */
+export class OwnerInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OwnerInputError'
+  }
+}
+
+const UINT64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1)
+
+function required(values: OwnerFormValues, field: string, label: string): string {
+  const value = values[field]?.trim()
+  if (!value) throw new OwnerInputError(`${label} is required`)
+  return value
+}
+
+function parsePositiveInteger(value: string, label: string): bigint {
+  if (!/^\d+$/.test(value)) throw new OwnerInputError(`${label} must be a whole number`)
+  const parsed = BigInt(value)
+  if (parsed === BigInt(0)) throw new OwnerInputError(`${label} cannot be zero`)
+  return parsed
+}
+
+function parseAmount(value: string, label: string): bigint {
+  let parsed: bigint
+  try {
+    parsed = parseEther(value)
+  } catch {
+    throw new OwnerInputError(`${label} must be a decimal amount`)
+  }
+  if (parsed <= BigInt(0)) throw new OwnerInputError(`${label} must be positive`)
+  return parsed
+}
+
+function parseRecipient(value: string, label: string): `0x${string}` {
+  if (!isAddress(value)) throw new OwnerInputError(`${label} is not a valid address`)
+  if (value.toLowerCase() === zeroAddress) throw new OwnerInputError(`${label} cannot be the zero address`)
+  return value
+}
+
+export function formatSeconds(seconds: bigint): string {
+  const total = Number(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  return `${hours}h ${minutes}m (${total}s)`
+}
+
+const formatAmount = (value: bigint, symbol: string) => `${formatEther(value)} ${symbol}`
+
+export const OWNER_ACTIONS: OwnerAction[] = [
+  {
+    functionName: 'setCooldown',
+    label: 'Claim cooldown',
+    description: 'Seconds between claims per address and token',
+    fields: [{ name: 'seconds', label: 'New cooldown (seconds)', kind: 'seconds', placeholder: '21600' }],
+    event: 'CooldownUpdated',
+    current: ({ state }) => formatSeconds(state.cooldown),
+    parse: (values) => [parsePositiveInteger(required(values, 'seconds', 'Cooldown'), 'Cooldown')],
+  },
+  {
+    functionName: 'setThresholdFactor',
+    label: 'Threshold factor',
+    description: 'Refill threshold = drip rate × factor (also recalculates both capacities)',
+    fields: [{ name: 'factor', label: 'New factor', kind: 'integer', placeholder: '10' }],
+    event: 'ThresholdFactorUpdated',
+    current: ({ state }) => state.thresholdFactor.toString(),
+    parse: (values) => [parsePositiveInteger(required(values, 'factor', 'Factor'), 'Factor')],
+  },
+  {
+    functionName: 'setCapacityFactor',
+    label: 'Capacity factor',
+    description: 'Capacity = drip rate × threshold factor × capacity factor (recalculates both capacities)',
+    fields: [{ name: 'factor', label: 'New factor', kind: 'integer', placeholder: '5' }],
+    event: 'CapacityFactorUpdated',
+    current: ({ state }) => state.capacityFactor.toString(),
+    parse: (values) => [parsePositiveInteger(required(values, 'factor', 'Factor'), 'Factor')],
+  },
+  {
+    functionName: 'setNativeReservoirCapacity',
+    label: 'Native reservoir capacity',
+    description: 'A capacity below the current reservoir shrinks the reservoir; raising it does not refill',
+    fields: [{ name: 'amount', label: 'New capacity', kind: 'amount', placeholder: '100' }],
+    event: 'ReservoirCapacityUpdated',
+    current: ({ state, nativeSymbol }) => `${formatAmount(state.nativeCapacity, nativeSymbol)} (reservoir ${formatAmount(state.nativeReservoir, nativeSymbol)})`,
+    parse: (values) => [parseAmount(required(values, 'amount', 'Capacity'), 'Capacity')],
+  },
+  {
+    functionName: 'setLinkReservoirCapacity',
+    label: 'LINK reservoir capacity',
+    description: 'A capacity below the current reservoir shrinks the reservoir; raising it does not refill',
+    fields: [{ name: 'amount', label: 'New capacity', kind: 'amount', placeholder: '100' }],
+    event: 'ReservoirCapacityUpdated',
+    current: ({ state }) => `${formatAmount(state.linkCapacity, 'LINK')} (reservoir ${formatAmount(state.linkReservoir, 'LINK')})`,
+    parse: (values) => [parseAmount(required(values, 'amount', 'Capacity'), 'Capacity')],
+  },
+  {
+    functionName: 'refillReservoirFromTreasury',
+    label: 'Refill reservoirs from treasury',
+    description: 'Moves unallocated treasury funds into the reservoirs, up to capacity',
+    fields: [
+      { name: 'native', label: 'Native reservoir', kind: 'bool' },
+      { name: 'link', label: 'LINK reservoir', kind: 'bool' },
+    ],
+    invalidates: ['getReservoirStatus', 'getTreasuryStatus'],
+    current: ({ state, nativeSymbol }) =>
+      `native ${formatAmount(state.nativeReservoir, nativeSymbol)} / ${formatAmount(state.nativeCapacity, nativeSymbol)}, ` +
+      `LINK ${formatAmount(state.linkReservoir, 'LINK')} / ${formatAmount(state.linkCapacity, 'LINK')}`,
+    defaults: () => ({ native: 'true', link: 'true' }),
+    parse: (values, { state }) => {
+      const native = values.native === 'true'
+      const link = values.link === 'true'
+      if (!native && !link) throw new OwnerInputError('Select at least one reservoir')
+      const nativeEmpty = !native || state.nativeTreasury === BigInt(0)
+      const linkEmpty = !link || state.linkTreasury === BigInt(0)
+      if (nativeEmpty && linkEmpty) {
+        throw new OwnerInputError('Selected treasury is empty - nothing to move into the reservoir')
+      }
+      return [native, link]
+    },
+  },
+  {
+    functionName: 'addChain',
+    label: 'Trusted helper',
+    description: 'Registers the helper contract allowed to send CCIP messages from a source chain',
+    fields: [
+      { name: 'selector', label: 'Source chain selector', kind: 'selector' },
+      { name: 'helper', label: 'Helper address', kind: 'address', placeholder: '0x...' },
+    ],
+    current: ({ state }) => `${state.helperChainSelector}: ${state.trustedHelper === zeroAddress ? 'not set' : state.trustedHelper}`,
+    defaults: ({ state }) => ({ selector: state.helperChainSelector.toString() }),
+    parse: (values) => {
+      const selector = parsePositiveInteger(required(values, 'selector', 'Chain selector'), 'Chain selector')
+      if (selector > UINT64_MAX) throw new OwnerInputError('Chain selector does not fit in uint64')
+      // Zero is allowed here - it revokes the helper for that selector
+      const helper = required(values, 'helper', 'Helper address')
+      if (!isAddress(helper)) throw new OwnerInputError('Helper address is not a valid address')
+      return [selector, helper]
+    },
+  },
+  {
+    functionName: 'emergencyResetRefillState',
+    label: 'Reset refill state',
+    description: 'Clears the refill mutex and the listed pending CCIP message IDs (one per line, optional)',
+    fields: [{ name: 'messageIds', label: 'Pending message IDs', kind: 'bytes32-list', placeholder: '0x...' }],
+    danger: true,
+    event: 'RefillStateReset',
+    current: ({ state }) => state.refillInProgress ? 'refill in progress' : 'idle',
+    parse: (values) => {
+      const ids = (values.messageIds ?? '').split(/[\s,]+/).filter(Boolean)
+      const invalid = ids.find(id => !/^0x[0-9a-fA-F]{64}$/.test(id))
+      if (invalid) throw new OwnerInputError(`${invalid} is not a 32-byte message ID`)
+      return [ids as `0x${string}`[]]
+    },
+  },
+  {
+    functionName: 'emergencyWithdrawNative',
+    label: 'Withdraw native',
+    description: 'Withdraws from the native treasury (never from the reservoir)',
+    fields: [
+      { name: 'to', label: 'Recipient', kind: 'address' },
+      { name: 'amount', label: 'Amount', kind: 'amount' },
+    ],
+    danger: true,
+    event: 'EmergencyWithdrawal',
+    current: ({ state, nativeSymbol }) => `treasury ${formatAmount(state.nativeTreasury, nativeSymbol)}`,
+    defaults: ({ account }) => ({ to: account }),
+    parse: (values, { state, nativeSymbol }) => {
+      const to = parseRecipient(required(values, 'to', 'Recipient'), 'Recipient')
+      const amount = parseAmount(required(values, 'amount', 'Amount'), 'Amount')
+      if (amount > state.nativeTreasury) {
+        throw new OwnerInputError(`Amount exceeds the treasury (${formatAmount(state.nativeTreasury, nativeSymbol)})`)
+      }
+      return [to, amount]
+    },
+  },
+  {
+    functionName: 'emergencyWithdrawLink',
+    label: 'Withdraw LINK',
+    description: 'Withdraws from the LINK treasury (never from the reservoir)',
+    fields: [
+      { name: 'to', label: 'Recipient', kind: 'address' },
+      { name: 'amount', label: 'Amount', kind: 'amount' },
+    ],
+    danger: true,
+    event: 'EmergencyWithdrawal',
+    current: ({ state }) => `treasury ${formatAmount(state.linkTreasury, 'LINK')}`,
+    defaults: ({ account }) => ({ to: account }),
+    parse: (values, { state }) => {
+      const to = parseRecipient(required(values, 'to', 'Recipient'), 'Recipient')
+      const amount = parseAmount(required(values, 'amount', 'Amount'), 'Amount')
+      if (amount > state.linkTreasury) {
+        throw new OwnerInputError(`Amount exceeds the treasury (${formatAmount(state.linkTreasury, 'LINK')})`)
+      }
+      return [to, amount]
+    },
+  },
+]
+
+export function getOwnerAction(functionName: OwnerFunctionName): OwnerAction {
+  const action = OWNER_ACTIONS.find(entry => entry.functionName === functionName)
+  if (!action) throw new Error(`Unknown owner action: ${functionName}`)
+  return action
+}
+
+/**
+ * Read everything the console displays in one batch
+ */
+export async function readOwnerConsoleState(
+  client: PublicClient,
+  faucet: `0x${string}`,
+  multicall?: MulticallSettings
+): Promise<OwnerConsoleState> {
+  const read = (functionName: string) => ({ address: faucet, abi: faucetAbi, functionName })
+  const results = await batchRead(client, [
+    read('COOLDOWN'),
+    read('thresholdFactor'),
+    read('capacityFactor'),
+    read('getTreasuryStatus'),
+    read('refillInProgress'),
+    read('helperChainSelector'),
+  ], multicall)
+
+  const failed = results.find(result => result.status === 'failure')
+  if (failed?.status === 'failure') throw failed.error
+
+  const [cooldown, thresholdFactor, capacityFactor, treasury, refillInProgress, helperChainSelector] =
+    results.map(result => (result as { result: unknown }).result) as [bigint, bigint, bigint, readonly bigint[], boolean, bigint]
+  const [nativeTreasury, nativeReservoir, linkTreasury, linkReservoir, nativeCapacity, linkCapacity] = treasury
+  const trustedHelper = await client.readContract({
+    address: faucet,
+    abi: faucetAbi,
+    functionName: 'trustedSenders',
+    args: [helperChainSelector],
+  })
+
+  return {
+    cooldown,
+    thresholdFactor,
+    capacityFactor,
+    nativeTreasury,
+    nativeReservoir,
+    linkTreasury,
+    linkReservoir,
+    nativeCapacity,
+    linkCapacity,
+    refillInProgress,
+    helperChainSelector,
+    trustedHelper,
+  }
+}
+
+/**
+ * Human readable reason from an input / simulation / send error
+ */
+export function describeOwnerActionError(error: unknown): string {
+  return error instanceof OwnerInputError ? error.message : decodeFaucetTxError(error).message
+}
+
+/**
+ * `CooldownUpdated(newCooldown: 21600)` - amounts in ether units
+ */
+export function formatOwnerEvent(event: FaucetEvent): string {
+  const args = Object.entries((event.args ?? {}) as Record<string, unknown>).map(([key, value]) => {
+    if (typeof value === 'bigint' && (key === 'amount' || key === 'newCapacity')) return `${key}: ${formatEther(value)}`
+    return `${key}: ${String(value)}`
+  })
+  return `${event.eventName}(${args.join(', ')})`
+}
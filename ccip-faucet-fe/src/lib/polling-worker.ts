@@ -0,0 +1,264 @@
+// Main-thread side of the background polling worker (workers/polling.worker.ts)
+// - Only the leader tab runs the worker; followers receive its results through tab-sync
+// - Derives polling.state from the store + page visibility and forwards it as the worker's cadence
+// - Applies the worker's typed updates to useFaucetStore, dropping results for a chain we already left
+
+import { formatEther, isAddressEqual, zeroAddress } from 'viem'
+import { useFaucetStore } from '@/store/faucet-store'
+import type { PersistScope } from '@/store/persistence'
+import { tabCoordinator } from './tab-coordinator'
+import { getActiveChainConfig } from './config/chain/viem-client'
+import { getAddresses } from './config/chain/addresses'
+import { invalidateForFaucetEvents } from './request-cache'
+import { normalizeRpcUrls, type RpcPoolHealth } from './rpc-pool'
+import { getFaucetChains } from './multi-chain-status'
+import type { FaucetSnapshot } from './faucet-snapshot'
+import type {
+  PolledFaucetEvents,
+  PollingState,
+  PollingTarget,
+  PollingWorkerCommand,
+  PollingWorkerEvent,
+  SerializedSnapshot,
+} from '@/workers/polling-protocol'
+
+/**
+ * Window event fired when the worker's event scan found new faucet activity
+ */
+export const FAUCET_EVENTS_POLLED = 'faucet-events-polled'
+
+// Follower tabs ask the leader's worker for an immediate cycle through this message
+const REFRESH_MESSAGE = 'polling-refresh'
+
+export interface FaucetEventsPolledDetail extends PolledFaucetEvents {
+  chainId: number
+}
+
+function deserializeSnapshot(snapshot: SerializedSnapshot): FaucetSnapshot {
+  return {
+    active: {
+      pool: BigInt(snapshot.active.pool),
+      drip: BigInt(snapshot.active.drip),
+      baseDrip: BigInt(snapshot.active.baseDrip),
+      capacity: BigInt(snapshot.active.capacity),
+    },
+    link: {
+      pool: BigInt(snapshot.link.pool),
+      drip: BigInt(snapshot.link.drip),
+      baseDrip: BigInt(snapshot.link.baseDrip),
+      capacity: BigInt(snapshot.link.capacity),
+    },
+    treasury: {
+      active: BigInt(snapshot.treasury.active),
+      link: BigInt(snapshot.treasury.link),
+    },
+    constants: snapshot.constants,
+    lastClaim: snapshot.lastClaim ? {
+      active: BigInt(snapshot.lastClaim.active),
+      link: BigInt(snapshot.lastClaim.link),
+    } : undefined,
+  }
+}
+
+export class PollingWorkerService {
+  private static instance: PollingWorkerService
+  private worker: Worker | null = null
+  private target: PollingTarget | null = null
+  private rpcHealth: RpcPoolHealth | null = null
+  private started = false
+  // Bumped per configure() so a slow target lookup can't override a newer scope
+  private configureId = 0
+
+  private constructor() {}
+
+  static getInstance(): PollingWorkerService {
+    if (!PollingWorkerService.instance) {
+      PollingWorkerService.instance = new PollingWorkerService()
+    }
+    return PollingWorkerService.instance
+  }
+
+  /**
+   * Follow tab leadership and the inputs of polling.state (idempotent)
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    tabCoordinator.onLeadershipChange((isLeader) => {
+      if (isLeader) {
+        this.spawn()
+      } else {
+        this.terminate()
+      }
+    })
+    if (tabCoordinator.isLeader()) this.spawn()
+    tabCoordinator.subscribe(REFRESH_MESSAGE, () => this.post({ type: 'refresh' }))
+
+    // A running refill (local or on-chain) switches to the critical cadence
+    useFaucetStore.subscribe(
+      (state) => state.ccipRequest.status === 'running' || state.polling.refillInProgress,
+      () => this.updatePollingState()
+    )
+    document.addEventListener('visibilitychange', () => this.updatePollingState())
+    this.updatePollingState()
+
+    console.log('🛰️ Polling worker bridge started')
+  }
+
+  /**
+   * Point polling at a chain + wallet scope (called by setFaucetStoreScope)
+   */
+  async configure(scope: PersistScope): Promise<void> {
+    const id = ++this.configureId
+    let target: PollingTarget | null = null
+
+    try {
+      const [config, addresses, faucetChains] = await Promise.all([getActiveChainConfig(), getAddresses(), getFaucetChains()])
+      const faucetAddress = addresses.FAUCET_ADDRESS as `0x${string}` | undefined
+
+      if (config.chainId !== scope.chainId) {
+        console.warn(`⚠️ Polling scope chain ${scope.chainId} does not match active chain ${config.chainId}, not polling`)
+      } else if (!faucetAddress || isAddressEqual(faucetAddress, zeroAddress)) {
+        console.warn(`⚠️ No faucet deployed on chain ${config.chainId}, not polling`)
+      } else {
+        target = {
+          chainId: config.chainId,
+          rpcUrls: normalizeRpcUrls(config.rpcUrl),
+          faucetAddress,
+          linkToken: (addresses.ACTIVE_CHAIN_LINK_TOKEN as `0x${string}` | undefined) ?? null,
+          user: scope.address as `0x${string}` | null,
+          multicall: config.multicall ?? {},
+          cooldownChains: faucetChains
+            .filter(chain => chain.chainId !== config.chainId)
+            .map(chain => ({ chainId: chain.chainId, rpcUrls: normalizeRpcUrls(chain.rpcUrl), faucetAddress: chain.faucetAddress })),
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to resolve polling target:', error)
+    }
+
+    if (id !== this.configureId) return
+    this.target = target
+    this.rpcHealth = null
+    this.post({ type: 'configure', target, state: useFaucetStore.getState().polling.state })
+    console.log(`🛰️ Polling target → ${target ? `chain ${target.chainId}, wallet ${target.user ?? 'none'}` : 'none'}`)
+  }
+
+  /**
+   * Run a polling cycle now (e.g. right after a transaction)
+   * Follower tabs forward the request to the leader - its results reach them through tab-sync
+   */
+  refresh(): void {
+    if (this.worker) {
+      this.post({ type: 'refresh' })
+    } else {
+      tabCoordinator.publish(REFRESH_MESSAGE, null)
+    }
+  }
+
+  /**
+   * Latest RPC pool health reported by the worker (null in follower tabs or before the first cycle)
+   */
+  getRpcHealth(): RpcPoolHealth | null {
+    return this.rpcHealth
+  }
+
+  private post(command: PollingWorkerCommand): void {
+    this.worker?.postMessage(command)
+  }
+
+  private spawn(): void {
+    if (this.worker) return
+    if (typeof Worker === 'undefined') {
+      console.warn('⚠️ Web Workers unavailable, background polling disabled')
+      return
+    }
+
+    this.worker = new Worker(new URL('../workers/polling.worker.ts', import.meta.url), { type: 'module' })
+    this.worker.onmessage = (event: MessageEvent<PollingWorkerEvent>) => this.handleEvent(event.data)
+    this.worker.onerror = (event) => console.error('❌ Polling worker error:', event.message)
+    this.post({ type: 'configure', target: this.target, state: useFaucetStore.getState().polling.state })
+    console.log('🛰️ Polling worker spawned (leader tab)')
+  }
+
+  private terminate(): void {
+    if (!this.worker) return
+    this.worker.terminate()
+    this.worker = null
+    console.log('🛰️ Polling worker terminated (no longer leader)')
+  }
+
+  private updatePollingState(): void {
+    const { ccipRequest, polling, setPollingState } = useFaucetStore.getState()
+
+    let next: PollingState = 'normal'
+    if (ccipRequest.status === 'running' || polling.refillInProgress) {
+      next = 'critical'
+    } else if (document.hidden) {
+      next = 'idle'
+    }
+
+    if (next === polling.state) return
+    setPollingState(next)
+    this.post({ type: 'set-polling-state', state: next })
+    console.log(`🛰️ Polling state → ${next}`)
+  }
+
+  private handleEvent(event: PollingWorkerEvent): void {
+    // Results for a chain we already switched away from
+    if (!this.target || event.chainId !== this.target.chainId) return
+
+    const store = useFaucetStore.getState()
+    switch (event.type) {
+      case 'snapshot':
+        store.applyFaucetSnapshot(event.chainId, deserializeSnapshot(event.snapshot))
+        break
+
+      case 'balances':
+        if (this.target.user && isAddressEqual(event.user, this.target.user)) {
+          store.updateWalletBalances(event.user, {
+            native: Number(formatEther(BigInt(event.native))),
+            link: Number(formatEther(BigInt(event.link))),
+          })
+        }
+        break
+
+      case 'refill-state':
+        if (event.refillInProgress !== store.polling.refillInProgress) {
+          store.setRefillInProgress(event.refillInProgress)
+        }
+        break
+
+      case 'chain-cooldowns':
+        if (this.target.user && isAddressEqual(event.user, this.target.user)) {
+          event.cooldowns.forEach(chain => {
+            store.setChainCooldown(chain.chainId, 'active', { dripAvailableAt: chain.activeAvailableAt })
+            store.setChainCooldown(chain.chainId, 'link', { dripAvailableAt: chain.linkAvailableAt })
+          })
+        }
+        break
+
+      case 'events':
+        if (event.events.activity.length > 0) {
+          console.log(`📡 Faucet activity on chain ${event.chainId}:`, event.events)
+          // NEW: Cached reads follow on-chain events instead of waiting out their TTL
+          invalidateForFaucetEvents(event.chainId, this.target.faucetAddress, event.events.activity)
+          window.dispatchEvent(new CustomEvent<FaucetEventsPolledDetail>(FAUCET_EVENTS_POLLED, {
+            detail: { chainId: event.chainId, ...event.events },
+          }))
+        }
+        break
+
+      case 'rpc-health':
+        this.rpcHealth = event.health
+        break
+
+      case 'error':
+        console.warn(`⚠️ Polling worker ${event.source} read failed on chain ${event.chainId}:`, event.message)
+        break
+    }
+  }
+}
+
+export const pollingWorker = PollingWorkerService.getInstance()
@@ -1,13 +1,22 @@
-import { createPublicClient, http, type PublicClient } from 'viem'
-import { createConfigDrivenPublicClient, getHelperChain } from './config/chain/viem-client'
+import { createPublicClient, type PublicClient } from 'viem'
+import {
+  createChainFromConfig,
+  createChainTransport,
+  getActiveChainConfig,
+  getHelperChainConfig,
+} from './config/chain/viem-client'
+import { configLoader } from './config/core/loader'
+import type { ChainConfig, HelperChainConfig } from './config/core/types'
 
 /**
  * Simple, centralized public client service
  * Single point of truth for all client creation across the app
+ * One client per chain ID - the active, helper, by-name and by-ID lookups all share it,
+ * so hooks, the CCIP monitor and scripts can address any configured chain side by side
  */
 export class PublicClientService {
   private static instance: PublicClientService
-  private clients: Map<string, PublicClient> = new Map()
+  private clients: Map<number, PublicClient> = new Map()
   
   private constructor() {}
   
@@ -22,34 +31,35 @@ export class PublicClientService {
    * Get the active chain public client (config-driven)
    */
   async getClient(): Promise<PublicClient> {
-    if (!this.clients.has('active')) {
-      console.log('🔧 Creating active chain client...')
-      const client = await createConfigDrivenPublicClient()
-      this.clients.set('active', client)
-      console.log('✅ Active chain client created and cached')
-    }
-    return this.clients.get('active')!
+    return this.getClientForConfig(await getActiveChainConfig())
   }
   
   /**
    * Get the helper chain public client (config-driven)
    */
   async getHelperClient(): Promise<PublicClient> {
-    if (!this.clients.has('helper')) {
-      console.log('🔧 Creating helper chain client...')
-      const helperChain = await getHelperChain()
-      const client = createPublicClient({
-        chain: helperChain,
-        transport: http(helperChain.rpcUrls.default.http[0])
-      })
-      this.clients.set('helper', client)
-      console.log('✅ Helper chain client created and cached')
-    }
-    return this.clients.get('helper')!
+    return this.getClientForConfig(await getHelperChainConfig())
   }
   
   /**
-   * Clear cached clients (useful for testing or chain switching)
+   * Get a client for any chain listed in chains.json, independent of the active chain
+   */
+  async getClientByChainName(chainName: string): Promise<PublicClient> {
+    return this.getClientForConfig(await configLoader.loadChainConfig(chainName))
+  }
+
+  /**
+   * Get a client for any configured chain ID - supported chains and helper chains (chains/helpers/)
+   * Generic: was hard-coded to Monad Testnet + Avalanche Fuji
+   */
+  async getClientByChainId(chainId: number): Promise<PublicClient> {
+    const cached = this.clients.get(chainId)
+    if (cached) return cached
+    return this.getClientForConfig(await configLoader.loadChainConfigById(chainId))
+  }
+
+  /**
+   * Clear cached clients (useful for testing)
    */
   clearCache(): void {
     console.log('🧹 Clearing client cache...')
@@ -57,44 +67,25 @@ export class PublicClientService {
   }
 
   /**
-   * Smart cache invalidation - only clear specific chain clients
+   * Drop one chain's client (e.g. after its config changed); the next lookup recreates it
    */
-  clearChainCache(chainId?: number): void {
-    if (chainId) {
-      const key = chainId.toString()
-      this.clients.delete(key)
-      console.log(`🧹 Cleared client cache for chain ${chainId}`)
-    } else {
-      // Clear active and helper clients for chain switches
-      this.clients.delete('active')
-      this.clients.delete('helper')
-      console.log('🧹 Cleared active and helper client cache')
-    }
+  clearChainCache(chainId: number): void {
+    this.clients.delete(chainId)
+    console.log(`🧹 Cleared client cache for chain ${chainId}`)
   }
-  
-  /**
-   * Get client by chain ID (for future extensibility)
-   */
-  async getClientByChainId(chainId: number): Promise<PublicClient> {
-    const key = chainId.toString()
-    
-    if (!this.clients.has(key)) {
-      console.log(`🔧 Creating client for chain ${chainId}...`)
-      
-      if (chainId === 10143) { // Monad Testnet
-        const client = await createConfigDrivenPublicClient()
-        this.clients.set(key, client)
-      } else if (chainId === 43113) { // Avalanche Fuji
-        const client = await this.getHelperClient()
-        this.clients.set(key, client)
-      } else {
-        throw new Error(`Unsupported chain ID: ${chainId}`)
-      }
-      
-      console.log(`✅ Client for chain ${chainId} created and cached`)
+
+  private getClientForConfig(config: ChainConfig | HelperChainConfig): PublicClient {
+    let client = this.clients.get(config.chainId)
+    if (!client) {
+      console.log(`🔧 Creating client for ${config.name} (${config.chainId})...`)
+      client = createPublicClient({
+        chain: createChainFromConfig(config),
+        transport: createChainTransport(config)
+      }) as PublicClient
+      this.clients.set(config.chainId, client)
+      console.log(`✅ Client for ${config.name} (${config.chainId}) created and cached`)
     }
-    
-    return this.clients.get(key)!
+    return client
   }
 }
 
@@ -110,4 +101,17 @@ export async function getPublicClient(): Promise<PublicClient> {
  */
 export async function getHelperPublicClient(): Promise<PublicClient> {
   return PublicClientService.getInstance().getHelperClient()
-} 
\ No newline at end of file
+} 
+/**
+ * Convenience function for getting a client for any configured chain by name
+ */
+export async function getChainPublicClient(chainName: string): Promise<PublicClient> {
+  return PublicClientService.getInstance().getClientByChainName(chainName)
+}
+
+/**
+ * Convenience function for getting a client for any configured chain by ID
+ */
+export async function getPublicClientByChainId(chainId: number): Promise<PublicClient> {
+  return PublicClientService.getInstance().getClientByChainId(chainId)
+}
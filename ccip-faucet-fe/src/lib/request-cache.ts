@@ -1,11 +1,51 @@
 // Request caching and deduplication for RPC calls
 // Phase 3B: Intelligent caching to prevent duplicate calls
 
+/**
+ * Every entry belongs to one chain + contract (the contract being read, or the token/account
+ * for balance reads), so a chain switch can never serve another chain's data
+ */
+export interface CacheScope {
+  chainId: number
+  contract: string
+}
+
+export interface CacheReadOptions {
+  ttl?: number
+  /** Serve expired or invalidated data immediately and refresh it in the background */
+  staleWhileRevalidate?: boolean
+}
+
+export interface CacheReadResult<T> {
+  data: T
+  /** True when `data` was served past its TTL (or after an invalidation) */
+  stale: boolean
+  /** Background refresh for stale data - resolves with the fresh value */
+  revalidation: Promise<T> | null
+}
+
+/**
+ * Structured invalidation filter - every given field must match
+ */
+export interface CacheInvalidationFilter {
+  chainId?: number
+  contract?: string
+  functionNames?: readonly string[]
+  /** Only entries whose args contain this value (case-insensitive for addresses) */
+  arg?: string
+}
+
 interface CacheEntry<T> {
   data: T
   timestamp: number
   expiresAt: number
+  /** Set by invalidate() - the entry counts as expired from then on, but keeps its expiresAt */
+  invalidatedAt?: number
   isLoading: boolean
+  // NEW: Structured key parts so invalidation never relies on substring matching
+  scope: CacheScope
+  functionName: string
+  args: string[]
 }
 
 interface PendingRequest<T> {
@@ -13,6 +53,25 @@ interface PendingRequest<T> {
   timestamp: number
 }
 
+// Stale entries are kept this long past expiry for stale-while-revalidate reads
+const MAX_STALE_AGE = 10 * 60 * 1000
+
+/**
+ * When an entry went stale: its TTL expiry, or an earlier invalidation
+ */
+function staleSince(entry: CacheEntry<unknown>): number {
+  return entry.invalidatedAt !== undefined ? Math.min(entry.invalidatedAt, entry.expiresAt) : entry.expiresAt
+}
+
+function isFresh(entry: CacheEntry<unknown>, now: number): boolean {
+  return entry.invalidatedAt === undefined && now < entry.expiresAt
+}
+
+function serializeArg(value: unknown): string {
+  const serialized = JSON.stringify(value, (_key, inner) => typeof inner === 'bigint' ? inner.toString() : inner)
+  return typeof value === 'string' ? value.toLowerCase() : serialized
+}
+
 class RequestCache {
   private cache = new Map<string, CacheEntry<any>>()
   private pendingRequests = new Map<string, PendingRequest<any>>()
@@ -57,63 +116,24 @@ class RequestCache {
   }
 
   /**
-   * Generate cache key from function name and arguments
-   */
-  private generateKey(functionName: string, args: any[]): string {
-    const argsStr = JSON.stringify(args, (key, value) => {
-      // Handle BigInt serialization
-      if (typeof value === 'bigint') {
-        return value.toString()
-      }
-      return value
-    })
-    return `${functionName}:${argsStr}`
-  }
-
-  /**
-   * Get cached data if available and not expired
-   */
-  private getCachedData<T>(key: string): T | null {
-    const entry = this.cache.get(key)
-    if (!entry) return null
-    
-    const now = Date.now()
-    if (now > entry.expiresAt) {
-      this.cache.delete(key)
-      return null
-    }
-    
-    return entry.data
-  }
-
-  /**
-   * Set data in cache
+   * Generate cache key: `<chainId>:<contract>:<function>:<args>`
    */
-  private setCachedData<T>(key: string, data: T, ttl: number = this.defaultTTL): void {
-    const now = Date.now()
-    this.cache.set(key, {
-      data,
-      timestamp: now,
-      expiresAt: now + ttl,
-      isLoading: false
-    })
+  private generateKey(scope: CacheScope, functionName: string, args: string[]): string {
+    return `${scope.chainId}:${scope.contract.toLowerCase()}:${functionName}:${args.join(',')}`
   }
 
   /**
-   * Get cached data or execute function if cache miss/expired
+   * Fetch, store and deduplicate a read (shared by cache misses and background revalidation)
    */
-  async get<T>(
+  private fetchAndStore<T>(
+    key: string,
+    scope: CacheScope,
     functionName: string,
+    args: string[],
     fn: () => Promise<T>,
-    args: any[] = [],
-    ttl?: number
+    ttl: number
   ): Promise<T> {
-    // Use smart TTL if not explicitly provided
-    const cacheTTL = ttl ?? this.getTTLForFunction(functionName)
-    const key = this.generateKey(functionName, args)
     const now = Date.now()
-    
-    // Check for pending request first (deduplication)
     const pending = this.pendingRequests.get(key)
     if (pending && (now - pending.timestamp) < 30000) { // 30s timeout for pending
       // PHASE 4D: Reduced console.log noise - only log in development
@@ -122,93 +142,132 @@ class RequestCache {
       }
       return pending.promise
     }
+
+    const cached = this.cache.get(key)
+    if (cached) cached.isLoading = true
+
+    const promise = fn()
+      .then((result) => {
+        const storedAt = Date.now()
+        this.cache.set(key, {
+          data: result,
+          timestamp: storedAt,
+          expiresAt: storedAt + ttl,
+          isLoading: false,
+          scope,
+          functionName,
+          args,
+        })
+
+        // PHASE 4D: Reduced console.log noise
+        if (process.env.NODE_ENV === 'development') {
+          console.log(`✅ Cached: ${functionName} (chain ${scope.chainId})`)
+        }
+        return result
+      })
+      .catch((error) => {
+        if (cached) cached.isLoading = false
+        throw error
+      })
+      .finally(() => {
+        this.pendingRequests.delete(key)
+      })
+
+    // Store pending request for deduplication
+    this.pendingRequests.set(key, { promise, timestamp: now })
+    return promise
+  }
+
+  /**
+   * Read through the cache and report whether the data was stale
+   */
+  async read<T>(
+    scope: CacheScope,
+    functionName: string,
+    fn: () => Promise<T>,
+    args: unknown[] = [],
+    options: CacheReadOptions = {}
+  ): Promise<CacheReadResult<T>> {
+    // Use smart TTL if not explicitly provided
+    const cacheTTL = options.ttl ?? this.getTTLForFunction(functionName)
+    const serializedArgs = args.map(serializeArg)
+    const key = this.generateKey(scope, functionName, serializedArgs)
+    const now = Date.now()
     
-    // Check cache
     const cached = this.cache.get(key)
-    if (cached && now < cached.expiresAt && !cached.isLoading) {
+    if (cached && isFresh(cached, now)) {
       // PHASE 4D: Reduced console.log noise - only log in development
       if (process.env.NODE_ENV === 'development') {
         console.log(`✅ Cache hit: ${functionName}`, { 
-          data: functionName === 'getTreasuryStatus' ? cached.data : 'data',
+          chainId: scope.chainId,
           age: Math.round((now - cached.timestamp) / 1000) + 's'
         })
       }
-      return cached.data
+      return { data: cached.data, stale: false, revalidation: null }
+    }
+
+    // NEW: Stale-while-revalidate - hand back what we have, refresh behind it
+    if (cached && options.staleWhileRevalidate && now - staleSince(cached) < MAX_STALE_AGE) {
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`♻️ Serving stale ${functionName} while revalidating`)
+      }
+      const revalidation = this.fetchAndStore(key, scope, functionName, serializedArgs, fn, cacheTTL)
+      revalidation.catch((error) => console.warn(`⚠️ Background revalidation failed for ${functionName}:`, error))
+      return { data: cached.data, stale: true, revalidation }
     }
     
     // Cache miss or expired - execute function
     // PHASE 4D: Only log cache misses in development
     if (process.env.NODE_ENV === 'development') {
       console.log(`🔄 Cache miss: ${functionName}`, { 
+        chainId: scope.chainId,
         reason: !cached ? 'not_found' : 'expired',
         ttl: Math.round(cacheTTL / 1000) + 's'
       })
     }
     
-    const promise = fn()
-    
-    // Store pending request for deduplication
-    this.pendingRequests.set(key, { promise, timestamp: now })
-    
-    // Mark as loading
-    if (cached) {
-      cached.isLoading = true
-    }
-    
-    try {
-      const result = await promise
-      
-      // Store in cache
-      this.cache.set(key, {
-        data: result,
-        timestamp: now,
-        expiresAt: now + cacheTTL,
-        isLoading: false,
-      })
-      
-      // PHASE 4D: Only log treasury data in development
-      if (process.env.NODE_ENV === 'development' && functionName === 'getTreasuryStatus') {
-        console.log(`💰 Cached treasury data:`, result)
-      }
-      
-      // PHASE 4D: Reduced console.log noise
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`✅ Cached: ${functionName}`)
-      }
-      
-      return result
-    } catch (error) {
-      // Remove failed request from pending
-      this.pendingRequests.delete(key)
-      
-      // Mark as not loading
-      if (cached) {
-        cached.isLoading = false
-      }
-      
-      throw error
-    } finally {
-      // Remove from pending requests
-      this.pendingRequests.delete(key)
-    }
+    const data = await this.fetchAndStore(key, scope, functionName, serializedArgs, fn, cacheTTL)
+    return { data, stale: false, revalidation: null }
   }
 
   /**
-   * Invalidate cache entries by pattern
+   * Get cached data or execute function if cache miss/expired
    */
-  invalidate(pattern: string): void {
-    const keysToDelete: string[] = []
-    
-    for (const key of this.cache.keys()) {
-      if (key.includes(pattern)) {
-        keysToDelete.push(key)
-      }
+  async get<T>(
+    scope: CacheScope,
+    functionName: string,
+    fn: () => Promise<T>,
+    args: unknown[] = [],
+    ttl?: number
+  ): Promise<T> {
+    const { data } = await this.read(scope, functionName, fn, args, { ttl })
+    return data
+  }
+
+  /**
+   * Mark matching entries stale. Plain reads refetch them; stale-while-revalidate
+   * reads keep serving them until the refresh lands.
+   */
+  invalidate(filter: CacheInvalidationFilter = {}): number {
+    const arg = filter.arg?.toLowerCase()
+    const now = Date.now()
+    let count = 0
+
+    for (const entry of this.cache.values()) {
+      if (filter.chainId !== undefined && entry.scope.chainId !== filter.chainId) continue
+      if (filter.contract && entry.scope.contract.toLowerCase() !== filter.contract.toLowerCase()) continue
+      if (filter.functionNames && !filter.functionNames.includes(entry.functionName)) continue
+      if (arg && !entry.args.includes(arg)) continue
+
+      // expiresAt stays as is - stale-while-revalidate age and cleanup count from the invalidation
+      entry.invalidatedAt = entry.invalidatedAt ?? now
+      count++
     }
-    
-    keysToDelete.forEach(key => {
-      this.cache.delete(key)
-      console.log(`🗑️ Invalidated cache for ${key}`)
-    })
+
+    if (count > 0) {
+      console.log(`🗑️ Invalidated ${count} cache entries`, filter)
+    }
+    return count
   }
 
   /**
@@ -227,19 +286,20 @@ class RequestCache {
     return {
       cacheSize: this.cache.size,
       pendingRequests: this.pendingRequests.size,
-      entries: Array.from(this.cache.keys())
+      entries: Array.from(this.cache.keys()),
+      staleEntries: Array.from(this.cache.values()).filter(entry => !isFresh(entry, Date.now())).length,
     }
   }
 
   /**
-   * Clean up expired entries
+   * Drop entries that are too old even for stale-while-revalidate
    */
   cleanup(): void {
     const now = Date.now()
     const expiredKeys: string[] = []
     
     for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
+      if (now > staleSince(entry) + MAX_STALE_AGE) {
         expiredKeys.push(key)
       }
     }
@@ -264,37 +324,105 @@ setInterval(() => {
  * Wrapper for contract read operations with caching
  */
 export async function cachedContractRead<T>(
+  scope: CacheScope,
   functionName: string,
   contractCall: () => Promise<T>,
-  args: any[] = [],
+  args: unknown[] = [],
   ttl: number = 30 * 1000 // 30 seconds default
 ): Promise<T> {
-  return requestCache.get(functionName, contractCall, args, ttl)
+  return requestCache.get(scope, functionName, contractCall, args, ttl)
 }
 
 /**
- * Invalidate cache when user performs write operations
+ * Stale-while-revalidate contract read - never waits on the network when any cached value exists
  */
-export function invalidateUserCache(userAddress?: string): void {
-  if (userAddress) {
-    requestCache.invalidate(userAddress.toLowerCase())
-  }
-  requestCache.invalidate('getReservoirStatus')
-  requestCache.invalidate('getTreasuryStatus')
-  requestCache.invalidate('COOLDOWN')
-  // 🆕 Clear user balance caches for chain switches
-  requestCache.invalidate('userNativeBalance') 
-  requestCache.invalidate('userLinkBalance')
-  console.log('💰 User balance caches invalidated for chain switch')
+export function swrContractRead<T>(
+  scope: CacheScope,
+  functionName: string,
+  contractCall: () => Promise<T>,
+  args: unknown[] = [],
+  ttl: number = 30 * 1000
+): Promise<CacheReadResult<T>> {
+  return requestCache.read(scope, functionName, contractCall, args, { ttl, staleWhileRevalidate: true })
 }
 
+// ---------------------------------------------------------------------------
+// Event-driven invalidation
+// ---------------------------------------------------------------------------
+
+// Faucet reads cached through faucetClient
+const FAUCET_READS = [
+  'getReservoirStatus',
+  'getTreasuryStatus',
+  'COOLDOWN',
+  'thresholdFactor',
+  'BASENATIVEDRIPRATE',
+  'BASELINKDRIPRATE',
+  'lastClaimNative',
+  'lastClaimLink',
+] as const
+
+/**
+ * Faucet events that change cached reads, and the reads each one affects
+ */
+const EVENT_INVALIDATIONS = {
+  Drip: ['getReservoirStatus', 'lastClaimNative', 'lastClaimLink'],
+  ReservoirRefilled: ['getReservoirStatus', 'getTreasuryStatus'],
+  Deposit: ['getTreasuryStatus'],
+  EmergencyWithdrawal: ['getReservoirStatus', 'getTreasuryStatus'],
+  // Owner setters (capacities are part of getTreasuryStatus)
+  CooldownUpdated: ['COOLDOWN'],
+  ThresholdFactorUpdated: ['thresholdFactor', 'getTreasuryStatus'],
+  CapacityFactorUpdated: ['getTreasuryStatus'],
+  ReservoirCapacityUpdated: ['getReservoirStatus', 'getTreasuryStatus'],
+} as const satisfies Record<string, readonly (typeof FAUCET_READS)[number][]>
+
+export type CacheInvalidatingEvent = keyof typeof EVENT_INVALIDATIONS
+
 /**
- * Invalidate cache when tank balances change
+ * Minimal decoded-event shape (DecodedFaucetLog from contract-events, or the polling worker's summary)
  */
-export function invalidateTankCache(): void {
-  requestCache.invalidate('getReservoirStatus')
-  requestCache.invalidate('getTreasuryStatus')
-  requestCache.invalidate('balanceOf')
+export interface FaucetCacheEvent {
+  eventName: string
+  args?: unknown
+}
+
+function isInvalidatingEvent(eventName: string): eventName is CacheInvalidatingEvent {
+  return eventName in EVENT_INVALIDATIONS
+}
+
+/**
+ * Invalidate the faucet reads affected by decoded faucet events on one chain.
+ * Drip only invalidates the claimant's lastClaim entries; tank reads are shared.
+ */
+export function invalidateForFaucetEvents(chainId: number, faucetAddress: string, events: readonly FaucetCacheEvent[]): void {
+  events.forEach(event => {
+    if (!isInvalidatingEvent(event.eventName)) return
+
+    const functionNames = EVENT_INVALIDATIONS[event.eventName]
+    if (event.eventName === 'Drip') {
+      requestCache.invalidate({ chainId, contract: faucetAddress, functionNames: ['getReservoirStatus'] })
+      requestCache.invalidate({
+        chainId,
+        contract: faucetAddress,
+        functionNames: ['lastClaimNative', 'lastClaimLink'],
+        arg: (event.args as { user?: string } | undefined)?.user,
+      })
+      return
+    }
+    requestCache.invalidate({ chainId, contract: faucetAddress, functionNames })
+  })
+}
+
+/**
+ * Invalidate a user's balance and claim entries (after their own transactions)
+ */
+export function invalidateUserCache(userAddress?: string): void {
+  if (userAddress) {
+    requestCache.invalidate({ arg: userAddress })
+  }
+  requestCache.invalidate({ functionNames: ['userNativeBalance', 'userLinkBalance', 'balanceOf'] })
+  console.log('💰 User balance caches invalidated')
 }
 
 /**
@@ -302,12 +430,6 @@ export function invalidateTankCache(): void {
  * This ensures fresh data from blockchain when admin clicks refresh
  */
 export function invalidateAllFaucetCache(): void {
-  requestCache.invalidate('getReservoirStatus')
-  requestCache.invalidate('getTreasuryStatus')
-  requestCache.invalidate('COOLDOWN')
-  requestCache.invalidate('thresholdFactor')
-  requestCache.invalidate('balanceOf')
-  requestCache.invalidate('userNativeBalance')  // Generic: was 'userMonBalance'
-  requestCache.invalidate('userLinkBalance')
+  requestCache.invalidate({ functionNames: [...FAUCET_READS, 'balanceOf', 'userNativeBalance', 'userLinkBalance'] })
   console.log('🗑️ All faucet cache invalidated - next calls will hit blockchain')
-} 
\ No newline at end of file
+}
@@ -0,0 +1,302 @@
+// RPC endpoint pool - health-scored routing with automatic failover
+// A chain's `rpcUrl` may list several endpoints: reads go to the healthiest one and fail over
+// to the next when it errors, times out or rate-limits
+// NOTE: No '@/' or config imports here - the polling worker builds its own pool from the PollingTarget
+
+import { custom, http, shouldThrow, type EIP1193RequestFn, type Transport } from 'viem'
+
+// Per-request timeout before an endpoint counts as failed
+const REQUEST_TIMEOUT = 10 * 1000
+// Head-block probe cadence (only pools with more than one endpoint are probed)
+const PROBE_INTERVAL = 30 * 1000
+// Consecutive failures that bench an endpoint, and for how long
+const MAX_CONSECUTIVE_FAILURES = 3
+const COOLDOWN_PERIOD = 30 * 1000
+// EWMA weights of the newest sample
+const LATENCY_ALPHA = 0.3
+const ERROR_ALPHA = 0.2
+// Score inputs: latency assumed before the first sample, and cost of each block behind the pool's head
+const DEFAULT_LATENCY_MS = 500
+const BLOCK_LAG_PENALTY_MS = 200
+
+// JSON-RPC error codes that point at the endpoint (overloaded, rate-limited) rather than the request
+const ENDPOINT_ERROR_CODES = new Set([-1, -32603, -32005, -32007, 429])
+
+/**
+ * Health of one endpoint (plain data - posted from the polling worker as-is)
+ */
+export interface RpcEndpointHealth {
+  url: string
+  /** EWMA of request latency in ms, null before the first response */
+  latencyMs: number | null
+  /** EWMA of the failure rate (0-1) */
+  errorRate: number
+  requests: number
+  failures: number
+  /** Head block at the last probe, null when never probed */
+  blockNumber: number | null
+  /** Blocks behind the highest endpoint of the pool at the last probe */
+  blockLag: number
+  /** Benched after consecutive failures until this time (0 when available) */
+  cooldownUntil: number
+  lastError: string | null
+  /** Routing score - lower is better, Infinity while cooling down */
+  score: number
+}
+
+export interface RpcPoolHealth {
+  chainId: number
+  endpoints: RpcEndpointHealth[]
+  /** Endpoint the next read goes to */
+  activeUrl: string | null
+  probedAt: number | null
+}
+
+interface EndpointState extends Omit<RpcEndpointHealth, 'score'> {
+  request: EIP1193RequestFn
+  consecutiveFailures: number
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return (error as Error & { shortMessage?: string }).shortMessage ?? error.message
+  return String(error)
+}
+
+/**
+ * Whether an error means "try another endpoint" - transport failures, timeouts and rate limits do,
+ * answers about the request itself (reverts, invalid params, user rejections) don't
+ */
+function isEndpointFailure(error: unknown): boolean {
+  if (!(error instanceof Error)) return true
+  if (shouldThrow(error)) return false
+  const code = (error as Error & { code?: unknown }).code
+  if (typeof code === 'number') return ENDPOINT_ERROR_CODES.has(code)
+  return true
+}
+
+/**
+ * Display form of an endpoint URL - hides API keys in paths and query strings
+ */
+export function maskRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return parsed.pathname.length > 1 ? `${parsed.origin}/…` : parsed.origin
+  } catch {
+    return url.length > 32 ? `${url.substring(0, 32)}…` : url
+  }
+}
+
+/**
+ * Endpoint list from a chain config's `rpcUrl` (single URL or list)
+ * Drops blanks, duplicates and `${VAR}` placeholders whose env var was not set
+ */
+export function normalizeRpcUrls(rpcUrl: string | readonly string[]): string[] {
+  const urls = [...new Set((typeof rpcUrl === 'string' ? [rpcUrl] : rpcUrl).map(url => url.trim()).filter(Boolean))]
+  const resolved = urls.filter(url => !/\$\{[^}]+\}/.test(url))
+
+  if (resolved.length < urls.length) {
+    console.warn(`⚠️ Skipping ${urls.length - resolved.length} RPC endpoint(s) with unresolved env vars`)
+  }
+  // Nothing usable - keep the raw entries so requests fail with the placeholder in the error
+  return resolved.length > 0 ? resolved : urls
+}
+
+export class RpcPool {
+  readonly chainId: number
+  private endpoints: EndpointState[]
+  private probedAt: number | null = null
+  private probing: Promise<void> | null = null
+
+  constructor(chainId: number, urls: string[]) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`)
+    }
+    this.chainId = chainId
+    this.endpoints = urls.map(url => ({
+      url,
+      request: http(url, { retryCount: 0, timeout: REQUEST_TIMEOUT })({ retryCount: 0 }).request,
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      blockNumber: null,
+      blockLag: 0,
+      cooldownUntil: 0,
+      lastError: null,
+      consecutiveFailures: 0,
+    }))
+  }
+
+  /**
+   * viem transport that routes every request through the pool
+   */
+  transport(): Transport {
+    return custom(
+      { request: ({ method, params }) => this.request(method, params) },
+      { key: 'rpcPool', name: 'RPC Pool', retryCount: 0 }
+    )
+  }
+
+  getHealth(): RpcPoolHealth {
+    const ranked = this.ranked()
+    return {
+      chainId: this.chainId,
+      endpoints: this.endpoints.map(endpoint => ({
+        url: endpoint.url,
+        latencyMs: endpoint.latencyMs,
+        errorRate: endpoint.errorRate,
+        requests: endpoint.requests,
+        failures: endpoint.failures,
+        blockNumber: endpoint.blockNumber,
+        blockLag: endpoint.blockLag,
+        cooldownUntil: endpoint.cooldownUntil,
+        lastError: endpoint.lastError,
+        score: this.score(endpoint),
+      })),
+      activeUrl: ranked[0]?.url ?? null,
+      probedAt: this.probedAt,
+    }
+  }
+
+  /**
+   * Probe every endpoint's head block now (latency + block lag); concurrent calls share one probe
+   */
+  probe(): Promise<void> {
+    if (!this.probing) {
+      this.probing = this.runProbe().finally(() => {
+        this.probing = null
+      })
+    }
+    return this.probing
+  }
+
+  private async runProbe(): Promise<void> {
+    this.probedAt = Date.now()
+
+    const heads = await Promise.all(this.endpoints.map(async (endpoint) => {
+      const startedAt = Date.now()
+      try {
+        const head = Number(BigInt(await endpoint.request({ method: 'eth_blockNumber' }) as string))
+        this.recordSuccess(endpoint, Date.now() - startedAt)
+        endpoint.blockNumber = head
+        return head
+      } catch (error) {
+        this.recordFailure(endpoint, error)
+        return null
+      }
+    }))
+
+    const highest = Math.max(...heads.map(head => head ?? 0))
+    this.endpoints.forEach((endpoint, index) => {
+      const head = heads[index]
+      // Unreachable endpoints keep their last lag - their error rate already demotes them
+      if (head !== null) endpoint.blockLag = highest - head
+    })
+  }
+
+  private async request(method: string, params: unknown): Promise<unknown> {
+    // Lazy probing - no timers to clean up when a pool stops being used
+    if (this.endpoints.length > 1 && Date.now() - (this.probedAt ?? 0) > PROBE_INTERVAL) {
+      void this.probe()
+    }
+
+    const ranked = this.ranked()
+    let lastError: unknown
+
+    for (const [index, endpoint] of ranked.entries()) {
+      const startedAt = Date.now()
+      try {
+        const result = await endpoint.request({ method, params } as Parameters<EIP1193RequestFn>[0])
+        this.recordSuccess(endpoint, Date.now() - startedAt)
+        return result
+      } catch (error) {
+        if (!isEndpointFailure(error)) {
+          // The endpoint answered - the request itself failed, another endpoint would say the same
+          this.recordSuccess(endpoint, Date.now() - startedAt)
+          throw error
+        }
+        this.recordFailure(endpoint, error)
+        lastError = error
+        if (index < ranked.length - 1) {
+          console.warn(`🔀 RPC ${maskRpcUrl(endpoint.url)} failed for ${method} on chain ${this.chainId}, failing over:`, errorMessage(error))
+        }
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Endpoints best-first; benched endpoints go last (still tried when everything else fails)
+   */
+  private ranked(): EndpointState[] {
+    return [...this.endpoints].sort((a, b) => this.score(a) - this.score(b))
+  }
+
+  private score(endpoint: Omit<RpcEndpointHealth, 'score'>): number {
+    if (endpoint.cooldownUntil > Date.now()) return Infinity
+    const latency = endpoint.latencyMs ?? DEFAULT_LATENCY_MS
+    return latency * (1 + 4 * endpoint.errorRate) + endpoint.blockLag * BLOCK_LAG_PENALTY_MS
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.requests++
+    endpoint.consecutiveFailures = 0
+    endpoint.cooldownUntil = 0
+    endpoint.errorRate = endpoint.errorRate * (1 - ERROR_ALPHA)
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_ALPHA) + latencyMs * LATENCY_ALPHA
+  }
+
+  private recordFailure(endpoint: EndpointState, error: unknown): void {
+    endpoint.requests++
+    endpoint.failures++
+    endpoint.consecutiveFailures++
+    endpoint.errorRate = endpoint.errorRate * (1 - ERROR_ALPHA) + ERROR_ALPHA
+    endpoint.lastError = errorMessage(error)
+
+    if (endpoint.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES && endpoint.cooldownUntil <= Date.now()) {
+      endpoint.cooldownUntil = Date.now() + COOLDOWN_PERIOD
+      console.warn(`🚫 RPC ${maskRpcUrl(endpoint.url)} benched for ${COOLDOWN_PERIOD / 1000}s after ${endpoint.consecutiveFailures} failures (chain ${this.chainId})`)
+    }
+  }
+}
+
+// One pool per chain + endpoint list, so health survives client re-creation on chain switches
+const pools = new Map<string, RpcPool>()
+
+/**
+ * Shared pool for a chain's endpoint list
+ */
+export function getRpcPool(chainId: number, urls: string[]): RpcPool {
+  const key = `${chainId}:${urls.join(',')}`
+  let pool = pools.get(key)
+  if (!pool) {
+    pool = new RpcPool(chainId, urls)
+    pools.set(key, pool)
+    console.log(`🔌 RPC pool for chain ${chainId}: ${urls.length} endpoint(s)`)
+  }
+  return pool
+}
+
+/**
+ * Pooled transport for a chain config's `rpcUrl` (single URL or list)
+ */
+export function createRpcPoolTransport(chainId: number, rpcUrl: string | readonly string[]): Transport {
+  return getRpcPool(chainId, normalizeRpcUrls(rpcUrl)).transport()
+}
+
+/**
+ * Health of every pool created in this context (main thread or worker)
+ */
+export function getRpcPoolHealth(): RpcPoolHealth[] {
+  return [...pools.values()].map(pool => pool.getHealth())
+}
+
+/**
+ * Drop every pool and its health history
+ */
+export function clearRpcPoolCache(): void {
+  pools.clear()
+}
@@ -0,0 +1,294 @@
+// Safe multisig proposals for owner actions
+// When the faucet owner is a Safe, owner actions are exported (Transaction Builder JSON or raw to/value/data)
+// instead of sent. Exported calls are tracked by calldata hash until the Safe executes them on-chain.
+
+import {
+  decodeFunctionData,
+  keccak256,
+  parseAbi,
+  parseAbiItem,
+  sliceHex,
+  hexToNumber,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+import { scanLogs } from './log-scanner'
+
+/**
+ * Faucet owner that is a Safe (owners / threshold read from the contract)
+ */
+export interface SafeInfo {
+  address: `0x${string}`
+  owners: `0x${string}`[]
+  threshold: number
+}
+
+/**
+ * One owner call, ready for a Safe batch
+ */
+export interface SafeProposalTx {
+  /** e.g. `setCooldown(21600)` */
+  label: string
+  to: `0x${string}`
+  value: bigint
+  data: Hex
+}
+
+export interface TrackedSafeProposal {
+  calldataHash: Hex
+  to: `0x${string}`
+  label: string
+  createdAt: number
+  /** Block the proposal was exported at - execution is searched from here */
+  fromBlock: string
+  executedTxHash?: `0x${string}`
+  executedBlock?: string
+}
+
+export const SAFE_ABI = parseAbi([
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)',
+])
+
+const MULTISEND_ABI = parseAbi(['function multiSend(bytes transactions) payable'])
+
+// Same signature in Safe 1.3 (txHash not indexed) and 1.4 (indexed) - only the tx hash is used
+const EXECUTION_SUCCESS = parseAbiItem('event ExecutionSuccess(bytes32 txHash, uint256 payment)')
+
+const STORAGE_PREFIX = 'safe-proposals:'
+// Execution tx hashes past the scan checkpoint that could not be fetched / decoded yet
+const RETRY_PREFIX = 'safe-proposals-retry:'
+
+/**
+ * Read owners / threshold; null when the address is not a Safe (EOA or another contract)
+ */
+export async function readSafeInfo(client: PublicClient, address: `0x${string}`): Promise<SafeInfo | null> {
+  const code = await client.getCode({ address })
+  if (!code || code === '0x') return null
+
+  try {
+    const [owners, threshold] = await Promise.all([
+      client.readContract({ address, abi: SAFE_ABI, functionName: 'getOwners' }),
+      client.readContract({ address, abi: SAFE_ABI, functionName: 'getThreshold' }),
+    ])
+    return { address, owners: [...owners], threshold: Number(threshold) }
+  } catch {
+    return null
+  }
+}
+
+export function isSafeOwner(safe: SafeInfo | null | undefined, account?: string | null): boolean {
+  if (!safe || !account) return false
+  return safe.owners.some(owner => owner.toLowerCase() === account.toLowerCase())
+}
+
+/**
+ * Identifies a call independent of how the Safe batches it
+ */
+export function getCalldataHash(data: Hex): Hex {
+  return keccak256(data)
+}
+
+/**
+ * Safe Transaction Builder batch file (Safe{Wallet} → Apps → Transaction Builder → drag & drop)
+ */
+export function buildSafeTransactionBatch(chainId: number, safe: `0x${string}`, transactions: SafeProposalTx[]) {
+  return {
+    version: '1.0',
+    chainId: String(chainId),
+    createdAt: Date.now(),
+    meta: {
+      name: `Faucet owner actions (${transactions.length})`,
+      description: transactions.map(tx => tx.label).join('\n'),
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: safe,
+      createdFromOwnerAddress: '',
+    },
+    transactions: transactions.map(tx => ({
+      to: tx.to,
+      value: tx.value.toString(),
+      data: tx.data,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  }
+}
+
+/**
+ * Plain to/value/data tuples (for other multisig UIs or the Safe CLI)
+ */
+export function toRawTransactions(transactions: SafeProposalTx[]) {
+  return transactions.map(tx => ({ to: tx.to, value: tx.value.toString(), data: tx.data }))
+}
+
+// -------------------------------------------------------------------------
+// Tracking
+// -------------------------------------------------------------------------
+
+function storageKey(chainId: number, safe: string): string {
+  return `${STORAGE_PREFIX}${chainId}:${safe.toLowerCase()}`
+}
+
+export function loadTrackedProposals(chainId: number, safe: string): TrackedSafeProposal[] {
+  try {
+    const stored = localStorage.getItem(storageKey(chainId, safe))
+    return stored ? JSON.parse(stored) as TrackedSafeProposal[] : []
+  } catch {
+    return []
+  }
+}
+
+export function saveTrackedProposals(chainId: number, safe: string, proposals: TrackedSafeProposal[]): void {
+  try {
+    localStorage.setItem(storageKey(chainId, safe), JSON.stringify(proposals))
+  } catch (error) {
+    console.warn('⚠️ Failed to persist Safe proposals:', error)
+  }
+}
+
+function loadRetryHashes(chainId: number, safe: string): `0x${string}`[] {
+  try {
+    const stored = localStorage.getItem(`${RETRY_PREFIX}${chainId}:${safe.toLowerCase()}`)
+    return stored ? JSON.parse(stored) as `0x${string}`[] : []
+  } catch {
+    return []
+  }
+}
+
+function saveRetryHashes(chainId: number, safe: string, hashes: `0x${string}`[]): void {
+  try {
+    const key = `${RETRY_PREFIX}${chainId}:${safe.toLowerCase()}`
+    if (hashes.length === 0) localStorage.removeItem(key)
+    else localStorage.setItem(key, JSON.stringify(hashes))
+  } catch (error) {
+    console.warn('⚠️ Failed to persist Safe execution retries:', error)
+  }
+}
+
+/**
+ * Remember exported calls (the same calldata exported twice is tracked once)
+ */
+export function trackProposals(
+  chainId: number,
+  safe: string,
+  transactions: SafeProposalTx[],
+  fromBlock: bigint
+): TrackedSafeProposal[] {
+  const tracked = loadTrackedProposals(chainId, safe)
+  for (const tx of transactions) {
+    const calldataHash = getCalldataHash(tx.data)
+    if (tracked.some(entry => entry.calldataHash === calldataHash && !entry.executedTxHash)) continue
+    tracked.push({ calldataHash, to: tx.to, label: tx.label, createdAt: Date.now(), fromBlock: fromBlock.toString() })
+  }
+  saveTrackedProposals(chainId, safe, tracked)
+  return tracked
+}
+
+interface InnerCall {
+  to: `0x${string}`
+  data: Hex
+}
+
+/**
+ * Unpack MultiSend's packed (operation, to, value, dataLength, data) entries
+ */
+function decodeMultiSend(transactions: Hex): InnerCall[] {
+  const calls: InnerCall[] = []
+  const size = (transactions.length - 2) / 2
+  let offset = 0
+  while (offset < size) {
+    const to = sliceHex(transactions, offset + 1, offset + 21)
+    const dataLength = hexToNumber(sliceHex(transactions, offset + 53, offset + 85))
+    const data = dataLength > 0 ? sliceHex(transactions, offset + 85, offset + 85 + dataLength) : '0x'
+    calls.push({ to, data })
+    offset += 85 + dataLength
+  }
+  return calls
+}
+
+/**
+ * Calls an execTransaction input carried out (one, or several when it delegatecalls MultiSend)
+ */
+function decodeSafeExecution(input: Hex): InnerCall[] {
+  let decoded
+  try {
+    decoded = decodeFunctionData({ abi: SAFE_ABI, data: input })
+  } catch {
+    // Module / relayer executions - not an execTransaction call, nothing to match
+    return []
+  }
+  if (decoded.functionName !== 'execTransaction') return []
+  const [to, , data] = decoded.args
+  try {
+    const inner = decodeFunctionData({ abi: MULTISEND_ABI, data })
+    return decodeMultiSend(inner.args[0])
+  } catch {
+    return [{ to, data }]
+  }
+}
+
+/**
+ * Match pending proposals against the Safe's executions since the oldest pending export
+ * Executions not submitted through execTransaction directly (modules, relayers) are skipped
+ */
+export async function refreshTrackedProposals(
+  client: PublicClient,
+  chainId: number,
+  safe: `0x${string}`
+): Promise<TrackedSafeProposal[]> {
+  const tracked = loadTrackedProposals(chainId, safe)
+  const pending = tracked.filter(entry => !entry.executedTxHash)
+  if (pending.length === 0) return tracked
+
+  const fromBlock = pending.reduce((min, entry) => {
+    const block = BigInt(entry.fromBlock)
+    return block < min ? block : min
+  }, BigInt(pending[0].fromBlock))
+
+  // Checkpointed - later refreshes only scan new blocks. Executions that fail to load are kept
+  // and retried, since the checkpoint has already moved past them
+  const { logs } = await scanLogs({ client, address: safe, event: EXECUTION_SUCCESS, fromBlock, checkpointId: 'safe-executions' })
+  const txHashes = [...new Set([
+    ...loadRetryHashes(chainId, safe),
+    ...logs.map(log => log.transactionHash).filter(Boolean),
+  ])] as `0x${string}`[]
+  const unresolved: `0x${string}`[] = []
+
+  for (const hash of txHashes) {
+    try {
+      const tx = await client.getTransaction({ hash })
+      for (const call of decodeSafeExecution(tx.input)) {
+        const calldataHash = getCalldataHash(call.data)
+        const match = pending.find(entry =>
+          !entry.executedTxHash &&
+          entry.calldataHash === calldataHash &&
+          entry.to.toLowerCase() === call.to.toLowerCase() &&
+          tx.blockNumber !== null && BigInt(entry.fromBlock) <= tx.blockNumber
+        )
+        if (match) {
+          match.executedTxHash = hash
+          match.executedBlock = tx.blockNumber?.toString()
+          console.log(`✅ Safe executed ${match.label} in ${hash}`)
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not decode Safe execution ${hash}, retrying on the next refresh:`, error)
+      unresolved.push(hash)
+    }
+  }
+
+  saveRetryHashes(chainId, safe, unresolved)
+  saveTrackedProposals(chainId, safe, tracked)
+  return tracked
+}
+
+/**
+ * Forget executed proposals (pending ones stay tracked)
+ */
+export function clearExecutedProposals(chainId: number, safe: string): TrackedSafeProposal[] {
+  const pending = loadTrackedProposals(chainId, safe).filter(entry => !entry.executedTxHash)
+  saveTrackedProposals(chainId, safe, pending)
+  return pending
+}
+
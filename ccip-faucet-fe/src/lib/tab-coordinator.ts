@@ -0,0 +1,204 @@
+// Cross-tab coordination: leader election + message bus
+// BroadcastChannel when the browser has it, localStorage 'storage' events otherwise.
+// Leadership is a localStorage lease renewed by heartbeat, so it passes on automatically when the leader tab closes.
+
+type MessageListener = (payload: unknown) => void
+type LeadershipListener = (isLeader: boolean) => void
+
+interface TabMessage {
+  type: string
+  payload: unknown
+  from: string
+  group: string
+  nonce: number
+}
+
+interface LeaderLease {
+  tabId: string
+  expiresAt: number
+}
+
+const CHANNEL_NAME = 'ccip-faucet-tabs'
+const LEASE_KEY_PREFIX = 'tab-leader:'
+const MESSAGE_KEY = 'tab-message'
+const HEARTBEAT_INTERVAL = 2000
+const LEASE_TTL = 6000 // Three missed heartbeats before another tab takes over
+
+// Internal message used to hand over leadership immediately on close
+const RESIGN_MESSAGE = 'leader-resign'
+
+export class TabCoordinator {
+  private static instance: TabCoordinator
+  readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  private group = 'default'
+  private leader = false
+  private started = false
+  private nonce = 0
+  private channel: BroadcastChannel | null = null
+  private heartbeat: ReturnType<typeof setInterval> | null = null
+  private listeners = new Map<string, Set<MessageListener>>()
+  private leadershipListeners = new Set<LeadershipListener>()
+
+  private constructor() {}
+
+  static getInstance(): TabCoordinator {
+    if (!TabCoordinator.instance) {
+      TabCoordinator.instance = new TabCoordinator()
+    }
+    return TabCoordinator.instance
+  }
+
+  /**
+   * Join the election and start listening for messages (idempotent)
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = (event) => this.handleMessage(event.data as TabMessage)
+    }
+    // Storage events carry fallback messages and lease hand-overs in every browser
+    window.addEventListener('storage', this.handleStorage)
+    window.addEventListener('pagehide', this.handlePageHide)
+
+    this.heartbeat = setInterval(() => this.tick(), HEARTBEAT_INTERVAL)
+    this.tick()
+    console.log(`🗳️ Tab ${this.tabId} joined leader election (${this.channel ? 'BroadcastChannel' : 'localStorage'})`)
+  }
+
+  stop(): void {
+    if (!this.started) return
+    this.resign()
+    if (this.heartbeat) clearInterval(this.heartbeat)
+    this.heartbeat = null
+    this.channel?.close()
+    this.channel = null
+    window.removeEventListener('storage', this.handleStorage)
+    window.removeEventListener('pagehide', this.handlePageHide)
+    this.started = false
+  }
+
+  /**
+   * Tabs only elect a leader and exchange messages with tabs in the same group
+   * (the store uses its chain + wallet persist scope)
+   */
+  setGroup(group: string): void {
+    if (group === this.group) return
+    this.resign()
+    this.group = group
+    if (this.started) this.tick()
+  }
+
+  isLeader(): boolean {
+    return this.leader
+  }
+
+  onLeadershipChange(listener: LeadershipListener): () => void {
+    this.leadershipListeners.add(listener)
+    return () => { this.leadershipListeners.delete(listener) }
+  }
+
+  /**
+   * Send a message to every other tab in the group (never delivered to the sender)
+   */
+  publish(type: string, payload: unknown): void {
+    if (!this.started) return
+
+    const message: TabMessage = { type, payload, from: this.tabId, group: this.group, nonce: ++this.nonce }
+    if (this.channel) {
+      this.channel.postMessage(message)
+      return
+    }
+    try {
+      localStorage.setItem(MESSAGE_KEY, JSON.stringify(message))
+    } catch (error) {
+      console.warn('⚠️ Failed to publish cross-tab message:', error)
+    }
+  }
+
+  subscribe(type: string, listener: MessageListener): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set())
+    }
+    this.listeners.get(type)!.add(listener)
+    return () => { this.listeners.get(type)?.delete(listener) }
+  }
+
+  private get leaseKey(): string {
+    return `${LEASE_KEY_PREFIX}${this.group}`
+  }
+
+  private readLease(): LeaderLease | null {
+    try {
+      const raw = localStorage.getItem(this.leaseKey)
+      return raw ? JSON.parse(raw) as LeaderLease : null
+    } catch {
+      return null
+    }
+  }
+
+  private writeLease(): void {
+    try {
+      localStorage.setItem(this.leaseKey, JSON.stringify({ tabId: this.tabId, expiresAt: Date.now() + LEASE_TTL }))
+    } catch (error) {
+      console.warn('⚠️ Failed to write leader lease:', error)
+    }
+  }
+
+  // Renew our lease, or claim an expired one. Two tabs claiming in the same instant
+  // both read back the last writer, so at most one keeps leadership after the next tick.
+  private tick(): void {
+    const lease = this.readLease()
+    if (!lease || lease.tabId === this.tabId || lease.expiresAt < Date.now()) {
+      this.writeLease()
+    }
+    this.setLeader(this.readLease()?.tabId === this.tabId)
+  }
+
+  private resign(): void {
+    if (!this.leader) return
+    if (this.readLease()?.tabId === this.tabId) {
+      localStorage.removeItem(this.leaseKey)
+    }
+    this.publish(RESIGN_MESSAGE, null)
+    this.setLeader(false)
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (isLeader === this.leader) return
+    this.leader = isLeader
+    console.log(isLeader ? `👑 Tab ${this.tabId} is now the leader for ${this.group}` : `👥 Tab ${this.tabId} is now a follower for ${this.group}`)
+    this.leadershipListeners.forEach(listener => listener(isLeader))
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (!message || message.from === this.tabId || message.group !== this.group) return
+
+    if (message.type === RESIGN_MESSAGE) {
+      this.tick()
+      return
+    }
+    this.listeners.get(message.type)?.forEach(listener => listener(message.payload))
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key === MESSAGE_KEY && event.newValue) {
+      try {
+        this.handleMessage(JSON.parse(event.newValue) as TabMessage)
+      } catch {
+        // Malformed message - ignore
+      }
+    } else if (event.key === this.leaseKey && event.newValue === null) {
+      // Leader released the lease - try to take over right away
+      this.tick()
+    }
+  }
+
+  private handlePageHide = () => {
+    this.resign()
+  }
+}
+
+export const tabCoordinator = TabCoordinator.getInstance()
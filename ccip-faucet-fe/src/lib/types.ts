@@ -22,6 +22,20 @@ export interface TokenState {
   lowTankThreshold: number
 }
 
+// NEW: Per-chain cooldown deadlines (unix seconds) - survive chain switches and reloads
+export interface TokenCooldown {
+  dripAvailableAt: number
+  requestAvailableAt: number
+}
+
+export interface ChainCooldown {
+  active: TokenCooldown  // Native token of that chain
+  link: TokenCooldown
+}
+
+// Keyed by chainId
+export type ChainCooldowns = Record<number, ChainCooldown>
+
 export interface FaucetState {
   active: TokenState  // Generic: was 'mon'
   link: TokenState
@@ -71,6 +85,9 @@ export interface CCIPRequest {
   initialTxHash: string | null
   outboundMessageId: string | null
   responseMessageId: string | null
+  // Helper chain block/tx whose VolatilityResponseSent answered our outboundMessageId
+  helperBlockNumber: number | null
+  helperTxHash: string | null
   errorMessage: string | null
   explorerUrls?: {
     outbound?: string
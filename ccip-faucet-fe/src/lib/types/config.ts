@@ -75,6 +75,9 @@ export interface DerivedConfig {
   nativeName: string
   pageTitle: string
   
+  // Features
+  gasFreeEnabled: boolean    // Bundler + paymaster URLs resolved (no unset env vars)
+  
   // Fallbacks
   fallbackIcon: string
 } 
\ No newline at end of file
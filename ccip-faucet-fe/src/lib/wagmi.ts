@@ -1,7 +1,9 @@
-import { createConfig, http } from 'wagmi'
+import { createConfig, createStorage, http, noopStorage } from 'wagmi'
+import type { Chain } from 'viem'
 import { coinbaseWallet, injected, walletConnect } from 'wagmi/connectors'
 import { mainnet, sepolia, polygon, optimism, arbitrum, base } from 'wagmi/chains'
 import { getConfigDrivenChains } from './config/chain/wagmi-client'
+import { createRpcPoolTransport } from './rpc-pool'
 
 // WalletConnect project ID (obtain one at https://cloud.walletconnect.com)
 const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || 'demo'
@@ -10,25 +12,36 @@ const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || 'demo'
 let chains: any[] = []
 let config: any = null
 
+// One storage for every config we create - a rebuilt config rehydrates the connections, recent connector and chain from it
+const storage = createStorage({
+  storage: typeof window !== 'undefined' && window.localStorage ? window.localStorage : noopStorage,
+})
+
+function buildConfig(configChains: Chain[]) {
+  return createConfig({
+    chains: configChains as [Chain, ...Chain[]],
+    connectors: [
+      injected(),
+      coinbaseWallet({
+        appName: 'Monad CCIP Faucet',
+        appLogoUrl: 'https://via.placeholder.com/128',
+      }),
+      walletConnect({ projectId }),
+    ],
+    storage,
+    // FIX: Reads through usePublicClient share the app's RPC pools (health-scored failover)
+    transports: Object.fromEntries(
+      configChains.map((c) => [c.id, createRpcPoolTransport(c.id, c.rpcUrls.default.http)])
+    ),
+  })
+}
+
 // Initialize config asynchronously
 async function initializeConfig() {
   try {
     chains = await getConfigDrivenChains()
     
-    config = createConfig({
-      chains,
-      connectors: [
-        injected(),
-        coinbaseWallet({
-          appName: 'Monad CCIP Faucet',
-          appLogoUrl: 'https://via.placeholder.com/128',
-        }),
-        walletConnect({ projectId }),
-      ],
-      transports: Object.fromEntries(
-        chains.map((c) => [c.id, http()])
-      ),
-    })
+    config = buildConfig(chains)
     
     return config
   } catch (error) {
@@ -54,6 +67,7 @@ async function initializeConfig() {
         }),
         walletConnect({ projectId }),
       ],
+      storage,
       transports: { [fallbackChain.id]: http() },
     })
     
@@ -72,6 +86,18 @@ export function getWagmiConfig() {
   return config
 }
 
+/**
+ * NEW: Rebuild the config for a new chain list (Providers picks it up on CHAIN_REGISTRY_UPDATED)
+ * The shared storage carries the wallet connection over - WagmiProvider reconnects the new config on render
+ */
+export function registerWagmiChains(nextChains: Chain[]) {
+  // Before initializeConfig() there is nothing to rebuild - startup reads the registry itself
+  if (nextChains.length === 0 || !config) return
+  config = buildConfig(nextChains)
+  chains = nextChains
+  console.log(`🔗 Wagmi chains updated: ${nextChains.map((chain) => chain.name).join(', ')}`)
+}
+
 // Export chains for backward compatibility
 export { chains }
 
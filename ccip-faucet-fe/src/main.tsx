@@ -3,10 +3,14 @@ import '@rainbow-me/rainbowkit/styles.css'
 import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import { Buffer } from 'buffer'
-import { configService, clearChainConfigCache } from '@/lib/config'
+import { configService, clearChainConfigCache, ConfigValidationError } from '@/lib/config'
 import { initializeConfig } from '@/lib/wagmi'
 import { initializePublicClient } from '@/lib/viem'
 import { ErrorBoundary } from '@/components/error-boundary'
+import { ConfigErrorScreen } from '@/components/config-error-screen'
+import { startTabSync } from '@/store/tab-sync'
+import { pollingWorker } from '@/lib/polling-worker'
+import { chainRegistrySync } from '@/lib/chain-registry'
 import './index.css'
 import App from './App.tsx'
 
@@ -33,6 +37,15 @@ async function initializeApp() {
     // Initialize viem public client
     await initializePublicClient()
     
+    // Cross-tab leader election + store sync (one tab owns the CCIP monitor)
+    startTabSync()
+    
+    // Background polling worker (runs in the leader tab only, configured per persist scope)
+    pollingWorker.start()
+    
+    // Pick up chains.json changes (new chains, bumped version) without a page reload
+    chainRegistrySync.start()
+    
     console.log('✅ All config-driven systems initialized successfully')
     
     // Render the app
@@ -48,6 +61,16 @@ async function initializeApp() {
   } catch (error) {
     console.error('❌ Failed to initialize config-driven systems:', error)
     
+    // NEW: A broken chain config gets a readable report instead of a half-initialized app
+    if (error instanceof ConfigValidationError) {
+      createRoot(document.getElementById('root')!).render(
+        <StrictMode>
+          <ConfigErrorScreen error={error} />
+        </StrictMode>,
+      )
+      return
+    }
+    
     // Render app with error boundary even if initialization fails
     createRoot(document.getElementById('root')!).render(
       <StrictMode>
@@ -0,0 +1,61 @@
+import { Link } from "react-router-dom"
+import { ArrowLeft, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ChainStatusCard } from "@/components/chain-status-card"
+import { useMultiChainStatus } from "@/hooks/use-multi-chain-status"
+
+/**
+ * Multi-chain dashboard - every faucet in chains.json side by side
+ * Read-only: works without a connected wallet and without switching the active chain
+ */
+export function DashboardPage() {
+  const { chains, isLoading, lastUpdated, refresh } = useMultiChainStatus()
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        background: `linear-gradient(to right, var(--chain-gradient-from, #8A5CF6) 0%, var(--chain-gradient-mid, #4566F2) 50%, var(--chainlink-blue, #006FEE) 100%)`
+      }}
+    >
+      <header className="sticky top-0 z-[100] w-full border-b border-white/20 bg-black/10 backdrop-blur-sm">
+        <div className="container flex h-14 items-center justify-between px-6 py-2">
+          <div className="flex items-center space-x-3">
+            <Link to="/" className="text-white/70 hover:text-white transition-colors">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <h1 className="font-body text-white text-xl font-bold tracking-tight">All Faucets</h1>
+          </div>
+          <div className="flex items-center space-x-2">
+            {lastUpdated && (
+              <span className="font-body text-xs text-white/60">
+                Updated {lastUpdated.toLocaleTimeString()}
+              </span>
+            )}
+            <Button
+              onClick={refresh}
+              disabled={isLoading}
+              size="sm"
+              variant="ghost"
+              className="text-white/70 hover:text-white hover:bg-white/10 p-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {chains.length === 0 && isLoading ? (
+          <p className="font-body text-white/70 text-sm text-center">Loading faucet status for all chains...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+            {chains.map(result => (
+              <ChainStatusCard key={result.chainName} result={result} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -5,22 +5,25 @@ import { Header } from "@/components/header"
 import { FaucetSection } from "@/components/faucet-section"
 import { VolatilityCard } from "@/components/volatility/VolatilityCard"
 import { VaultStatus } from "@/components/vault-status"
+import { ClaimHistory } from "@/components/claim-history"
 import { CollapsibleSection } from "@/components/collapsible-section"
 import { TokenRain } from "@/components/token-rain"
 import { GasFreeModal } from "@/components/gas-free-modal"
 import { NotificationContainer, useNotificationManager } from "@/components/notification-toast"
+import { FAUCET_TX_FAILED, type FaucetTxError } from "@/lib/faucet-tx"
 import { EventTestPanel } from "@/components/event-test-panel"
-import { Activity, Vault } from "lucide-react"
+import { Activity, History, Vault } from "lucide-react"
 import { useFaucet } from "@/hooks/use-faucet"
 import { useFaucetOwner } from "@/hooks/use-faucet-owner"
+import { isSafeOwner } from "@/lib/safe-proposals"
 import { useNetworkSwitch } from "@/hooks/use-network-switch"
-import { useVolatilityData, useVolatilityUtils } from "@/store/faucet-store"
+import { useVolatilityData, useVolatilityUtils, useWalletBalances } from "@/store/faucet-store"
 import { setCCIPNotificationFunctions } from "@/hooks/use-ccip-refill"
 import { configService } from "@/lib/config"
 import { getAddresses } from "@/lib/config"
 import { createConfigDrivenPublicClient } from "@/lib/config/chain/viem-client"
-import { cachedContractRead } from "@/lib/request-cache"
 import { configLoader } from "@/lib/config/core/loader"
+import { pollingWorker } from "@/lib/polling-worker"
 import type { DerivedConfig } from '@/lib/types/config'
 
 export function HomePage() {
@@ -29,6 +32,7 @@ export function HomePage() {
   const { disconnect } = useDisconnect()
   const [monBalance, setMonBalance] = useState(0)
   const [linkBalance, setLinkBalance] = useState(0)
+  const walletBalances = useWalletBalances()
   const [derivedConfig, setDerivedConfig] = useState<DerivedConfig | null>(null)
   const [activeChainName, setActiveChainName] = useState<string | null>(null)
   const [hasWallet, setHasWallet] = useState(false)
@@ -50,7 +54,9 @@ export function HomePage() {
   } = useVolatilityUtils()
   
   // Fetch real faucet owner from consolidated hook
-  const { faucetOwner, isOwnerLoading } = useFaucetOwner()
+  const { faucetOwner, ownerSafe, isOwnerLoading } = useFaucetOwner()
+  // NEW: Safe signers get the admin panel too (owner actions become Safe proposals)
+  const isOwner = address?.toLowerCase() === faucetOwner?.toLowerCase() || isSafeOwner(ownerSafe, address)
   
   // Network switching functionality
   const networkSwitch = useNetworkSwitch()
@@ -63,6 +69,17 @@ export function HomePage() {
     setCCIPNotificationFunctions(showSuccess, showError, showInfo, showWarning)
   }, [showSuccess, showError, showInfo, showWarning])
 
+  // Writes rejected by simulation (decoded revert reason, nothing was signed)
+  useEffect(() => {
+    const handleTxFailed = (event: Event) => {
+      // FIX: a hash means the transaction was mined and reverted - otherwise it never left the wallet
+      const { message, hash } = (event as CustomEvent<FaucetTxError>).detail
+      showError(hash ? 'Transaction reverted' : 'Transaction not sent', message)
+    }
+    window.addEventListener(FAUCET_TX_FAILED, handleTxFailed)
+    return () => window.removeEventListener(FAUCET_TX_FAILED, handleTxFailed)
+  }, [showError])
+
   // 🎯 Detect wallet availability on mount
   useEffect(() => {
     const checkWallet = () => {
@@ -155,86 +172,25 @@ export function HomePage() {
     // This function is not used in the current flow since volatility updates come from CCIP
   }
 
-  // Fetch real MON and LINK balances from blockchain when wallet connects
+  // Wallet balances come from the background polling worker (via the store) - no per-page interval
   useEffect(() => {
-    const fetchBalances = async () => {
-      if (!address || !isConnected) {
-        console.log('HomePage: No address or not connected, setting balances to 0')
-        setMonBalance(0)
-        setLinkBalance(0)
-        return
-      }
-
-      try {
-        console.log('HomePage: Fetching balances for address:', address)
-        
-        const linkTokenAbi = parseAbi(['function balanceOf(address) view returns (uint256)'])
-
-        // Get config-driven addresses and public client
-        const addresses = await getAddresses()
-        const publicClient = await createConfigDrivenPublicClient()
-
-        // Use cached contract reads for user balances
-        const [monBalanceRaw, linkBalanceRaw] = await Promise.all([
-          cachedContractRead(
-            'userMonBalance',
-            () => publicClient.getBalance({ address }),
-            [address],
-            30 * 1000 // 30 seconds cache for user balances
-          ),
-          addresses.ACTIVE_CHAIN_LINK_TOKEN ? cachedContractRead(
-            'userLinkBalance',
-            () => publicClient.readContract({
-              address: addresses.ACTIVE_CHAIN_LINK_TOKEN as `0x${string}`,
-              abi: linkTokenAbi,
-              functionName: 'balanceOf',
-              args: [address],
-            }) as Promise<bigint>,
-            [address],
-            30 * 1000 // 30 seconds cache for user balances
-          ) : Promise.resolve(0n)
-        ])
-
-        setMonBalance(Number(formatEther(monBalanceRaw)))
-        setLinkBalance(Number(formatEther(linkBalanceRaw)))
-      } catch (error) {
-        console.error('Failed to fetch balances:', error)
-        setMonBalance(0)
-        setLinkBalance(0)
-      }
-    }
-
-    fetchBalances()
-
-    // OPTIMIZED: Only fetch balances when page is visible
-    const handleVisibilityChange = () => {
-      if (!document.hidden) {
-        fetchBalances()
-      }
+    // Cleared on chain/wallet switches until the worker's first poll for the new scope lands
+    const isCurrentWallet = !!address && walletBalances.address?.toLowerCase() === address.toLowerCase()
+    if (!isConnected || !isCurrentWallet) {
+      setMonBalance(0)
+      setLinkBalance(0)
+      return
     }
 
-    // OPTIMIZED: Increased interval from 30s to 60s since we have caching
-    const interval = setInterval(() => {
-      // Only fetch if page is visible
-      if (!document.hidden) {
-        fetchBalances()
-      }
-    }, 60000)
-
-    // Listen for visibility changes to refresh when user returns
-    document.addEventListener('visibilitychange', handleVisibilityChange)
-    
-    return () => {
-      clearInterval(interval)
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
-    }
-  }, [address, isConnected, derivedConfig?.nativeName]) // 🆕 Re-fetch when chain changes
+    setMonBalance(walletBalances.native)
+    setLinkBalance(walletBalances.link)
+  }, [address, isConnected, walletBalances])
 
   // Mock wallet state for compatibility with existing components
   const walletState = {
     address: address || null,
     isConnected,
-    isOwner: address?.toLowerCase() === faucetOwner?.toLowerCase(),
+    isOwner,
     nativeBalance: monBalance, // Use nativeBalance to match header interface
     linkBalance,
   }
@@ -253,11 +209,12 @@ export function HomePage() {
     console.log('🔍 Owner Check Debug:', {
       address: address?.toLowerCase(),
       faucetOwner: faucetOwner?.toLowerCase(),
-      isOwner: address?.toLowerCase() === faucetOwner?.toLowerCase(),
+      ownerSafe: ownerSafe ? `${ownerSafe.threshold}/${ownerSafe.owners.length}` : null,
+      isOwner,
       isOwnerLoading,
       isConnected
     })
-  }, [address, faucetOwner, isOwnerLoading, isConnected])
+  }, [address, faucetOwner, ownerSafe, isOwner, isOwnerLoading, isConnected])
 
   // DEBUG: Monitor admin panel state changes to identify any side effects
   useEffect(() => {
@@ -272,18 +229,9 @@ export function HomePage() {
   const updateNativeBalance = (newBalance: number) => { // Generic: was 'updateMonBalance'
     setMonBalance(newBalance)
     
-    // Also fetch the real balance to ensure accuracy
+    // Also fetch the real balance to ensure accuracy (next polling worker cycle)
     if (address && isConnected) {
-      setTimeout(async () => {
-        try {
-          const publicClient = await createConfigDrivenPublicClient()
-          const realBalance = await publicClient.getBalance({ address })
-          const realBalanceInEther = Number(formatEther(realBalance))
-          setMonBalance(realBalanceInEther)
-        } catch (error) {
-          console.error('Failed to refresh real MON balance:', error)
-        }
-      }, 2000) // Wait 2 seconds for transaction to be mined
+      setTimeout(() => pollingWorker.refresh(), 2000) // Wait 2 seconds for transaction to be mined
     }
   }
 
@@ -428,6 +376,15 @@ export function HomePage() {
           derivedConfig={derivedConfig}
         />
 
+        {/* 2. Claim History - Collapsible (connected wallets only) */}
+        {isConnected && address && (
+          <div className="container mx-auto px-4">
+            <CollapsibleSection title="Claim History" icon={<History className="h-4 w-4" />} defaultOpen={false}>
+              <ClaimHistory address={address} />
+            </CollapsibleSection>
+          </div>
+        )}
+
         {/* Separator Line */}
         <div className="container mx-auto px-4">
           <div className="w-full max-w-4xl mx-auto">
@@ -451,7 +408,7 @@ export function HomePage() {
         {walletState.isOwner && isAdminPanelOpen && (
           <div className="container mx-auto px-4">
             <CollapsibleSection title="Vault Status" icon={<Vault className="h-4 w-4" />} defaultOpen={true}>
-              <VaultStatus isOwner={walletState.isOwner} derivedConfig={derivedConfig} />
+              <VaultStatus isOwner={walletState.isOwner} derivedConfig={derivedConfig} ownerSafe={ownerSafe} />
             </CollapsibleSection>
           </div>
         )}
@@ -2,7 +2,20 @@ import { create } from 'zustand'
 import { devtools, subscribeWithSelector } from 'zustand/middleware'
 import { persist } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
-import type { TokenState, CCIPState, CCIPRequest, CCIPRequestPhase, VolatilityData } from '@/lib/types'
+import type { TokenState, CCIPState, CCIPRequest, CCIPRequestPhase, VolatilityData, ChainCooldown, TokenCooldown } from '@/lib/types'
+import {
+  createScopedStorage,
+  activatePersistScope,
+  getPersistScope,
+  getScopeKey,
+  migratePersistedState,
+  cleanupPersistedState,
+  PERSIST_VERSION,
+  type PersistScope,
+} from './persistence'
+import { tabCoordinator } from '@/lib/tab-coordinator'
+import type { FaucetSnapshot } from '@/lib/faucet-snapshot'
+import { formatEther } from 'viem'
 
 
 // CONSOLIDATION: Remove unused legacy globalCCIP state
@@ -22,17 +35,29 @@ interface FaucetStoreState {
   // NEW: Failsafe CCIP State Machine (PRD v1.0)
   ccipRequest: CCIPRequest
   
+  // NEW: Cooldown deadlines per chainId + token (tokens.* countdowns mirror the active chain's entry)
+  cooldowns: Record<number, ChainCooldown>
+  
   // Vault balances - Generic: was 'mon' | 'link'
   vaults: {
     active: number  // Generic: was 'mon'
     link: number
   }
   
+  // NEW: Connected wallet balances on the active chain (written by the polling worker)
+  balances: {
+    address: string | null
+    native: number
+    link: number
+  }
+  
   // Smart polling state management
   polling: {
     state: 'idle' | 'normal' | 'critical'
     lastContractCheck: number
     lastBalanceUpdate: number
+    // NEW: On-chain refillInProgress flag from the last poll
+    refillInProgress: boolean
     activeMonitors: string[]
     // RPC EFFICIENCY: Track last RPC calls to prevent duplicates
     lastRpcCalls: {
@@ -87,6 +112,11 @@ interface FaucetActions {
   updateLastBalanceUpdate: (timestamp: number) => void
   addActiveMonitor: (monitorId: string) => void
   removeActiveMonitor: (monitorId: string) => void
+  setRefillInProgress: (inProgress: boolean) => void
+  
+  // NEW: Polling worker updates
+  applyFaucetSnapshot: (chainId: number, snapshot: FaucetSnapshot) => void
+  updateWalletBalances: (address: string, balances: { native: number; link: number }) => void
   
   // RPC EFFICIENCY: Prevent duplicate RPC calls
   canMakeRpcCall: (callType: 'contractRefillState' | 'tankBalance' | 'ccipEvents' | 'helperEvents', minInterval?: number) => boolean
@@ -120,6 +150,10 @@ interface FaucetActions {
   stopCooldownTimer: () => void
   updateCooldowns: () => void
   
+  // NEW: Per-chain cooldown tracking
+  setChainCooldown: (chainId: number, token: 'active' | 'link', updates: Partial<TokenCooldown>) => void
+  applyChainCooldowns: (chainId: number) => void
+  
   // Reset operations
   resetAllStates: () => void
   
@@ -144,6 +178,17 @@ const initialTokenState: TokenState = {
   lowTankThreshold: 30, // 30% of capacity
 }
 
+const initialTokenCooldown: TokenCooldown = {
+  dripAvailableAt: 0,
+  requestAvailableAt: 0,
+}
+
+/**
+ * Seconds left until a cooldown deadline (0 when already available)
+ */
+export const getRemainingCooldown = (availableAt: number, now = Math.floor(Date.now() / 1000)): number =>
+  Math.max(0, availableAt - now)
+
 const initialCCIPState: CCIPState = {
   status: "idle",
   progress: 0,
@@ -167,16 +212,25 @@ const initialState: FaucetStoreState = {
     initialTxHash: null,
     outboundMessageId: null,
     responseMessageId: null,
+    helperBlockNumber: null,
+    helperTxHash: null,
     errorMessage: null,
   },
+  cooldowns: {},
   vaults: {
     active: 0,
     link: 0,
   },
+  balances: {
+    address: null,
+    native: 0,
+    link: 0,
+  },
   polling: {
     state: 'idle',
     lastContractCheck: 0,
     lastBalanceUpdate: 0,
+    refillInProgress: false,
     activeMonitors: [],
     lastRpcCalls: {
       contractRefillState: 0,
@@ -203,41 +257,6 @@ const initialState: FaucetStoreState = {
 // Global cooldown timer reference
 let cooldownInterval: NodeJS.Timeout | null = null
 
-// State validation and cleanup function
-const validateAndCleanupPersistedState = (state: FaucetStoreState) => {
-  // Validate CCIP states
-  const tokens: ('active' | 'link')[] = ['active', 'link']
-  tokens.forEach(token => {
-    const ccipState = state.ccip[token]
-    
-    // Reset invalid states
-    if (ccipState.status === 'idle' && ccipState.progress > 0) {
-      console.log(`🧹 Cleaning up invalid ${token} CCIP state: idle with progress`)
-      ccipState.progress = 0
-      ccipState.currentPhase = undefined
-    }
-    
-    // Reset stale states older than 1 hour
-    if (ccipState.lastUpdated && Date.now() - ccipState.lastUpdated.getTime() > 60 * 60 * 1000) {
-      console.log(`🧹 Cleaning up stale ${token} CCIP state: older than 1 hour`)
-      ccipState.status = 'idle'
-      ccipState.progress = 0
-      ccipState.currentPhase = undefined
-      ccipState.errorMessage = undefined
-    }
-    
-    // Ensure Date objects are properly restored
-    if (ccipState.lastUpdated && typeof ccipState.lastUpdated === 'string') {
-      ccipState.lastUpdated = new Date(ccipState.lastUpdated)
-    }
-  })
-  
-  // Validate volatility state
-  if (state.volatility.lastUpdated && typeof state.volatility.lastUpdated === 'string') {
-    state.volatility.lastUpdated = new Date(state.volatility.lastUpdated)
-  }
-}
-
 export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
   devtools(
     persist(
@@ -332,6 +351,60 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
             set((state) => {
               state.polling.activeMonitors = state.polling.activeMonitors.filter(id => id !== monitorId)
             }),
+          setRefillInProgress: (inProgress) =>
+            set((state) => {
+              state.polling.refillInProgress = inProgress
+            }),
+          
+          // NEW: Apply a faucet snapshot read for `chainId` (tanks, drip rates, thresholds, vaults, cooldowns)
+          applyFaucetSnapshot: (chainId, snap) => {
+            const current = get().tokens
+            const now = Math.floor(Date.now() / 1000)
+            const { cooldown, thresholdFactor } = snap.constants
+            
+            // Only derive a countdown from lastClaim when none is running locally,
+            // so a refresh never overwrites a cooldown the UI just started
+            const remainingCooldown = (token: 'active' | 'link'): number => {
+              if (!snap.lastClaim) return current[token].dripCooldownTime
+              if (current[token].dripCooldownTime > 0) return current[token].dripCooldownTime
+              return Math.max(0, cooldown - (now - Number(snap.lastClaim[token])))
+            }
+            const activeCooldown = remainingCooldown('active')
+            const linkCooldown = remainingCooldown('link')
+            
+            set((state) => {
+              const tokens: ('active' | 'link')[] = ['active', 'link']
+              tokens.forEach(token => {
+                const drip = Number(formatEther(snap[token].drip))
+                Object.assign(state.tokens[token], {
+                  tankBalance: Number(formatEther(snap[token].pool)),
+                  currentDripAmount: drip,
+                  maxTankBalance: Number(formatEther(snap[token].capacity)),
+                  baseDripAmount: Number(formatEther(snap[token].baseDrip)),
+                  lowTankThreshold: drip * thresholdFactor,
+                  dripCooldownTime: token === 'active' ? activeCooldown : linkCooldown,
+                })
+                state.vaults[token] = Number(formatEther(snap.treasury[token]))
+              })
+              state.polling.lastContractCheck = Date.now()
+            })
+            
+            // Keep the per-chain deadlines in sync with on-chain lastClaim data
+            if (snap.lastClaim) {
+              get().setChainCooldown(chainId, 'active', { dripAvailableAt: now + activeCooldown })
+              get().setChainCooldown(chainId, 'link', { dripAvailableAt: now + linkCooldown })
+            }
+            
+            if (activeCooldown > 0 || linkCooldown > 0) {
+              get().startCooldownTimer()
+            }
+          },
+          
+          updateWalletBalances: (address, balances) =>
+            set((state) => {
+              state.balances = { address, native: balances.native, link: balances.link }
+              state.polling.lastBalanceUpdate = Date.now()
+            }),
           
           // RPC EFFICIENCY: Prevent duplicate RPC calls
           canMakeRpcCall: (callType, minInterval = 5000) => {
@@ -531,6 +604,35 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
               }
             }),
           
+          // NEW: Per-chain cooldown tracking
+          setChainCooldown: (chainId, token, updates) =>
+            set((state) => {
+              if (!state.cooldowns[chainId]) {
+                state.cooldowns[chainId] = {
+                  active: { ...initialTokenCooldown },
+                  link: { ...initialTokenCooldown },
+                }
+              }
+              Object.assign(state.cooldowns[chainId][token], updates)
+            }),
+          
+          // Restore the countdowns for a chain (e.g. after a chain switch) from its deadlines
+          applyChainCooldowns: (chainId) => {
+            const entry = get().cooldowns[chainId]
+            const now = Math.floor(Date.now() / 1000)
+            
+            set((state) => {
+              const tokens: ('active' | 'link')[] = ['active', 'link']
+              tokens.forEach(token => {
+                state.tokens[token].dripCooldownTime = entry ? getRemainingCooldown(entry[token].dripAvailableAt, now) : 0
+                state.tokens[token].requestCooldownTime = entry ? getRemainingCooldown(entry[token].requestAvailableAt, now) : 0
+              })
+            })
+            
+            console.log(`⏱️ Applied cooldowns for chain ${chainId}:`, entry ?? 'none recorded')
+            get().startCooldownTimer()
+          },
+          
           // Reset operations
           resetAllStates: () =>
             set((state) => {
@@ -539,6 +641,7 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
               state.ccip = { ...initialState.ccip }
               state.ccipRequest = { ...initialState.ccipRequest } // Ensure ccipRequest is reset
               state.vaults = { ...initialState.vaults }
+              state.balances = { ...initialState.balances }
               state.polling = { ...initialState.polling }
               state.volatility = { ...initialState.volatility }
               state.ui = { ...initialState.ui }
@@ -559,6 +662,8 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
                 initialTxHash: null,
                 outboundMessageId: null,
                 responseMessageId: null,
+                helperBlockNumber: null,
+                helperTxHash: null,
                 errorMessage: null,
               }
             }),
@@ -587,6 +692,29 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
       ),
       {
         name: 'faucet-store',
+        // NEW: Partitioned by chainId + wallet (see ./persistence) - hydrated by setFaucetStoreScope
+        storage: createScopedStorage(),
+        version: PERSIST_VERSION,
+        migrate: migratePersistedState,
+        skipHydration: true,
+        // Persisted token/ccip entries are partial - merge them into the full in-memory shape
+        // (a shallow merge would drop tankBalance, loading flags, etc.)
+        // Stale CCIP state is cleaned up here, on every load - migrations only run on version changes
+        merge: (persistedState, currentState) => {
+          const persisted = cleanupPersistedState(persistedState) as Partial<FaucetStoreState>
+          return {
+            ...currentState,
+            ...persisted,
+            tokens: {
+              active: { ...currentState.tokens.active, ...persisted.tokens?.active },
+              link: { ...currentState.tokens.link, ...persisted.tokens?.link },
+            },
+            ccip: {
+              active: { ...currentState.ccip.active, ...persisted.ccip?.active },
+              link: { ...currentState.ccip.link, ...persisted.ccip?.link },
+            },
+          }
+        },
         // PHASE 4C: Optimized persistence - only persist essential data
         partialize: (state) => {
           // Safety check: ensure state is properly initialized
@@ -628,8 +756,12 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
               initialTxHash: state.ccipRequest.initialTxHash,
               outboundMessageId: state.ccipRequest.outboundMessageId,
               responseMessageId: state.ccipRequest.responseMessageId,
+              helperBlockNumber: state.ccipRequest.helperBlockNumber,
+              helperTxHash: state.ccipRequest.helperTxHash,
               errorMessage: state.ccipRequest.errorMessage,
             },
+            // NEW: Per-chain cooldown deadlines (absolute, so they stay correct while the tab is closed)
+            cooldowns: state.cooldowns,
             // CRITICAL FIX: Persist cooldown state to prevent loss on re-renders
             tokens: {
               active: {
@@ -674,7 +806,7 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
         // PHASE 4C: Add storage event handling for better multi-tab sync
         onRehydrateStorage: () => (state) => {
           if (state) {
-            console.log('🔄 Zustand state rehydrated:', state)
+            console.log(`🔄 Zustand state rehydrated for scope ${getPersistScope() ? getScopeKey(getPersistScope()!) : 'none'}:`, state)
             
             // DEBUG: Log cooldown state restoration
             if (state.tokens) {
@@ -689,20 +821,6 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
                 }
               })
             }
-            
-            // Validate and clean up persisted state
-            validateAndCleanupPersistedState(state)
-            
-            // Restore lastUpdated dates after rehydration
-            if (state.volatility?.lastUpdated && typeof state.volatility.lastUpdated === 'string') {
-              state.volatility.lastUpdated = new Date(state.volatility.lastUpdated)
-            }
-            if (state.ccip?.active?.lastUpdated && typeof state.ccip.active.lastUpdated === 'string') {
-              state.ccip.active.lastUpdated = new Date(state.ccip.active.lastUpdated)
-            }
-            if (state.ccip?.link?.lastUpdated && typeof state.ccip.link.lastUpdated === 'string') {
-              state.ccip.link.lastUpdated = new Date(state.ccip.link.lastUpdated)
-            }
           }
         },
       }
@@ -715,6 +833,48 @@ export const useFaucetStore = create<FaucetStoreState & FaucetActions>()(
   )
 )
 
+/**
+ * Switch the store to the persisted partition of another chain/wallet
+ * Scoped fields are cleared first so nothing from the previous chain leaks into the new one
+ */
+export async function setFaucetStoreScope(scope: PersistScope): Promise<void> {
+  const previous = getPersistScope()
+  if (previous && getScopeKey(previous) === getScopeKey(scope)) return
+
+  // A running refill belongs to the old scope - stop its monitor so it can't write into the new one
+  const { ccipRequest } = useFaucetStore.getState()
+  if (ccipRequest.status === 'running' && ccipRequest.initialTxHash) {
+    const { stopSmartCCIPMonitoring } = await import('../lib/smart-ccip-monitor')
+    stopSmartCCIPMonitoring(ccipRequest.initialTxHash)
+  }
+
+  activatePersistScope(scope, () => {
+    useFaucetStore.setState((state) => {
+      state.ccipRequest = { ...initialState.ccipRequest }
+      state.ccip = { active: { ...initialCCIPState }, link: { ...initialCCIPState } }
+      state.volatility = { ...initialState.volatility }
+      state.cooldowns = {}
+      state.balances = { ...initialState.balances }
+      state.polling.refillInProgress = false
+      state.tokens.active.dripCooldownTime = 0
+      state.tokens.active.requestCooldownTime = 0
+      state.tokens.link.dripCooldownTime = 0
+      state.tokens.link.requestCooldownTime = 0
+    })
+  })
+
+  await useFaucetStore.persist.rehydrate()
+  
+  // Point background polling at the new chain + wallet
+  const { pollingWorker } = await import('../lib/polling-worker')
+  pollingWorker.configure(scope)
+
+  // Leader election and cross-tab sync only happen between tabs on the same chain + wallet
+  tabCoordinator.setGroup(getScopeKey(scope))
+  const { requestTabSync } = await import('./tab-sync')
+  requestTabSync()
+}
+
 // Selectors for better performance
 export const useTokenState = (token: 'active' | 'link') =>
   useFaucetStore((state) => state.tokens[token])
@@ -772,6 +932,14 @@ export const useAnyRequestActive = () =>
 export const useCCIPRequest = () =>
   useFaucetStore((state) => state.ccipRequest)
 
+// NEW: Wallet balances selector (polling worker)
+export const useWalletBalances = () =>
+  useFaucetStore((state) => state.balances)
+
+// NEW: Per-chain cooldown selector
+export const useChainCooldownState = () =>
+  useFaucetStore((state) => state.cooldowns)
+
 // Address management selectors
 export const useAddressState = () =>
   useFaucetStore((state) => state.addresses)
@@ -0,0 +1,213 @@
+// Chain- and wallet-scoped persistence for the faucet store
+// Each (chainId, wallet) pair gets its own localStorage partition, so state written on one chain
+// is never rehydrated against another. Schema changes go through the versioned migration pipeline below.
+
+import type { PersistStorage, StorageValue } from 'zustand/middleware'
+
+export interface PersistScope {
+  chainId: number
+  address: string | null
+}
+
+// Bump when the persisted shape changes and add a migration from the previous version
+export const PERSIST_VERSION = 1
+
+// Pre-scoping builds wrote everything into this single key (version 0)
+const LEGACY_STORAGE_KEY = 'faucet-store'
+
+// Fields that span every chain (already keyed by chainId inside) - stored per wallet, not per chain
+const WALLET_SCOPED_FIELDS = ['cooldowns'] as const
+
+let currentScope: PersistScope | null = null
+let writesPaused = false
+
+function getAddressKey(address: string | null): string {
+  return address ? address.toLowerCase() : 'anonymous'
+}
+
+/**
+ * Storage suffix for a scope: `<chainId>:<wallet>`
+ */
+export function getScopeKey(scope: PersistScope): string {
+  return `${scope.chainId}:${getAddressKey(scope.address)}`
+}
+
+export function getPersistScope(): PersistScope | null {
+  return currentScope
+}
+
+/**
+ * Point persistence at a new scope. `reset` runs with writes paused so clearing the
+ * previous scope's in-memory state can't overwrite the next scope's partition.
+ */
+export function activatePersistScope(scope: PersistScope, reset: () => void): void {
+  writesPaused = true
+  try {
+    currentScope = scope
+    reset()
+  } finally {
+    writesPaused = false
+  }
+  console.log(`🗂️ Persist scope → chain ${scope.chainId}, wallet ${getAddressKey(scope.address)}`)
+}
+
+// Revive Date fields (JSON stores them as ISO strings)
+const reviveDates = (key: string, value: unknown) =>
+  key === 'lastUpdated' && typeof value === 'string' ? new Date(value) : value
+
+function readBlob<S>(key: string): StorageValue<S> | null {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? JSON.parse(raw, reviveDates) as StorageValue<S> : null
+  } catch (error) {
+    console.warn(`⚠️ Failed to read persisted state ${key}:`, error)
+    return null
+  }
+}
+
+function writeBlob(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.warn(`⚠️ Failed to persist state ${key}:`, error)
+  }
+}
+
+/**
+ * zustand PersistStorage that splits state into a chain+wallet partition and a wallet partition
+ */
+export function createScopedStorage<S>(): PersistStorage<S> {
+  return {
+    getItem: (name) => {
+      if (!currentScope) return null
+
+      const chainBlob = readBlob<Record<string, unknown>>(`${name}:${getScopeKey(currentScope)}`)
+      const walletBlob = readBlob<Record<string, unknown>>(`${name}:wallet:${getAddressKey(currentScope.address)}`)
+
+      if (!chainBlob && !walletBlob) {
+        return adoptLegacyState<S>()
+      }
+
+      return {
+        state: { ...chainBlob?.state, ...walletBlob?.state } as S,
+        // Partitions are written together; the older one decides which migrations still apply
+        version: Math.min(chainBlob?.version ?? PERSIST_VERSION, walletBlob?.version ?? PERSIST_VERSION),
+      }
+    },
+    setItem: (name, value) => {
+      if (!currentScope || writesPaused) return
+
+      const chainState: Record<string, unknown> = { ...(value.state as Record<string, unknown>) }
+      const walletState: Record<string, unknown> = {}
+      WALLET_SCOPED_FIELDS.forEach(field => {
+        if (field in chainState) {
+          walletState[field] = chainState[field]
+          delete chainState[field]
+        }
+      })
+
+      writeBlob(`${name}:${getScopeKey(currentScope)}`, { state: chainState, version: value.version })
+      writeBlob(`${name}:wallet:${getAddressKey(currentScope.address)}`, { state: walletState, version: value.version })
+    },
+    removeItem: (name) => {
+      if (!currentScope) return
+      localStorage.removeItem(`${name}:${getScopeKey(currentScope)}`)
+      localStorage.removeItem(`${name}:wallet:${getAddressKey(currentScope.address)}`)
+    },
+  }
+}
+
+/**
+ * The pre-scoping blob is handed to the first scope that loads (normally the chain it was
+ * written on, since the app restores the wallet's chain at startup) and then deleted,
+ * so it can never be rehydrated against a second chain.
+ */
+function adoptLegacyState<S>(): StorageValue<S> | null {
+  const legacy = readBlob<S>(LEGACY_STORAGE_KEY)
+  if (!legacy) return null
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY)
+  console.log(`📦 Adopting legacy faucet-store state into scope ${currentScope ? getScopeKey(currentScope) : 'none'}`)
+  return { state: legacy.state, version: legacy.version ?? 0 }
+}
+
+// ---------------------------------------------------------------------------
+// Migration pipeline
+// ---------------------------------------------------------------------------
+
+type PersistedState = Record<string, unknown>
+type Migration = (state: PersistedState) => PersistedState
+
+function isRecord(value: unknown): value is PersistedState {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// CCIP states untouched for longer than this are considered abandoned
+const STALE_CCIP_STATE_MS = 60 * 60 * 1000
+
+/**
+ * Keyed by the version being migrated FROM (0 → 1 is `migrations[0]`)
+ */
+const migrations: Record<number, Migration> = {
+  // v0 → v1: legacy unscoped blob → first scoped schema
+  0: (state) => {
+    // Fields added after the legacy blob was written
+    if (isRecord(state.ccipRequest)) {
+      state.ccipRequest.helperBlockNumber ??= null
+      state.ccipRequest.helperTxHash ??= null
+    }
+    state.cooldowns ??= {}
+
+    return state
+  },
+}
+
+/**
+ * Per-load cleanup, whatever the stored version: reset CCIP states that are idle with
+ * leftover progress or were not updated for over an hour
+ */
+export function cleanupPersistedState(persistedState: unknown): PersistedState {
+  const state = isRecord(persistedState) ? persistedState : {}
+
+  const tokens: ('active' | 'link')[] = ['active', 'link']
+  tokens.forEach(token => {
+    const ccipState = isRecord(state.ccip) ? state.ccip[token] : undefined
+    if (!isRecord(ccipState)) return
+
+    if (ccipState.status === 'idle' && typeof ccipState.progress === 'number' && ccipState.progress > 0) {
+      console.log(`🧹 Cleaning up invalid ${token} CCIP state: idle with progress`)
+      ccipState.progress = 0
+      ccipState.currentPhase = undefined
+    }
+
+    const lastUpdated = ccipState.lastUpdated instanceof Date ? ccipState.lastUpdated.getTime() : 0
+    if (lastUpdated && Date.now() - lastUpdated > STALE_CCIP_STATE_MS) {
+      console.log(`🧹 Cleaning up stale ${token} CCIP state: older than 1 hour`)
+      ccipState.status = 'idle'
+      ccipState.progress = 0
+      ccipState.currentPhase = undefined
+      ccipState.errorMessage = undefined
+    }
+  })
+
+  return state
+}
+
+/**
+ * Run every migration between the stored version and PERSIST_VERSION, in order
+ */
+export function migratePersistedState(persistedState: unknown, fromVersion: number): PersistedState {
+  let state = (persistedState ?? {}) as PersistedState
+
+  for (let version = fromVersion; version < PERSIST_VERSION; version++) {
+    const migration = migrations[version]
+    if (!migration) {
+      console.warn(`⚠️ No faucet-store migration from v${version}, discarding persisted state`)
+      return {}
+    }
+    console.log(`🔀 Migrating faucet-store v${version} → v${version + 1}`)
+    state = migration(state)
+  }
+
+  return state
+}
@@ -0,0 +1,140 @@
+// Mirrors faucet store state between tabs through the TabCoordinator
+// - ccipRequest: any tab may change it (e.g. a follower starts a refill), every tab applies it
+// - snapshot (tanks, drip rates, vaults, wallet balances, refill flag, per-chain cooldowns): only the leader's polling worker
+//   produces it, so only the leader publishes and followers apply
+
+import { shallow } from 'zustand/shallow'
+import { tabCoordinator } from '@/lib/tab-coordinator'
+import { useFaucetStore } from './faucet-store'
+import type { CCIPRequest, TokenState } from '@/lib/types'
+
+type FaucetStoreSnapshot = ReturnType<typeof useFaucetStore.getState>
+
+type SnapshotFields = Pick<TokenState, 'tankBalance' | 'maxTankBalance' | 'baseDripAmount' | 'currentDripAmount' | 'lowTankThreshold'>
+
+interface SnapshotMessage {
+  tokens: { active: SnapshotFields; link: SnapshotFields }
+  vaults: { active: number; link: number }
+  balances: FaucetStoreSnapshot['balances']
+  refillInProgress: boolean
+  cooldowns: FaucetStoreSnapshot['cooldowns']
+}
+
+const CCIP_REQUEST_MESSAGE = 'ccip-request'
+const SNAPSHOT_MESSAGE = 'snapshot'
+const SYNC_REQUEST_MESSAGE = 'sync-request'
+
+let started = false
+// Suppresses re-publishing state that just arrived from another tab
+let applyingRemote = false
+
+function pickSnapshotFields(token: TokenState): SnapshotFields {
+  return {
+    tankBalance: token.tankBalance,
+    maxTankBalance: token.maxTankBalance,
+    baseDripAmount: token.baseDripAmount,
+    currentDripAmount: token.currentDripAmount,
+    lowTankThreshold: token.lowTankThreshold,
+  }
+}
+
+function getSnapshot(): SnapshotMessage {
+  const state = useFaucetStore.getState()
+  return {
+    tokens: {
+      active: pickSnapshotFields(state.tokens.active),
+      link: pickSnapshotFields(state.tokens.link),
+    },
+    vaults: { ...state.vaults },
+    balances: { ...state.balances },
+    refillInProgress: state.polling.refillInProgress,
+    cooldowns: state.cooldowns,
+  }
+}
+
+function applyRemote(update: () => void) {
+  applyingRemote = true
+  try {
+    update()
+  } finally {
+    applyingRemote = false
+  }
+}
+
+async function applyRemoteCCIPRequest(remote: CCIPRequest) {
+  const { ccipRequest: local } = useFaucetStore.getState()
+
+  // The request we were monitoring was reset or replaced elsewhere - stop our monitor for it
+  if (local.initialTxHash && local.initialTxHash !== remote.initialTxHash) {
+    const { stopSmartCCIPMonitoring } = await import('../lib/smart-ccip-monitor')
+    stopSmartCCIPMonitoring(local.initialTxHash)
+  }
+
+  applyRemote(() => useFaucetStore.getState().setCCIPRequestState(remote))
+}
+
+/**
+ * Start mirroring store state across tabs (idempotent)
+ */
+export function startTabSync(): void {
+  if (started) return
+  started = true
+
+  tabCoordinator.start()
+
+  // Outgoing: local ccipRequest changes
+  useFaucetStore.subscribe(
+    (state) => state.ccipRequest,
+    (ccipRequest) => {
+      if (!applyingRemote) tabCoordinator.publish(CCIP_REQUEST_MESSAGE, ccipRequest)
+    },
+    { equalityFn: shallow }
+  )
+
+  // Outgoing: snapshot changes from the leader's polling
+  useFaucetStore.subscribe(
+    () => getSnapshot(),
+    (snapshot) => {
+      if (!applyingRemote && tabCoordinator.isLeader()) tabCoordinator.publish(SNAPSHOT_MESSAGE, snapshot)
+    },
+    { equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b) }
+  )
+
+  // Incoming
+  tabCoordinator.subscribe(CCIP_REQUEST_MESSAGE, (payload) => {
+    applyRemoteCCIPRequest(payload as CCIPRequest)
+  })
+
+  tabCoordinator.subscribe(SNAPSHOT_MESSAGE, (payload) => {
+    const snapshot = payload as SnapshotMessage
+    applyRemote(() => {
+      const { batchUpdateTokens, updateVaultBalance, updateWalletBalances, setRefillInProgress, setChainCooldown } = useFaucetStore.getState()
+      batchUpdateTokens(snapshot.tokens)
+      updateVaultBalance('active', snapshot.vaults.active)
+      updateVaultBalance('link', snapshot.vaults.link)
+      if (snapshot.balances?.address) updateWalletBalances(snapshot.balances.address, snapshot.balances)
+      setRefillInProgress(snapshot.refillInProgress ?? false)
+      Object.entries(snapshot.cooldowns ?? {}).forEach(([chainId, entry]) => {
+        setChainCooldown(Number(chainId), 'active', entry.active)
+        setChainCooldown(Number(chainId), 'link', entry.link)
+      })
+    })
+  })
+
+  // New tabs ask the leader for its current view instead of waiting for the next change
+  tabCoordinator.subscribe(SYNC_REQUEST_MESSAGE, () => {
+    if (!tabCoordinator.isLeader()) return
+    tabCoordinator.publish(CCIP_REQUEST_MESSAGE, useFaucetStore.getState().ccipRequest)
+    tabCoordinator.publish(SNAPSHOT_MESSAGE, getSnapshot())
+  })
+  requestTabSync()
+
+  console.log('🔗 Cross-tab store sync started')
+}
+
+/**
+ * Ask the group's leader to re-send its state (on start and after a scope change)
+ */
+export function requestTabSync(): void {
+  tabCoordinator.publish(SYNC_REQUEST_MESSAGE, null)
+}
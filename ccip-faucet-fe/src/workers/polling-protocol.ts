@@ -0,0 +1,87 @@
+// Message protocol between the main thread (lib/polling-worker.ts) and polling.worker.ts
+// NOTE: Types only + plain constants - both sides import this file
+
+import type { MulticallSettings } from '../lib/multicall'
+import type { RpcPoolHealth } from '../lib/rpc-pool'
+
+export type PollingState = 'idle' | 'normal' | 'critical'
+
+/**
+ * Another supported chain's faucet - read only for the user's claim cooldowns
+ */
+export interface CooldownTarget {
+  chainId: number
+  rpcUrls: string[]
+  faucetAddress: `0x${string}`
+}
+
+/**
+ * Everything the worker needs to poll one chain (it has no access to app config)
+ */
+export interface PollingTarget {
+  chainId: number
+  /** Endpoint pool, already normalized (the worker routes and fails over across them) */
+  rpcUrls: string[]
+  faucetAddress: `0x${string}`
+  linkToken: `0x${string}` | null
+  user: `0x${string}` | null
+  multicall: MulticallSettings
+  /** Every other chain with a faucet (header next-claim summary) */
+  cooldownChains: CooldownTarget[]
+}
+
+export type PollingWorkerCommand =
+  | { type: 'configure'; target: PollingTarget | null; state: PollingState }
+  | { type: 'set-polling-state'; state: PollingState }
+  | { type: 'refresh' }
+
+/**
+ * Snapshot with bigints serialized as decimal strings (structured clone handles bigint,
+ * but strings keep the payload loggable and safe to forward over BroadcastChannel)
+ */
+export interface SerializedSnapshot {
+  active: { pool: string; drip: string; baseDrip: string; capacity: string }
+  link: { pool: string; drip: string; baseDrip: string; capacity: string }
+  treasury: { active: string; link: string }
+  constants: { cooldown: number; thresholdFactor: number }
+  lastClaim?: { active: string; link: string }
+}
+
+// Faucet events the worker scans for every cycle
+export type PolledFaucetEventName = 'Drip' | 'RefillTriggered' | 'ReservoirRefilled' | 'Deposit' | 'EmergencyWithdrawal'
+
+export interface PolledFaucetEvents {
+  /** Every scanned event since the previous scan (any user) - drives cache invalidation */
+  activity: { eventName: PolledFaucetEventName; args?: { user?: `0x${string}` } }[]
+  /** Drips by the polled user since the previous scan */
+  drips: { token: `0x${string}`; amount: string; txHash: `0x${string}` | null }[]
+  lastScannedBlock: string
+}
+
+/**
+ * Unix seconds when each token can be claimed again on a chain (0 = never claimed)
+ */
+export interface ChainClaimCooldown {
+  chainId: number
+  activeAvailableAt: number
+  linkAvailableAt: number
+}
+
+export type PollingWorkerEvent =
+  | { type: 'snapshot'; chainId: number; snapshot: SerializedSnapshot; polledAt: number }
+  | { type: 'balances'; chainId: number; user: `0x${string}`; native: string; link: string; polledAt: number }
+  | { type: 'refill-state'; chainId: number; refillInProgress: boolean; polledAt: number }
+  | { type: 'chain-cooldowns'; chainId: number; user: `0x${string}`; cooldowns: ChainClaimCooldown[]; polledAt: number }
+  | { type: 'events'; chainId: number; events: PolledFaucetEvents }
+  | { type: 'rpc-health'; chainId: number; health: RpcPoolHealth }
+  | { type: 'error'; chainId: number; source: 'snapshot' | 'balances' | 'refill-state' | 'events' | 'chain-cooldowns'; message: string }
+
+// Cycle length per polling state
+export const POLLING_INTERVALS: Record<PollingState, number> = {
+  idle: 2 * 60 * 1000,    // Tab hidden - keep data roughly fresh
+  normal: 30 * 1000,      // Tab visible, nothing in flight
+  critical: 5 * 1000,     // Refill running - follow the reservoir closely
+}
+
+// Other chains' lastClaim only changes when the user claims there - read them at most this often
+export const CHAIN_COOLDOWN_INTERVAL = 5 * 60 * 1000
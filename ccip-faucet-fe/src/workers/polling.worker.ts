@@ -0,0 +1,277 @@
+// Background polling worker - owns every periodic chain read for the active chain + wallet:
+// faucet snapshot, wallet balances, refill state, event scanning and the user's cooldowns on every chain.
+// The main thread (lib/polling-worker.ts) configures it and applies the typed updates to the store.
+// NOTE: No '@/' or config imports here - the worker only knows what the PollingTarget tells it
+
+import { createPublicClient, isAddressEqual, parseAbi, type PublicClient } from 'viem'
+import { faucetAbi } from '../lib/faucetAbi'
+import { readFaucetSnapshot, type FaucetSnapshot } from '../lib/faucet-snapshot'
+import { getFaucetEvent } from '../lib/contract-events'
+import { createMemoryCheckpointStore, scanLogs } from '../lib/log-scanner'
+import { getRpcPool, type RpcPool } from '../lib/rpc-pool'
+import {
+  CHAIN_COOLDOWN_INTERVAL,
+  POLLING_INTERVALS,
+  type ChainClaimCooldown,
+  type CooldownTarget,
+  type PollingState,
+  type PollingTarget,
+  type PollingWorkerCommand,
+  type PollingWorkerEvent,
+  type PolledFaucetEventName,
+  type PolledFaucetEvents,
+  type SerializedSnapshot,
+} from './polling-protocol'
+
+// Minimal view of the dedicated worker global (the app's tsconfig only ships DOM types)
+interface PollingWorkerScope {
+  postMessage(message: PollingWorkerEvent): void
+  onmessage: ((event: MessageEvent<PollingWorkerCommand>) => void) | null
+}
+
+const scope = self as unknown as PollingWorkerScope
+
+const erc20BalanceAbi = parseAbi(['function balanceOf(address) view returns (uint256)'])
+
+// Checkpoints only need to survive for the worker's lifetime (first scan starts near the head)
+const checkpointStore = createMemoryCheckpointStore()
+const EVENT_SCAN_MAX_CHUNKS = 5
+
+let target: PollingTarget | null = null
+let client: PublicClient | null = null
+let rpcPool: RpcPool | null = null
+let pollingState: PollingState = 'normal'
+let timer: ReturnType<typeof setTimeout> | null = null
+let cycleRunning = false
+// Unset until the first cycle for a target, which always reads the other chains' cooldowns
+let cooldownsPolledAt = 0
+// Bumped on every configure so a cycle for the previous target can't post stale results
+let generation = 0
+
+function post(event: PollingWorkerEvent) {
+  scope.postMessage(event)
+}
+
+function serializeSnapshot(snapshot: FaucetSnapshot): SerializedSnapshot {
+  return {
+    active: {
+      pool: snapshot.active.pool.toString(),
+      drip: snapshot.active.drip.toString(),
+      baseDrip: snapshot.active.baseDrip.toString(),
+      capacity: snapshot.active.capacity.toString(),
+    },
+    link: {
+      pool: snapshot.link.pool.toString(),
+      drip: snapshot.link.drip.toString(),
+      baseDrip: snapshot.link.baseDrip.toString(),
+      capacity: snapshot.link.capacity.toString(),
+    },
+    treasury: {
+      active: snapshot.treasury.active.toString(),
+      link: snapshot.treasury.link.toString(),
+    },
+    constants: snapshot.constants,
+    lastClaim: snapshot.lastClaim ? {
+      active: snapshot.lastClaim.active.toString(),
+      link: snapshot.lastClaim.link.toString(),
+    } : undefined,
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+async function scanEvents(current: PollingTarget, publicClient: PublicClient): Promise<PolledFaucetEvents> {
+  const toBlock = await publicClient.getBlockNumber()
+  const common = {
+    client: publicClient,
+    address: current.faucetAddress,
+    toBlock,
+    store: checkpointStore,
+    maxChunks: EVENT_SCAN_MAX_CHUNKS,
+  }
+
+  // Drips are scanned for every user: anyone's claim drains the tank
+  const [drips, ...others] = await Promise.all([
+    scanLogs({ ...common, event: getFaucetEvent('Drip'), checkpointId: 'worker:Drip' }),
+    scanLogs({ ...common, event: getFaucetEvent('RefillTriggered'), checkpointId: 'worker:RefillTriggered' }),
+    scanLogs({ ...common, event: getFaucetEvent('ReservoirRefilled'), checkpointId: 'worker:ReservoirRefilled' }),
+    scanLogs({ ...common, event: getFaucetEvent('Deposit'), checkpointId: 'worker:Deposit' }),
+    scanLogs({ ...common, event: getFaucetEvent('EmergencyWithdrawal'), checkpointId: 'worker:EmergencyWithdrawal' }),
+  ])
+
+  const userDrips = current.user
+    ? drips.logs.filter(log => log.args.user && isAddressEqual(log.args.user, current.user!))
+    : []
+
+  return {
+    activity: [
+      ...drips.logs.map(log => ({ eventName: 'Drip' as const, args: { user: log.args.user } })),
+      ...others.flatMap(result => result.logs.map(log => ({ eventName: log.eventName as PolledFaucetEventName }))),
+    ],
+    drips: userDrips.map(log => ({
+      token: log.args.token!,
+      amount: (log.args.amount ?? 0n).toString(),
+      txHash: log.transactionHash,
+    })),
+    lastScannedBlock: toBlock.toString(),
+  }
+}
+
+async function readBalances(current: PollingTarget, user: `0x${string}`, publicClient: PublicClient) {
+  const [native, link] = await Promise.all([
+    publicClient.getBalance({ address: user }),
+    current.linkToken
+      ? publicClient.readContract({
+          address: current.linkToken,
+          abi: erc20BalanceAbi,
+          functionName: 'balanceOf',
+          args: [user],
+        })
+      : Promise.resolve(0n),
+  ])
+  return { native: native.toString(), link: link.toString() }
+}
+
+async function readChainCooldown(chain: CooldownTarget, user: `0x${string}`): Promise<ChainClaimCooldown> {
+  const chainClient = createPublicClient({ transport: getRpcPool(chain.chainId, chain.rpcUrls).transport() }) as PublicClient
+  const [cooldown, lastClaimNative, lastClaimLink] = await Promise.all([
+    chainClient.readContract({ address: chain.faucetAddress, abi: faucetAbi, functionName: 'COOLDOWN' }),
+    chainClient.readContract({ address: chain.faucetAddress, abi: faucetAbi, functionName: 'lastClaimNative', args: [user] }),
+    chainClient.readContract({ address: chain.faucetAddress, abi: faucetAbi, functionName: 'lastClaimLink', args: [user] }),
+  ])
+
+  return {
+    chainId: chain.chainId,
+    activeAvailableAt: lastClaimNative > 0n ? Number(lastClaimNative + cooldown) : 0,
+    linkAvailableAt: lastClaimLink > 0n ? Number(lastClaimLink + cooldown) : 0,
+  }
+}
+
+/**
+ * The user's cooldowns on every other chain (an unreachable chain is reported and skipped)
+ */
+async function pollChainCooldowns(current: PollingTarget, user: `0x${string}`, isCurrent: () => boolean) {
+  const results = await Promise.allSettled(current.cooldownChains.map(chain => readChainCooldown(chain, user)))
+  if (!isCurrent()) return
+
+  const cooldowns: ChainClaimCooldown[] = []
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      cooldowns.push(result.value)
+    } else {
+      const message = `chain ${current.cooldownChains[index].chainId}: ${errorMessage(result.reason)}`
+      post({ type: 'error', chainId: current.chainId, source: 'chain-cooldowns', message })
+    }
+  })
+  post({ type: 'chain-cooldowns', chainId: current.chainId, user, cooldowns, polledAt: Date.now() })
+}
+
+/**
+ * One polling cycle: scan events first (so a refill that just landed is reflected in the reads
+ * that follow), then snapshot, balances and refill state in parallel
+ */
+async function runCycle() {
+  if (!target || !client || cycleRunning) return
+  const current = target
+  const publicClient = client
+  const cycleGeneration = generation
+  const { chainId } = current
+  const isCurrent = () => cycleGeneration === generation
+
+  cycleRunning = true
+  try {
+    try {
+      const events = await scanEvents(current, publicClient)
+      if (isCurrent()) post({ type: 'events', chainId, events })
+    } catch (error) {
+      if (isCurrent()) post({ type: 'error', chainId, source: 'events', message: errorMessage(error) })
+    }
+
+    const user = current.user ?? undefined
+    const [snapshot, balances, refillInProgress] = await Promise.allSettled([
+      readFaucetSnapshot(publicClient, current.faucetAddress, user, current.multicall),
+      user ? readBalances(current, user, publicClient) : Promise.resolve(null),
+      publicClient.readContract({
+        address: current.faucetAddress,
+        abi: faucetAbi,
+        functionName: 'refillInProgress',
+      }),
+    ])
+    if (!isCurrent()) return
+
+    const polledAt = Date.now()
+    if (snapshot.status === 'fulfilled') {
+      post({ type: 'snapshot', chainId, snapshot: serializeSnapshot(snapshot.value), polledAt })
+    } else {
+      post({ type: 'error', chainId, source: 'snapshot', message: errorMessage(snapshot.reason) })
+    }
+
+    if (balances.status === 'fulfilled') {
+      if (user && balances.value) post({ type: 'balances', chainId, user, ...balances.value, polledAt })
+    } else {
+      post({ type: 'error', chainId, source: 'balances', message: errorMessage(balances.reason) })
+    }
+
+    if (refillInProgress.status === 'fulfilled') {
+      post({ type: 'refill-state', chainId, refillInProgress: refillInProgress.value, polledAt })
+    } else {
+      post({ type: 'error', chainId, source: 'refill-state', message: errorMessage(refillInProgress.reason) })
+    }
+
+    // The worker's pool carries most of the app's read traffic - surface its health (DebugPanel)
+    if (rpcPool) post({ type: 'rpc-health', chainId, health: rpcPool.getHealth() })
+
+    // Skipped while the tab is hidden (idle) - the header summary is not on screen
+    const cooldownsDue = Date.now() - cooldownsPolledAt >= CHAIN_COOLDOWN_INTERVAL
+    if (user && current.cooldownChains.length > 0 && pollingState !== 'idle' && cooldownsDue) {
+      cooldownsPolledAt = Date.now()
+      await pollChainCooldowns(current, user, isCurrent)
+    }
+  } finally {
+    cycleRunning = false
+  }
+}
+
+function schedule(delay = POLLING_INTERVALS[pollingState]) {
+  if (timer) clearTimeout(timer)
+  timer = null
+  if (!target) return
+
+  timer = setTimeout(async () => {
+    await runCycle()
+    schedule()
+  }, delay)
+}
+
+scope.onmessage = (event) => {
+  const command = event.data
+
+  switch (command.type) {
+    case 'configure':
+      generation++
+      target = command.target
+      pollingState = command.state
+      cooldownsPolledAt = 0
+      rpcPool = target ? getRpcPool(target.chainId, target.rpcUrls) : null
+      client = rpcPool
+        ? createPublicClient({ transport: rpcPool.transport() }) as PublicClient
+        : null
+      // Poll the new target right away
+      schedule(0)
+      break
+
+    case 'set-polling-state': {
+      const previous = pollingState
+      pollingState = command.state
+      // Speeding up takes effect now; slowing down waits for the current timer
+      if (POLLING_INTERVALS[command.state] < POLLING_INTERVALS[previous]) schedule(0)
+      break
+    }
+
+    case 'refresh':
+      schedule(0)
+      break
+  }
+}
@@ -0,0 +1,338 @@
+#!/usr/bin/env tsx
+
+// Config linter - validates every chain JSON in chains.json and every helper config,
+// then cross-checks them against on-chain state.
+// Progress goes to stderr; the machine-readable report is printed to stdout as JSON.
+// Exits 1 when any check fails.
+
+import { createPublicClient, isAddressEqual, parseAbi, zeroAddress, type PublicClient } from 'viem';
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { config } from 'dotenv';
+import {
+  ConfigValidationError,
+  chainConfigSchema,
+  helperChainConfigSchema,
+  validateChainConfig,
+  validateHelperChainConfig,
+} from './ccip-faucet-fe/src/lib/config/core/schema';
+import type { ChainConfig, HelperChainConfig } from './ccip-faucet-fe/src/lib/config/core/types';
+import { createRpcPoolTransport } from './ccip-faucet-fe/src/lib/rpc-pool';
+
+const CONFIGS_DIR = 'ccip-faucet-fe/public/configs';
+const PUBLIC_DIR = 'ccip-faucet-fe/public';
+
+// Load .env file if it exists
+const envPath = join(process.cwd(), '.env');
+if (existsSync(envPath)) {
+  config({ path: envPath });
+}
+
+// Library logs (RPC pool, dotenv) go to stderr - stdout carries only the JSON report
+console.log = (...args: unknown[]) => console.error(...args);
+
+const FAUCET_ABI = parseAbi([
+  'function trustedSenders(uint64) external view returns (address)'
+]);
+
+const HELPER_ABI = parseAbi([
+  'function selectorToFaucet(uint64) external view returns (address)'
+]);
+
+const ROUTER_ABI = parseAbi([
+  'function isChainSupported(uint64 chainSelector) external view returns (bool)'
+]);
+
+type CheckStatus = 'pass' | 'fail' | 'warn' | 'skip';
+
+interface CheckResult {
+  /** Config file the check is about, relative to public/configs */
+  file: string;
+  check: string;
+  status: CheckStatus;
+  message: string;
+}
+
+interface LintReport {
+  ok: boolean;
+  summary: Record<CheckStatus, number>;
+  checks: CheckResult[];
+}
+
+// Fields the on-chain checks read - validated on their own, so an unrelated schema failure
+// (e.g. an unset PIMLICO_API_KEY) does not skip them
+type ChainOnChainFields = Pick<ChainConfig, 'chainId' | 'rpcUrl' | 'common' | 'contracts' | 'ccip'>;
+type HelperOnChainFields = Pick<HelperChainConfig, 'chainId' | 'rpcUrl' | 'common' | 'contracts'>;
+
+const chainOnChainSchema = chainConfigSchema.pick({ chainId: true, rpcUrl: true, common: true, contracts: true, ccip: true });
+const helperOnChainSchema = helperChainConfigSchema.pick({ chainId: true, rpcUrl: true, common: true, contracts: true });
+// Token icon check reads only the ticker, for the same reason
+const chainTickerSchema = chainConfigSchema.pick({ ticker: true });
+
+interface LoadedConfig<T, O> {
+  file: string;
+  name: string;
+  /** Fully valid config (null on any schema issue) */
+  config: T | null;
+  /** On-chain check fields (null only when one of them is invalid) */
+  onChain: O | null;
+  /** Config after env resolution (null when unreadable) */
+  resolved: unknown;
+}
+
+const results: CheckResult[] = [];
+
+function record(file: string, check: string, status: CheckStatus, message: string) {
+  results.push({ file, check, status, message });
+  const tag = { pass: '[OK]', fail: '[ERROR]', warn: '[WARN]', skip: '[SKIP]' }[status];
+  console.error(`${tag} ${file} ${check}: ${message}`);
+}
+
+// ${VAR} → VAR or VITE_VAR from the environment (unset placeholders are left for the schema to report)
+function resolveEnvVars(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([^}]+)\}/g, (placeholder, varName: string) =>
+      process.env[varName] || process.env[`VITE_${varName}`] || placeholder
+    );
+  }
+  if (Array.isArray(value)) return value.map(resolveEnvVars);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, resolveEnvVars(entry)]));
+  }
+  return value;
+}
+
+function loadConfig<T, O>(
+  file: string,
+  name: string,
+  validate: (config: unknown, file: string) => T,
+  onChainSchema: { safeParse(config: unknown): { success: true; data: unknown } | { success: false } }
+): LoadedConfig<T, O> {
+  let resolved: unknown;
+  try {
+    resolved = resolveEnvVars(JSON.parse(readFileSync(join(process.cwd(), CONFIGS_DIR, file), 'utf-8')));
+  } catch (error) {
+    record(file, 'schema', 'fail', `unreadable: ${error instanceof Error ? error.message : error}`);
+    return { file, name, config: null, onChain: null, resolved: null };
+  }
+
+  const onChainResult = onChainSchema.safeParse(resolved);
+  const onChain = onChainResult.success ? onChainResult.data as O : null;
+
+  try {
+    const validated = validate(resolved, file);
+    record(file, 'schema', 'pass', 'valid');
+    return { file, name, config: validated, onChain, resolved };
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      error.issues.forEach(issue => record(file, 'schema', 'fail', `${issue.path} ${issue.message}`));
+    } else {
+      record(file, 'schema', 'fail', `${error instanceof Error ? error.message : error}`);
+    }
+    return { file, name, config: null, onChain, resolved };
+  }
+}
+
+function createClient(config: { chainId: number; rpcUrl: string | string[] }): PublicClient {
+  return createPublicClient({ transport: createRpcPoolTransport(config.chainId, config.rpcUrl) }) as PublicClient;
+}
+
+async function checkChainId(file: string, client: PublicClient, expected: number): Promise<boolean> {
+  try {
+    const actual = await client.getChainId();
+    if (actual === expected) {
+      record(file, 'chain-id', 'pass', `eth_chainId = ${actual}`);
+      return true;
+    }
+    record(file, 'chain-id', 'fail', `config says ${expected}, RPC reports ${actual}`);
+  } catch (error) {
+    record(file, 'chain-id', 'fail', `RPC unreachable: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+  return false;
+}
+
+async function checkCode(file: string, client: PublicClient, field: string, address: string) {
+  if (isAddressEqual(address as `0x${string}`, zeroAddress)) {
+    record(file, `code:${field}`, 'warn', 'zero address (not deployed yet)');
+    return;
+  }
+  try {
+    const code = await client.getCode({ address: address as `0x${string}` });
+    if (code && code !== '0x') {
+      record(file, `code:${field}`, 'pass', `${address} has code`);
+    } else {
+      record(file, `code:${field}`, 'fail', `no contract at ${address}`);
+    }
+  } catch (error) {
+    record(file, `code:${field}`, 'fail', `getCode failed: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+}
+
+// The router of one side must accept the other side's selector as a destination
+async function checkSelectorOnRouter(
+  file: string,
+  client: PublicClient,
+  router: string,
+  selector: string,
+  remoteFile: string
+) {
+  try {
+    const supported = await client.readContract({
+      address: router as `0x${string}`,
+      abi: ROUTER_ABI,
+      functionName: 'isChainSupported',
+      args: [BigInt(selector)],
+    });
+    record(file, 'router-selector', supported ? 'pass' : 'fail',
+      `${remoteFile} selector ${selector} ${supported ? 'is' : 'is NOT'} supported by router ${router}`);
+  } catch (error) {
+    record(file, 'router-selector', 'fail', `isChainSupported(${selector}) failed: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+}
+
+async function checkPairMappings(
+  active: { file: string; onChain: ChainOnChainFields },
+  helper: { file: string; onChain: HelperOnChainFields },
+  activeClient: PublicClient,
+  helperClient: PublicClient
+) {
+  const faucet = active.onChain.contracts.faucet as `0x${string}`;
+  const helperAddress = helper.onChain.contracts.helper as `0x${string}`;
+
+  if (isAddressEqual(faucet, zeroAddress)) {
+    record(active.file, 'trusted-senders', 'skip', 'no faucet deployed');
+    return;
+  }
+
+  try {
+    const trusted = await activeClient.readContract({
+      address: faucet,
+      abi: FAUCET_ABI,
+      functionName: 'trustedSenders',
+      args: [BigInt(helper.onChain.common.chainSelector)],
+    });
+    const ok = isAddressEqual(trusted, helperAddress);
+    record(active.file, 'trusted-senders', ok ? 'pass' : 'fail',
+      `trustedSenders[${helper.onChain.common.chainSelector}] = ${trusted}${ok ? '' : `, expected ${helperAddress} (${helper.file})`}`);
+  } catch (error) {
+    record(active.file, 'trusted-senders', 'fail', `read failed: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+
+  try {
+    const mapped = await helperClient.readContract({
+      address: helperAddress,
+      abi: HELPER_ABI,
+      functionName: 'selectorToFaucet',
+      args: [BigInt(active.onChain.common.chainSelector)],
+    });
+    const ok = isAddressEqual(mapped, faucet);
+    record(helper.file, 'selector-to-faucet', ok ? 'pass' : 'fail',
+      `selectorToFaucet[${active.onChain.common.chainSelector}] = ${mapped}${ok ? '' : `, expected ${faucet} (${active.file})`}`);
+  } catch (error) {
+    record(helper.file, 'selector-to-faucet', 'fail', `read failed: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+}
+
+function checkIcon(file: string, check: string, publicPath: string) {
+  const exists = existsSync(join(process.cwd(), PUBLIC_DIR, publicPath));
+  record(file, check, exists ? 'pass' : 'fail', `${publicPath} ${exists ? 'exists' : 'is missing'}`);
+}
+
+async function main() {
+  console.error('=== Config Lint ===');
+
+  const chainsConfig: { supportedChains: string[] } = JSON.parse(
+    readFileSync(join(process.cwd(), CONFIGS_DIR, 'chains.json'), 'utf-8')
+  );
+  const helperNames = readdirSync(join(process.cwd(), CONFIGS_DIR, 'chains/helpers'))
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''));
+
+  // 1. Schema validation (after env resolution)
+  // The app only disables gas-free claims on unset AA env vars - for a deployment they are errors
+  const validateDeployableChain = (config: unknown, file: string) =>
+    validateChainConfig(config, file, { requireAccountAbstraction: true });
+  const chains = chainsConfig.supportedChains.map(name =>
+    loadConfig<ChainConfig, ChainOnChainFields>(`chains/${name}.json`, name, validateDeployableChain, chainOnChainSchema)
+  );
+  const helpers = new Map(helperNames.map(name =>
+    [name, loadConfig<HelperChainConfig, HelperOnChainFields>(`chains/helpers/${name}.json`, name, validateHelperChainConfig, helperOnChainSchema)] as const
+  ));
+
+  // 2. Per-file on-chain checks: chain ID + code at the CCIP addresses
+  // They need only chainId / rpcUrl / common / contracts - schema failures elsewhere are reported above
+  const clients = new Map<string, PublicClient | null>();
+  for (const entry of [...chains, ...helpers.values()]) {
+    if (!entry.onChain) {
+      record(entry.file, 'on-chain', 'skip', 'chainId, rpcUrl, common or contracts invalid');
+      clients.set(entry.file, null);
+      continue;
+    }
+    const client = createClient(entry.onChain);
+    const reachable = await checkChainId(entry.file, client, entry.onChain.chainId);
+    clients.set(entry.file, reachable ? client : null);
+    if (!reachable) continue;
+
+    await checkCode(entry.file, client, 'linkToken', entry.onChain.common.linkToken);
+    await checkCode(entry.file, client, 'ccipRouter', entry.onChain.common.ccipRouter);
+  }
+
+  // 3. Pair checks: each chain with the helper it names
+  for (const chain of chains) {
+    if (!chain.onChain) continue;
+    const { onChain } = chain;
+    const helperName = onChain.ccip.helperChain;
+    const helper = helpers.get(helperName);
+
+    if (!helper) {
+      record(chain.file, 'helper-config', 'fail', `ccip.helperChain "${helperName}" has no chains/helpers/${helperName}.json`);
+      continue;
+    }
+    if (!helper.onChain) continue;
+    if (onChain.chainId === helper.onChain.chainId) {
+      record(chain.file, 'pair', 'skip', `same-chain deployment with ${helper.file} - no CCIP lanes to check`);
+      continue;
+    }
+
+    const activeClient = clients.get(chain.file);
+    const helperClient = clients.get(helper.file);
+    if (!activeClient || !helperClient) {
+      record(chain.file, 'pair', 'skip', `RPC unavailable for this chain or ${helper.file}`);
+      continue;
+    }
+
+    await checkSelectorOnRouter(chain.file, activeClient, onChain.common.ccipRouter, helper.onChain.common.chainSelector, helper.file);
+    await checkSelectorOnRouter(helper.file, helperClient, helper.onChain.common.ccipRouter, onChain.common.chainSelector, chain.file);
+    await checkPairMappings(
+      { file: chain.file, onChain },
+      { file: helper.file, onChain: helper.onChain },
+      activeClient,
+      helperClient
+    );
+  }
+
+  // 4. Assets the UI derives from each chain (lib/config/ui/theme.ts)
+  for (const chain of chains) {
+    checkIcon(chain.file, 'network-icon', `networks/${chain.name}.png`);
+    const ticker = chainTickerSchema.safeParse(chain.resolved);
+    if (ticker.success) {
+      checkIcon(chain.file, 'token-icon', `tokens/${ticker.data.ticker.toLowerCase()}.png`);
+    } else {
+      record(chain.file, 'token-icon', 'skip', 'ticker invalid');
+    }
+  }
+  checkIcon('chains.json', 'token-icon', 'tokens/link.png');
+
+  const summary: Record<CheckStatus, number> = { pass: 0, fail: 0, warn: 0, skip: 0 };
+  results.forEach(result => summary[result.status]++);
+  const report: LintReport = { ok: summary.fail === 0, summary, checks: results };
+
+  console.error(`=== ${report.ok ? '[PASS]' : '[FAIL]'} ${summary.pass} passed, ${summary.fail} failed, ${summary.warn} warnings, ${summary.skip} skipped ===`);
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  process.exit(report.ok ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Error during config lint:', error);
+  process.exit(2);
+});
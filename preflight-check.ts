@@ -1,9 +1,51 @@
 #!/usr/bin/env tsx
 
-import { createPublicClient, http, getContract, formatEther, parseAbi } from 'viem';
+import { createPublicClient, http, formatEther, parseAbi, type BlockTag, type PublicClient } from 'viem';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { config } from 'dotenv';
+import { scanLogs } from './ccip-faucet-fe/src/lib/log-scanner';
+import { getFaucetEvent } from './ccip-faucet-fe/src/lib/contract-events';
+import { PreflightReport, describeError, parseOutputOptions, readFlag, type CheckStatus, type PreflightCheck } from './preflight-report';
+import { createFixtureClients, loadFixtures, seedFixtures } from './preflight-fixtures';
+import {
+  buildAddChain,
+  buildAddSource,
+  buildDeposit,
+  buildLinkTransfer,
+  parseFixOptions,
+  printFixPlan,
+  sendFixes,
+  type FixAction,
+} from './preflight-fix';
+
+// --format text|json|junit, --output <file>
+const output = parseOutputOptions(process.argv.slice(2));
+// --fixtures <file>: run against local fork/dev nodes instead of the live RPCs
+const fixturesPath = readFlag(process.argv.slice(2), '--fixtures');
+// --fix [--send]: plan (and optionally send) the transactions that fix failed checks
+const fix = parseFixOptions(process.argv.slice(2));
+// Structured formats keep stdout for the report - console lines go to stderr
+if (output.format !== 'text') {
+  console.log = (...args: unknown[]) => console.error(...args);
+}
+
+let report = new PreflightReport();
+// Fix-up transactions queued by the checks (--fix)
+let fixPlan: FixAction[] = [];
+
+function planFix(action: FixAction) {
+  if (fix.enabled) fixPlan.push(action);
+}
+// Expected check outcomes of a fixture run
+let expectations: Record<string, CheckStatus> | undefined;
+
+// Emit the report and exit (non-zero when any error-severity check failed)
+function finish(): never {
+  if (expectations) report.expect(expectations);
+  report.emit(output);
+  process.exit(report.ok ? 0 : 1);
+}
 
 // Load .env file if it exists
 const envPath = join(process.cwd(), '.env');
@@ -26,8 +68,10 @@ function validateEnv(supportedChains: string[]) {
     missing.forEach(key => console.error(`  - ${key}`));
     console.error('\nPlease set these in your .env file or export them:');
     missing.forEach(key => console.error(`  export ${key}="your_rpc_url_here"`));
-    process.exit(1);
+    missing.forEach(key => report.fail('environment', `env.${key}`, 'error', `${key} is not set`, `export ${key}="your_rpc_url_here" (or add it to .env)`));
+    finish();
   }
+  report.pass('environment', 'env.rpc-urls', `RPC URLs set for ${supportedChains.length} chains`);
 }
 
 // Dynamic chain configuration loading from config files
@@ -86,6 +130,7 @@ const FAUCET_ABI = parseAbi([
   'function getReservoirStatus() external view returns (uint256, uint256, uint256, uint256)',
   'function refillInProgress() external view returns (bool)',
   'function thresholdFactor() external view returns (uint256)',
+  'function getTreasuryStatus() external view returns (uint256, uint256, uint256, uint256, uint256, uint256)',
   'function owner() external view returns (address)'
 ]);
 
@@ -95,6 +140,9 @@ const HELPER_ABI = parseAbi([
   'function volatilityFeed() external view returns (address)'
 ]);
 
+// How far back to look for the refill that is still pending
+const PENDING_REFILL_LOOKBACK = BigInt(20000);
+
 const ERC20_ABI = parseAbi([
   'function balanceOf(address) external view returns (uint256)'
 ]);
@@ -119,149 +167,299 @@ interface Config {
   };
 }
 
-async function main() {
-  try {
-    // Load supported chains dynamically
-    const CHAINS = loadSupportedChains();
-    
-    // Validate environment for all supported chains
-    validateEnv(Object.keys(CHAINS));
-    
-    const activeChain = process.env.CHAIN_NAME || 'monad-testnet';
-    const helperChain = process.env.HELPER_NAME || 'avalanche-fuji';
+// Everything the checks run against - clients are injected (live RPCs or fixture nodes)
+interface PreflightTarget {
+  activeChain: string;
+  helperChain: string;
+  activeConfig: Config;
+  helperConfig: Config;
+  activeClient: PublicClient;
+  helperClient: PublicClient;
+  /** What to print for each side's RPC */
+  rpcLabels: { active: string; helper: string };
+  /** Where --fix --send submits transactions */
+  rpcUrls: { active: string; helper: string };
+}
 
-    console.log('=== CCIP Pre-Flight Checks ===');
-    console.log(`Active Chain: ${activeChain}`);
-    console.log(`Helper Chain: ${helperChain}`);
-    
-    // Detect same-chain deployment
-    const isSameChain = activeChain === helperChain;
-    if (isSameChain) {
-      console.log('🔗 Same-chain deployment detected - using direct volatility feeds');
-    } else {
-      console.log('🌐 Cross-chain deployment detected - using CCIP communication');
-    }
-    console.log('');
-    
-    // Validate that requested chains are supported
-    if (!CHAINS[activeChain]) {
-      throw new Error(`Active chain '${activeChain}' not found in supported chains: ${Object.keys(CHAINS).join(', ')}`);
-    }
-    if (!CHAINS[helperChain]) {
-      throw new Error(`Helper chain '${helperChain}' not found in supported chains: ${Object.keys(CHAINS).join(', ')}`);
-    }
-    
-    // Debug: Show RPC URLs (first 20 chars for security)
-    console.log('=== RPC URLs ===');
-    console.log(`${CHAINS[activeChain].name} RPC: ${CHAINS[activeChain].rpcUrl?.substring(0, 20)}...`);
-    console.log(`${CHAINS[helperChain].name} RPC: ${CHAINS[helperChain].rpcUrl?.substring(0, 20)}...`);
-    console.log('');
+// Live mode: RPC URLs from <CHAIN>_RPC_URL for every supported chain
+function prepareLiveTarget(): PreflightTarget {
+  // Load supported chains dynamically
+  const CHAINS = loadSupportedChains();
 
-    // Read configurations using dynamic paths
-    const activeConfig = readConfig(activeChain, CHAINS[activeChain].configPath);
-    
-    // Always read helper config from helpers/ folder (even for same-chain)
-    // This ensures we get the helper contract address
-    const helperConfig = readConfig(helperChain, getConfigPath(helperChain, true)); // Helper configs are in helpers/ folder
+  const activeChain = process.env.CHAIN_NAME || 'monad-testnet';
+  const helperChain = process.env.HELPER_NAME || 'avalanche-fuji';
+  report.meta = { activeChain, helperChain, sameChain: activeChain === helperChain };
 
-    // Create clients using dynamic RPC URLs
-    const activeClient = createPublicClient({
-      transport: http(CHAINS[activeChain].rpcUrl)
-    });
+  // Validate environment for all supported chains
+  validateEnv(Object.keys(CHAINS));
 
-    // For same-chain deployment, use the same client; for cross-chain, create separate client
-    const helperClient = isSameChain 
-      ? activeClient  // Same chain - use same client (optimization)
-      : createPublicClient({
-          transport: http(CHAINS[helperChain].rpcUrl)
-        });
-
-    console.log('=== 1. Contract Addresses ===');
-    console.log(`Faucet Address: ${activeConfig.contracts.faucet}`);
-    console.log(`Helper Address: ${helperConfig.contracts.helper}`);
-    console.log(`Active Selector: ${activeConfig.common.chainSelector}`);
-    console.log(`Helper Selector: ${helperConfig.common.chainSelector}`);
+  // Validate that requested chains are supported
+  if (!CHAINS[activeChain]) {
+    throw new Error(`Active chain '${activeChain}' not found in supported chains: ${Object.keys(CHAINS).join(', ')}`);
+  }
+  if (!CHAINS[helperChain]) {
+    throw new Error(`Helper chain '${helperChain}' not found in supported chains: ${Object.keys(CHAINS).join(', ')}`);
+  }
+
+  // Read configurations using dynamic paths
+  const activeConfig = readConfig(activeChain, CHAINS[activeChain].configPath);
+
+  // Always read helper config from helpers/ folder (even for same-chain)
+  // This ensures we get the helper contract address
+  const helperConfig = readConfig(helperChain, getConfigPath(helperChain, true)); // Helper configs are in helpers/ folder
+
+  // Create clients using dynamic RPC URLs
+  const activeClient = createPublicClient({
+    transport: http(CHAINS[activeChain].rpcUrl)
+  }) as PublicClient;
+
+  // For same-chain deployment, use the same client; for cross-chain, create separate client
+  const helperClient = activeChain === helperChain
+    ? activeClient  // Same chain - use same client (optimization)
+    : createPublicClient({
+        transport: http(CHAINS[helperChain].rpcUrl)
+      }) as PublicClient;
+
+  return {
+    activeChain,
+    helperChain,
+    activeConfig,
+    helperConfig,
+    activeClient,
+    helperClient,
+    // First 20 chars for security
+    rpcLabels: {
+      active: `${CHAINS[activeChain].name} RPC: ${CHAINS[activeChain].rpcUrl?.substring(0, 20)}...`,
+      helper: `${CHAINS[helperChain].name} RPC: ${CHAINS[helperChain].rpcUrl?.substring(0, 20)}...`,
+    },
+    rpcUrls: { active: CHAINS[activeChain].rpcUrl, helper: CHAINS[helperChain].rpcUrl },
+  };
+}
+
+// Fixture mode: local fork/dev node per side, seeded from the fixtures file (no RPC env vars needed)
+async function prepareFixtureTarget(path: string): Promise<PreflightTarget> {
+  const fixtures = loadFixtures(path);
+  const { activeChain, helperChain } = fixtures;
+  report.meta = { activeChain, helperChain, sameChain: activeChain === helperChain };
+  console.log(`✓ Loaded fixtures ${path}`);
+
+  const activeConfig = readConfig(activeChain, getConfigPath(activeChain, false));
+  const helperConfig = readConfig(helperChain, getConfigPath(helperChain, true));
+  const { activeClient, helperClient } = createFixtureClients(fixtures);
+
+  await seedFixtures(fixtures, { activeClient, helperClient }, {
+    faucet: activeConfig.contracts.faucet!,
+    helper: helperConfig.contracts.helper!,
+    activeSelector: activeConfig.common.chainSelector,
+    helperSelector: helperConfig.common.chainSelector,
+    activeLink: activeConfig.common.linkToken,
+    helperLink: helperConfig.common.linkToken,
+    activeRouter: activeConfig.common.ccipRouter,
+    helperRouter: helperConfig.common.ccipRouter,
+    helperFeed: helperConfig.contracts.volatilityFeed!,
+  });
+  expectations = fixtures.expect;
+
+  return {
+    activeChain,
+    helperChain,
+    activeConfig,
+    helperConfig,
+    activeClient,
+    helperClient,
+    rpcLabels: {
+      active: `${activeChain} fixture RPC: ${fixtures.rpc.active}`,
+      helper: `${helperChain} fixture RPC: ${fixtures.rpc.helper ?? fixtures.rpc.active}`,
+    },
+    rpcUrls: { active: fixtures.rpc.active, helper: fixtures.rpc.helper ?? fixtures.rpc.active },
+  };
+}
+
+async function runChecks(target: PreflightTarget) {
+  const { activeChain, helperChain, activeConfig, helperConfig, activeClient, helperClient } = target;
+
+  console.log('=== CCIP Pre-Flight Checks ===');
+  console.log(`Active Chain: ${activeChain}`);
+  console.log(`Helper Chain: ${helperChain}`);
+
+  // Detect same-chain deployment
+  const isSameChain = activeChain === helperChain;
+  if (isSameChain) {
+    console.log('🔗 Same-chain deployment detected - using direct volatility feeds');
+  } else {
+    console.log('🌐 Cross-chain deployment detected - using CCIP communication');
+  }
+  console.log('');
+
+  // Debug: Show RPC URLs
+  console.log('=== RPC URLs ===');
+  console.log(target.rpcLabels.active);
+  console.log(target.rpcLabels.helper);
+  console.log('');
+
+  console.log('=== 1. Contract Addresses ===');
+  console.log(`Faucet Address: ${activeConfig.contracts.faucet}`);
+  console.log(`Helper Address: ${helperConfig.contracts.helper}`);
+  console.log(`Active Selector: ${activeConfig.common.chainSelector}`);
+  console.log(`Helper Selector: ${helperConfig.common.chainSelector}`);
+  console.log('');
+
+  // Check contract deployments
+  const faucetDeployed = await checkContractDeployed(activeClient, activeConfig.contracts.faucet!, 'Faucet');
+  const helperDeployed = await checkContractDeployed(helperClient, helperConfig.contracts.helper!, 'Helper');
+
+  if (!faucetDeployed || !helperDeployed) {
+    console.log('[NOT READY] Contracts not deployed properly');
+    finish();
+  }
+
+  // Check cross-chain mappings (skip for same-chain deployments)
+  let mappingsOk = true;
+  if (isSameChain) {
+    console.log('=== 2. Same-Chain Configuration ===');
+    console.log('[INFO] Same-chain deployment - skipping cross-chain mapping checks');
+    console.log('[INFO] Faucet will use direct volatility feed access instead of CCIP');
     console.log('');
+    report.info('mappings', 'mappings.same-chain', 'Same-chain deployment - cross-chain mappings not needed');
+  } else {
+    console.log('=== 2. Cross-Chain Mappings ===');
+    mappingsOk = await checkMappings(
+      activeClient, 
+      helperClient, 
+      activeConfig, 
+      helperConfig
+    );
+  }
 
-    // Check contract deployments
-    const faucetDeployed = await checkContractDeployed(activeClient, activeConfig.contracts.faucet!, 'Faucet');
-    const helperDeployed = await checkContractDeployed(helperClient, helperConfig.contracts.helper!, 'Helper');
+  // Check LINK balances in vaults (still needed for same-chain, but different requirements)
+  console.log('=== 3. LINK Token Balances (Vaults) ===');
+  const linkOk = await checkLinkBalances(
+    activeClient,
+    helperClient,
+    activeConfig,
+    helperConfig,
+    isSameChain
+  );
 
-    if (!faucetDeployed || !helperDeployed) {
-      console.log('[NOT READY] Contracts not deployed properly');
-      process.exit(1);
-    }
+  // Check volatility feed
+  console.log('=== 4. Volatility Feed ===');
+  const feedOk = await checkVolatilityFeed(helperClient, helperConfig);
 
-    // Check cross-chain mappings (skip for same-chain deployments)
-    let mappingsOk = true;
+  // Check faucet state (tanks = distribution allocation, vaults = available balance)
+  console.log('=== 5. Faucet State (Tanks) ===');
+  const { stateOk, needsRefill } = await checkFaucetState(activeClient, activeConfig.contracts.faucet!);
+
+  // Check owners
+  console.log('=== 6. Owner Verification ===');
+  await checkOwners(activeClient, helperClient, activeConfig, helperConfig);
+
+  // Summary
+  console.log('=== Summary ===');
+  const allChecksPass = mappingsOk && linkOk && feedOk && stateOk;
+  
+  if (allChecksPass) {
     if (isSameChain) {
-      console.log('=== 2. Same-Chain Configuration ===');
-      console.log('[INFO] Same-chain deployment - skipping cross-chain mapping checks');
-      console.log('[INFO] Faucet will use direct volatility feed access instead of CCIP');
-      console.log('');
+      console.log('[READY] Same-chain deployment ready! All checks passed.');
+      console.log('[INFO] Faucet will use direct volatility feed access (no CCIP required)');
+    } else {
+      console.log('[READY] Cross-chain CCIP ready! All checks passed.');
+    }
+    const rpcEnvVar = `${activeChain.toUpperCase().replace('-', '_')}_RPC_URL`;
+    
+    if (needsRefill) {
+      console.log(`[ACTION] Tanks need refill - Run: cast send ${activeConfig.contracts.faucet} "triggerRefillCheck()" --private-key $FAUCET_PRIVATE_KEY --rpc-url $${rpcEnvVar}`);
+      report.info('faucet-state', 'faucet-state.refill-needed', 'Tanks are below threshold',
+        `cast send ${activeConfig.contracts.faucet} "triggerRefillCheck()" --private-key $FAUCET_PRIVATE_KEY --rpc-url $${rpcEnvVar}`);
     } else {
-      console.log('=== 2. Cross-Chain Mappings ===');
-      mappingsOk = await checkMappings(
-        activeClient, 
-        helperClient, 
-        activeConfig, 
-        helperConfig
-      );
+      console.log(`[INFO] Tanks are full - Faucet ready for user operations`);
+      console.log(`[OPTIONAL] To test refill: cast send ${activeConfig.contracts.faucet} "triggerRefillCheck()" --private-key $FAUCET_PRIVATE_KEY --rpc-url $${rpcEnvVar}`);
     }
+  } else {
+    if (isSameChain) {
+      console.log('[NOT READY] Fix issues above before triggering same-chain refill.');
+    } else {
+      console.log('[NOT READY] Fix issues above before triggering CCIP.');
+    }
+  }
+  console.log('');
+}
 
-    // Check LINK balances in vaults (still needed for same-chain, but different requirements)
-    console.log('=== 3. LINK Token Balances (Vaults) ===');
-    const linkOk = await checkLinkBalances(
-      activeClient,
-      helperClient,
-      activeConfig,
-      helperConfig,
-      isSameChain
-    );
+// Run checks against a scratch report/plan and return what they recorded (--fix re-check)
+async function collectChecks(run: () => Promise<unknown>): Promise<PreflightCheck[]> {
+  const [mainReport, mainPlan] = [report, fixPlan];
+  report = new PreflightReport();
+  fixPlan = [];
+  try {
+    await run();
+    return report.checks;
+  } finally {
+    [report, fixPlan] = [mainReport, mainPlan];
+  }
+}
 
-    // Check volatility feed
-    console.log('=== 4. Volatility Feed ===');
-    const feedOk = await checkVolatilityFeed(helperClient, helperConfig);
+// --fix: print the plan; with --send, execute it and re-run the checks it targeted
+async function applyFixes(target: PreflightTarget) {
+  printFixPlan(fixPlan, fix.send);
 
-    // Check faucet state (tanks = distribution allocation, vaults = available balance)
-    console.log('=== 5. Faucet State (Tanks) ===');
-    const { stateOk, needsRefill } = await checkFaucetState(activeClient, activeConfig.contracts.faucet!);
+  if (!fix.send) {
+    fixPlan.forEach(action => report.info('fixes', `fix.${action.checkId}`,
+      `Planned ${action.side} ${action.to}.${action.call}`, `Send with --fix --send (calldata ${action.data})`));
+    return;
+  }
+  if (fixPlan.length === 0) return;
 
-    // Check owners
-    console.log('=== 6. Owner Verification ===');
-    await checkOwners(activeClient, helperClient, activeConfig, helperConfig);
+  const privateKey = process.env.FAUCET_PRIVATE_KEY;
+  if (!privateKey) {
+    report.fail('fixes', 'fix.signer', 'error', 'FAUCET_PRIVATE_KEY is not set - nothing was sent',
+      'export FAUCET_PRIVATE_KEY=<owner key> (addChain/addSource are owner-only; transfers/deposits need funds)');
+    return;
+  }
 
-    // Summary
-    console.log('=== Summary ===');
-    const allChecksPass = mappingsOk && linkOk && feedOk && stateOk;
-    
-    if (allChecksPass) {
-      if (isSameChain) {
-        console.log('[READY] Same-chain deployment ready! All checks passed.');
-        console.log('[INFO] Faucet will use direct volatility feed access (no CCIP required)');
-      } else {
-        console.log('[READY] Cross-chain CCIP ready! All checks passed.');
-      }
-      const rpcEnvVar = `${activeChain.toUpperCase().replace('-', '_')}_RPC_URL`;
-      
-      if (needsRefill) {
-        console.log(`[ACTION] Tanks need refill - Run: cast send ${activeConfig.contracts.faucet} "triggerRefillCheck()" --private-key $FAUCET_PRIVATE_KEY --rpc-url $${rpcEnvVar}`);
-      } else {
-        console.log(`[INFO] Tanks are full - Faucet ready for user operations`);
-        console.log(`[OPTIONAL] To test refill: cast send ${activeConfig.contracts.faucet} "triggerRefillCheck()" --private-key $FAUCET_PRIVATE_KEY --rpc-url $${rpcEnvVar}`);
-      }
+  const results = await sendFixes(fixPlan, target.rpcUrls, (privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`) as `0x${string}`);
+  fixPlan.forEach((action, index) => {
+    const result = results[index];
+    const id = `fix.${action.checkId}`;
+    if (!result) {
+      report.fail('fixes', id, 'warn', `Not sent: ${action.call} (an earlier fix failed)`);
+    } else if (result.status === 'confirmed') {
+      report.pass('fixes', id, `${action.call} confirmed (${result.hash})`);
     } else {
-      if (isSameChain) {
-        console.log('[NOT READY] Fix issues above before triggering same-chain refill.');
-      } else {
-        console.log('[NOT READY] Fix issues above before triggering CCIP.');
-      }
+      report.fail('fixes', id, 'error', `${action.call} failed: ${result.error}`,
+        action.signer === 'owner' ? 'Sign with the contract owner key' : 'Fund the signer on this chain');
+    }
+  });
+
+  // Re-run the checks whose fixes were confirmed and replace their results
+  const confirmed = results.filter(result => result.status === 'confirmed');
+  if (confirmed.length === 0) return;
+  console.log('=== 8. Re-check After Fixes ===');
+  const groups = new Set(confirmed.map(result => result.action.checkId.split('.')[0]));
+  const isSameChain = target.activeChain === target.helperChain;
+  const rechecked = await collectChecks(async () => {
+    if (groups.has('mappings')) {
+      await checkMappings(target.activeClient, target.helperClient, target.activeConfig, target.helperConfig);
+    }
+    if (groups.has('link-balances')) {
+      await checkLinkBalances(target.activeClient, target.helperClient, target.activeConfig, target.helperConfig, isSameChain);
     }
+    if (groups.has('faucet-state')) {
+      await checkFaucetState(target.activeClient, target.activeConfig.contracts.faucet!);
+    }
+  });
+  report.applyRecheck(rechecked);
+}
 
+async function main() {
+  try {
+    const target = fixturesPath ? await prepareFixtureTarget(fixturesPath) : prepareLiveTarget();
+    await runChecks(target);
+    if (fix.enabled) await applyFixes(target);
   } catch (error) {
     console.error('Error during pre-flight checks:', error);
-    process.exit(1);
+    report.fail('setup', 'setup', 'error', `Pre-flight could not run: ${describeError(error)}`);
   }
+
+  finish();
 }
 
 function readConfig(chainName: string, configPath: string): Config {
@@ -274,61 +472,75 @@ function readConfig(chainName: string, configPath: string): Config {
   }
 }
 
-async function checkContractDeployed(client: any, address: string, name: string): Promise<boolean> {
+async function checkContractDeployed(client: PublicClient, address: string, name: string): Promise<boolean> {
   try {
     const code = await client.getBytecode({ address: address as `0x${string}` });
+    const id = `deployment.${name.toLowerCase()}`;
     if (code && code !== '0x') {
       console.log(`[OK] ${name} contract deployed`);
+      report.pass('deployment', id, `${name} deployed at ${address}`);
       return true;
     } else {
       console.log(`[ERROR] ${name} contract not found at ${address}`);
+      report.fail('deployment', id, 'error', `${name} contract not found at ${address}`,
+        `Deploy the ${name} contract or fix its address in the chain config`);
       return false;
     }
   } catch (error) {
     console.log(`[ERROR] ${name} contract check failed: ${error}`);
+    report.fail('deployment', `deployment.${name.toLowerCase()}`, 'error', `${name} contract check failed: ${describeError(error)}`,
+      'Check the RPC URL for this chain');
     return false;
   }
 }
 
 async function checkMappings(
-  activeClient: any,
-  helperClient: any,
+  activeClient: PublicClient,
+  helperClient: PublicClient,
   activeConfig: Config,
   helperConfig: Config
 ): Promise<boolean> {
   try {
     // Check faucet → helper mapping
-    const faucetContract = getContract({
+    const trustedHelper = await activeClient.readContract({
       address: activeConfig.contracts.faucet! as `0x${string}`,
       abi: FAUCET_ABI,
-      client: activeClient
+      functionName: 'trustedSenders',
+      args: [BigInt(helperConfig.common.chainSelector)]
     });
-
-    const trustedHelper = await faucetContract.read.trustedSenders([BigInt(helperConfig.common.chainSelector)]);
     console.log(`Faucet trustedSenders[${helperConfig.common.chainSelector}] = ${trustedHelper}`);
     
     const faucetOk = trustedHelper.toLowerCase() === helperConfig.contracts.helper!.toLowerCase();
     if (faucetOk) {
       console.log('[OK] Faucet correctly trusts helper');
+      report.pass('mappings', 'mappings.faucet-trusts-helper', `trustedSenders[${helperConfig.common.chainSelector}] = ${trustedHelper}`);
     } else {
       console.log(`[ERROR] Faucet mapping incorrect. Expected: ${helperConfig.contracts.helper}, Got: ${trustedHelper}`);
+      report.fail('mappings', 'mappings.faucet-trusts-helper', 'error',
+        `trustedSenders[${helperConfig.common.chainSelector}] is ${trustedHelper}, expected ${helperConfig.contracts.helper}`,
+        `cast send ${activeConfig.contracts.faucet} "addChain(uint64,address)" ${helperConfig.common.chainSelector} ${helperConfig.contracts.helper} --private-key $FAUCET_PRIVATE_KEY`);
+      planFix(buildAddChain('mappings.faucet-trusts-helper', activeConfig.contracts.faucet!, helperConfig.common.chainSelector, helperConfig.contracts.helper!));
     }
 
     // Check helper → faucet mapping
-    const helperContract = getContract({
+    const trustedFaucet = await helperClient.readContract({
       address: helperConfig.contracts.helper! as `0x${string}`,
       abi: HELPER_ABI,
-      client: helperClient
+      functionName: 'selectorToFaucet',
+      args: [BigInt(activeConfig.common.chainSelector)]
     });
-
-    const trustedFaucet = await helperContract.read.selectorToFaucet([BigInt(activeConfig.common.chainSelector)]);
     console.log(`Helper selectorToFaucet[${activeConfig.common.chainSelector}] = ${trustedFaucet}`);
     
     const helperOk = trustedFaucet.toLowerCase() === activeConfig.contracts.faucet!.toLowerCase();
     if (helperOk) {
       console.log('[OK] Helper correctly trusts faucet');
+      report.pass('mappings', 'mappings.helper-trusts-faucet', `selectorToFaucet[${activeConfig.common.chainSelector}] = ${trustedFaucet}`);
     } else {
       console.log(`[ERROR] Helper mapping incorrect. Expected: ${activeConfig.contracts.faucet}, Got: ${trustedFaucet}`);
+      report.fail('mappings', 'mappings.helper-trusts-faucet', 'error',
+        `selectorToFaucet[${activeConfig.common.chainSelector}] is ${trustedFaucet}, expected ${activeConfig.contracts.faucet}`,
+        `cast send ${helperConfig.contracts.helper} "addSource(uint64,address)" ${activeConfig.common.chainSelector} ${activeConfig.contracts.faucet} --private-key $FAUCET_PRIVATE_KEY`);
+      planFix(buildAddSource('mappings.helper-trusts-faucet', helperConfig.contracts.helper!, activeConfig.common.chainSelector, activeConfig.contracts.faucet!));
     }
 
     console.log('');
@@ -336,26 +548,27 @@ async function checkMappings(
   } catch (error) {
     console.log(`[ERROR] Mapping check failed: ${error}`);
     console.log('');
+    report.fail('mappings', 'mappings.read', 'error', `Mapping check failed: ${describeError(error)}`,
+      'Verify the faucet/helper addresses and RPC URLs for both chains');
     return false;
   }
 }
 
 async function checkLinkBalances(
-  activeClient: any,
-  helperClient: any,
+  activeClient: PublicClient,
+  helperClient: PublicClient,
   activeConfig: Config,
   helperConfig: Config,
   isSameChain: boolean = false
 ): Promise<boolean> {
   try {
     // Check faucet LINK vault balance (available for CCIP fees)
-    const activeLinkContract = getContract({
+    const faucetBalance = await activeClient.readContract({
       address: activeConfig.common.linkToken as `0x${string}`,
       abi: ERC20_ABI,
-      client: activeClient
+      functionName: 'balanceOf',
+      args: [activeConfig.contracts.faucet! as `0x${string}`]
     });
-
-    const faucetBalance = await activeLinkContract.read.balanceOf([activeConfig.contracts.faucet!]);
     console.log(`Faucet LINK vault balance: ${formatEther(faucetBalance)} LINK`);
 
     let helperBalance = BigInt(0);
@@ -363,21 +576,21 @@ async function checkLinkBalances(
     if (isSameChain) {
       console.log('[INFO] Same-chain deployment - helper contract may not need LINK for direct feeds');
       // For same-chain, we still check helper balance but it's less critical
-      const helperLinkContract = getContract({
+      helperBalance = await helperClient.readContract({
         address: helperConfig.common.linkToken as `0x${string}`,
         abi: ERC20_ABI,
-        client: helperClient
+        functionName: 'balanceOf',
+        args: [helperConfig.contracts.helper! as `0x${string}`]
       });
-      helperBalance = await helperLinkContract.read.balanceOf([helperConfig.contracts.helper!]);
       console.log(`Helper LINK vault balance: ${formatEther(helperBalance)} LINK (not required for same-chain)`);
     } else {
       // Check helper LINK balance for cross-chain
-      const helperLinkContract = getContract({
+      helperBalance = await helperClient.readContract({
         address: helperConfig.common.linkToken as `0x${string}`,
         abi: ERC20_ABI,
-        client: helperClient
+        functionName: 'balanceOf',
+        args: [helperConfig.contracts.helper! as `0x${string}`]
       });
-      helperBalance = await helperLinkContract.read.balanceOf([helperConfig.contracts.helper!]);
       console.log(`Helper LINK vault balance: ${formatEther(helperBalance)} LINK`);
     }
 
@@ -386,17 +599,28 @@ async function checkLinkBalances(
 
     if (faucetOk) {
       console.log('[OK] Faucet vault has sufficient LINK (>=1)');
+      report.pass('link-balances', 'link-balances.faucet', `Faucet vault holds ${formatEther(faucetBalance)} LINK`);
     } else {
       console.log('[ERROR] Faucet vault needs more LINK for outbound fees');
+      report.fail('link-balances', 'link-balances.faucet', 'error',
+        `Faucet vault holds ${formatEther(faucetBalance)} LINK (< 1 LINK for outbound CCIP fees)`,
+        `Transfer LINK (${activeConfig.common.linkToken}) to the faucet ${activeConfig.contracts.faucet}`);
+      planFix(buildLinkTransfer('link-balances.faucet', 'active', activeConfig.common.linkToken, activeConfig.contracts.faucet!, fix.linkTarget - faucetBalance));
     }
 
     if (isSameChain) {
       console.log('[OK] Helper vault LINK balance not required for same-chain deployment');
+      report.info('link-balances', 'link-balances.helper', 'Helper LINK not required for same-chain deployment');
     } else {
       if (helperOk) {
         console.log('[OK] Helper vault has sufficient LINK (>=1)');
+        report.pass('link-balances', 'link-balances.helper', `Helper vault holds ${formatEther(helperBalance)} LINK`);
       } else {
         console.log('[ERROR] Helper vault needs more LINK for reply fees');
+        report.fail('link-balances', 'link-balances.helper', 'error',
+          `Helper vault holds ${formatEther(helperBalance)} LINK (< 1 LINK for reply CCIP fees)`,
+          `Transfer LINK (${helperConfig.common.linkToken}) to the helper ${helperConfig.contracts.helper}`);
+        planFix(buildLinkTransfer('link-balances.helper', 'helper', helperConfig.common.linkToken, helperConfig.contracts.helper!, fix.linkTarget - helperBalance));
       }
     }
 
@@ -405,42 +629,39 @@ async function checkLinkBalances(
   } catch (error) {
     console.log(`[ERROR] LINK balance check failed: ${error}`);
     console.log('');
+    report.fail('link-balances', 'link-balances.read', 'error', `LINK balance check failed: ${describeError(error)}`,
+      'Verify common.linkToken in both chain configs');
     return false;
   }
 }
 
 async function checkVolatilityFeed(
-  helperClient: any,
+  helperClient: PublicClient,
   helperConfig: Config
 ): Promise<boolean> {
   try {
     // Get volatility feed address from helper contract
-    const helperContract = getContract({
+    const feedAddress = await helperClient.readContract({
       address: helperConfig.contracts.helper! as `0x${string}`,
       abi: HELPER_ABI,
-      client: helperClient
+      functionName: 'volatilityFeed'
     });
-
-    const feedAddress = await helperContract.read.volatilityFeed();
     console.log(`Volatility Feed Address: ${feedAddress}`);
 
-    // Test the feed
-    const feedContract = getContract({
-      address: feedAddress as `0x${string}`,
-      abi: VOLATILITY_FEED_ABI,
-      client: helperClient
-    });
-
     // Get feed description
     let description = 'Unknown Feed';
     try {
-      description = await feedContract.read.description();
+      description = await helperClient.readContract({ address: feedAddress, abi: VOLATILITY_FEED_ABI, functionName: 'description' });
     } catch (e) {
       // Some feeds might not have description, that's ok
     }
 
-    // Test latestRoundData
-    const [roundId, answer, startedAt, updatedAt, answeredInRound] = await feedContract.read.latestRoundData();
+    // Test the feed's latestRoundData
+    const [, answer, , updatedAt] = await helperClient.readContract({
+      address: feedAddress,
+      abi: VOLATILITY_FEED_ABI,
+      functionName: 'latestRoundData'
+    });
     
     console.log(`Feed Description: ${description}`);
     console.log(`Latest Price: ${answer} (raw value)`);
@@ -455,11 +676,17 @@ async function checkVolatilityFeed(
     
     if (hasValidAnswer && isRecent) {
       console.log('[OK] Volatility feed is working and data is recent');
+      report.pass('volatility-feed', 'volatility-feed.answer', `${description} at ${feedAddress} answered ${answer}`);
     } else if (!hasValidAnswer) {
       console.log('[ERROR] Volatility feed returned zero/invalid price');
+      report.fail('volatility-feed', 'volatility-feed.answer', 'error', `${description} at ${feedAddress} returned zero`,
+        'Point the helper at a live feed (contracts.volatilityFeed in the helper config, then redeploy/configure the helper)');
     } else if (!isRecent) {
       console.log('[WARN] Volatility feed data is stale (>24h old)');
       console.log('[OK] Feed is functional but data may be outdated');
+      report.fail('volatility-feed', 'volatility-feed.freshness', 'warn',
+        `Last update ${new Date(Number(updatedAt) * 1000).toISOString()} is more than 24h old`,
+        'Refills still work, but drip rates will use outdated volatility');
     }
 
     console.log('');
@@ -468,65 +695,75 @@ async function checkVolatilityFeed(
     console.log(`[ERROR] Volatility feed check failed: ${error}`);
     console.log('[ERROR] This will cause CCIP message execution to revert!');
     console.log('');
+    report.fail('volatility-feed', 'volatility-feed.read', 'error', `Volatility feed check failed: ${describeError(error)}`,
+      'The helper\'s volatilityFeed() must be a Chainlink feed exposing latestRoundData() - CCIP execution reverts otherwise');
     return false;
   }
 }
 
 // Safe contract read with retry logic for different block tags
-async function safeContractRead(contract: any, functionName: string, args: any[] = []): Promise<any> {
-  const blockTags = ['latest', 'pending', 'safe'];
+async function safeContractRead<T>(read: (blockTag?: BlockTag) => Promise<T>): Promise<T> {
+  const blockTags: BlockTag[] = ['latest', 'pending', 'safe'];
   
   for (const blockTag of blockTags) {
     try {
-      if (args.length > 0) {
-        return await contract.read[functionName](args, { blockTag });
-      } else {
-        return await contract.read[functionName]({ blockTag });
-      }
+      return await read(blockTag);
     } catch (error) {
       // Continue to next block tag
     }
   }
   
   // If all block tags fail, try without specifying block tag
-  try {
-    if (args.length > 0) {
-      return await contract.read[functionName](args);
-    } else {
-      return await contract.read[functionName]();
-    }
-  } catch (error) {
-    throw error;
-  }
+  return read();
 }
 
-async function checkFaucetState(client: any, faucetAddress: string): Promise<boolean> {
+async function checkFaucetState(client: PublicClient, faucetAddress: string): Promise<{ stateOk: boolean; needsRefill: boolean }> {
   try {
-    const faucetContract = getContract({
-      address: faucetAddress as `0x${string}`,
-      abi: FAUCET_ABI,
-      client
-    });
+    const faucet = { address: faucetAddress as `0x${string}`, abi: FAUCET_ABI } as const;
 
     // Check tank status with retry logic (tanks = allocated for distribution)
-    const [nativeTank, nativeDripRate, linkTank, linkDripRate] = await safeContractRead(faucetContract, 'getReservoirStatus');
+    const [nativeTank, nativeDripRate, linkTank, linkDripRate] = await safeContractRead(blockTag =>
+      client.readContract({ ...faucet, functionName: 'getReservoirStatus', blockTag }));
     console.log(`Native Tank: ${formatEther(nativeTank)} tokens (allocated for distribution)`);
     console.log(`LINK Tank: ${formatEther(linkTank)} LINK (allocated for distribution)`);
 
     // Check refill status with retry logic
-    const refillInProgress = await safeContractRead(faucetContract, 'refillInProgress');
+    const refillInProgress = await safeContractRead(blockTag =>
+      client.readContract({ ...faucet, functionName: 'refillInProgress', blockTag }));
     console.log(`Refill in progress: ${refillInProgress}`);
 
     if (refillInProgress) {
       console.log('[ERROR] Cannot trigger: refill already in progress');
+      const messageId = await reportPendingRefill(client, faucetAddress);
+      report.fail('faucet-state', 'faucet-state.refill-in-progress', 'error', 'A refill is already in progress',
+        messageId
+          ? `Wait for https://ccip.chain.link/msg/${messageId}; if it failed: cast send ${faucetAddress} "emergencyResetRefillState(bytes32[])" "[${messageId}]" --private-key $FAUCET_PRIVATE_KEY`
+          : `If the pending message failed: cast send ${faucetAddress} "emergencyResetRefillState(bytes32[])" "[<messageId>]" --private-key $FAUCET_PRIVATE_KEY`);
       console.log('');
-      return false;
+      return { stateOk: false, needsRefill: false };
     } else {
       console.log('[OK] No active refill');
+      report.pass('faucet-state', 'faucet-state.refill-in-progress', 'No active refill');
+    }
+
+    // Native treasury (vault) is what a refill moves into the tank - deposit() tops it up
+    const [nativeTreasury] = await safeContractRead(blockTag =>
+      client.readContract({ ...faucet, functionName: 'getTreasuryStatus', blockTag }));
+    console.log(`Native Treasury: ${formatEther(nativeTreasury)} tokens (available for refills)`);
+    if (nativeTreasury >= nativeDripRate && nativeTreasury > BigInt(0)) {
+      console.log('[OK] Native treasury can fund a refill');
+      report.pass('faucet-state', 'faucet-state.native-treasury', `Native treasury holds ${formatEther(nativeTreasury)}`, 'warn');
+    } else {
+      console.log('[WARN] Native treasury is empty - refills cannot top up the native tank');
+      report.fail('faucet-state', 'faucet-state.native-treasury', 'warn',
+        `Native treasury holds ${formatEther(nativeTreasury)} (less than one drip of ${formatEther(nativeDripRate)})`,
+        `cast send ${faucetAddress} "deposit()" --value 1ether --private-key $FAUCET_PRIVATE_KEY`);
+      planFix(buildDeposit('faucet-state.native-treasury', faucetAddress, fix.depositAmount));
     }
 
     // Check if refill is needed with retry logic (refill transfers from vault to tank)
-    const thresholdFactor = await safeContractRead(faucetContract, 'thresholdFactor');
+    const thresholdFactor = await safeContractRead(blockTag =>
+      client.readContract({ ...faucet, functionName: 'thresholdFactor', blockTag }));
     const nativeThreshold = nativeDripRate * thresholdFactor;
     const linkThreshold = linkDripRate * thresholdFactor;
 
@@ -545,40 +782,83 @@ async function checkFaucetState(client: any, faucetAddress: string): Promise<boo
     console.log(`[ERROR] Faucet state check failed: ${error}`);
     console.log('[INFO] This may be due to RPC limitations on historical state');
     console.log('');
+    report.fail('faucet-state', 'faucet-state.read', 'error', `Faucet state check failed: ${describeError(error)}`,
+      'This may be due to RPC limitations on historical state - retry with another RPC');
     return { stateOk: false, needsRefill: false };
   }
 }
 
+// Locate the outbound message behind a refillInProgress flag using the chunked log scanner
+// Returns its messageId when found
+async function reportPendingRefill(client: PublicClient, faucetAddress: string): Promise<string | undefined> {
+  try {
+    const scanOptions = {
+      client,
+      address: faucetAddress as `0x${string}`,
+      lookback: PENDING_REFILL_LOOKBACK,
+      maxChunks: 500,
+    };
+
+    const { logs: triggers, fromBlock } = await scanLogs({ ...scanOptions, event: getFaucetEvent('RefillTriggered') });
+    const lastTrigger = triggers[triggers.length - 1];
+
+    if (!lastTrigger) {
+      console.log(`[WARN] No RefillTriggered event since block ${fromBlock} - refill may have been pending for a long time`);
+      return undefined;
+    }
+
+    const messageId = lastTrigger.args.messageId;
+    console.log(`Last RefillTriggered: block ${lastTrigger.blockNumber}, messageId ${messageId}`);
+    console.log(`[INFO] Track it at https://ccip.chain.link/msg/${messageId}`);
+
+    const { logs: responses } = await scanLogs({
+      ...scanOptions,
+      event: getFaucetEvent('VolatilityReceived'),
+      fromBlock: lastTrigger.blockNumber!,
+    });
+
+    if (responses.length === 0) {
+      console.log('[WARN] No VolatilityReceived since that trigger - the CCIP round trip has not completed');
+      console.log(`[ACTION] If the message failed, reset with: cast send ${faucetAddress} "emergencyResetRefillState(bytes32[])" "[${messageId}]" --private-key $FAUCET_PRIVATE_KEY`);
+    }
+    return messageId;
+  } catch (error) {
+    console.log(`[WARN] Could not scan refill events: ${error}`);
+    return undefined;
+  }
+}
+
 async function checkOwners(
-  activeClient: any,
-  helperClient: any,
+  activeClient: PublicClient,
+  helperClient: PublicClient,
   activeConfig: Config,
   helperConfig: Config
 ): Promise<void> {
   try {
-    const faucetContract = getContract({
+    // Use safe contract read for owner checks
+    const faucetOwner = await safeContractRead(blockTag => activeClient.readContract({
       address: activeConfig.contracts.faucet! as `0x${string}`,
       abi: FAUCET_ABI,
-      client: activeClient
-    });
-
-    const helperContract = getContract({
+      functionName: 'owner',
+      blockTag
+    }));
+    const helperOwner = await safeContractRead(blockTag => helperClient.readContract({
       address: helperConfig.contracts.helper! as `0x${string}`,
       abi: HELPER_ABI,
-      client: helperClient
-    });
-
-    // Use safe contract read for owner checks
-    const faucetOwner = await safeContractRead(faucetContract, 'owner');
-    const helperOwner = await safeContractRead(helperContract, 'owner');
+      functionName: 'owner',
+      blockTag
+    }));
 
     console.log(`Faucet owner: ${faucetOwner}`);
     console.log(`Helper owner: ${helperOwner}`);
 
     if (faucetOwner.toLowerCase() === helperOwner.toLowerCase()) {
       console.log('[OK] Same owner for both contracts');
+      report.pass('owners', 'owners.match', `Both contracts owned by ${faucetOwner}`, 'warn');
     } else {
       console.log('[WARN] Different owners - ensure coordination');
+      report.fail('owners', 'owners.match', 'warn', `Faucet owner ${faucetOwner} differs from helper owner ${helperOwner}`,
+        'Mapping fixes (addChain/addSource) need both owner keys - make sure both are available');
     }
 
     console.log('');
@@ -586,7 +866,13 @@ async function checkOwners(
     console.log(`[ERROR] Owner check failed: ${error}`);
     console.log('[INFO] This may be due to RPC limitations on historical state');
     console.log('');
+    report.fail('owners', 'owners.read', 'warn', `Owner check failed: ${describeError(error)}`,
+      'This may be due to RPC limitations on historical state - retry with another RPC');
   }
 }
 
-main().catch(console.error);
+main().catch(error => {
+  console.error(error);
+  report.fail('setup', 'setup', 'error', `Pre-flight crashed: ${describeError(error)}`);
+  finish();
+});
@@ -0,0 +1,37 @@
+#!/usr/bin/env bash
+# Offline pre-flight run: no fork and no RPC URLs - only a local anvil dev node.
+# Builds the contracts (with ASTs, so setCode can fill immutables), starts anvil on :8545,
+# runs preflight-check.ts with the dev-node fixture and stops anvil again.
+#
+#   pnpm run preflight:devnode                      # text report
+#   pnpm run preflight:devnode -- --format junit    # extra preflight-check.ts flags
+#
+# Needs forge + anvil on PATH and the contract dependencies installed (pnpm install).
+# SKIP_BUILD=1 reuses existing ccip-faucet-contracts/out artifacts; ANVIL_PORT overrides 8545
+# (the fixture file must point at the same port).
+set -euo pipefail
+
+cd "$(dirname "$0")"
+
+FIXTURE=preflight-fixtures/monad-fuji.devnode.json
+PORT="${ANVIL_PORT:-8545}"
+
+if [ "${SKIP_BUILD:-0}" != "1" ]; then
+  (cd ccip-faucet-contracts && forge build --ast)
+fi
+
+anvil --port "$PORT" --silent &
+ANVIL_PID=$!
+trap 'kill "$ANVIL_PID" 2>/dev/null || true' EXIT
+
+# Wait for the node to answer eth_chainId
+for _ in $(seq 1 50); do
+  if curl -sf -X POST -H 'Content-Type: application/json' \
+    --data '{"jsonrpc":"2.0","id":1,"method":"eth_chainId","params":[]}' \
+    "http://127.0.0.1:$PORT" > /dev/null; then
+    break
+  fi
+  sleep 0.2
+done
+
+tsx preflight-check.ts --fixtures "$FIXTURE" "$@"
@@ -0,0 +1,196 @@
+// Auto-remediation for preflight-check.ts (--fix)
+// Checks that find a fixable problem queue a FixAction; the plan is printed as a dry run with the
+// encoded calldata and is only sent (and confirmed) with --send and a signer key.
+
+import {
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  formatEther,
+  http,
+  parseAbi,
+  parseEther,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { describeError, readFlag } from './preflight-report';
+
+export type FixSide = 'active' | 'helper';
+
+export interface FixAction {
+  /** Check the action fixes, e.g. `mappings.faucet-trusts-helper` */
+  checkId: string;
+  side: FixSide;
+  to: `0x${string}`;
+  /** Human readable call, e.g. `addChain(14767482510784806043, 0x17b1...)` */
+  call: string;
+  data: Hex;
+  value: bigint;
+  /** Who has to sign (owner-only setters vs. anyone holding the funds) */
+  signer: 'owner' | 'funder';
+}
+
+export interface FixOptions {
+  enabled: boolean;
+  /** Sign and send the plan (otherwise dry run) */
+  send: boolean;
+  /** LINK vaults are topped up to this balance (wei) */
+  linkTarget: bigint;
+  /** Native amount deposit() sends (wei) */
+  depositAmount: bigint;
+}
+
+export interface FixResult {
+  action: FixAction;
+  status: 'confirmed' | 'failed';
+  hash?: Hex;
+  error?: string;
+}
+
+const FAUCET_ADMIN_ABI = parseAbi([
+  'function addChain(uint64 selector, address helper) external',
+  'function deposit() external payable'
+]);
+
+const HELPER_ADMIN_ABI = parseAbi([
+  'function addSource(uint64 sourceSelector, address faucet) external'
+]);
+
+const ERC20_TRANSFER_ABI = parseAbi([
+  'function transfer(address to, uint256 amount) external returns (bool)'
+]);
+
+/**
+ * `--fix`, `--send`, `--link-target <LINK>` (default 5) and `--deposit <native>` (default 1)
+ */
+export function parseFixOptions(argv: string[]): FixOptions {
+  const linkTarget = parseEther(readFlag(argv, '--link-target') ?? '5');
+  // Below the 1 LINK the balance check requires, a top-up would never make it pass
+  if (linkTarget < parseEther('1')) {
+    throw new Error('--link-target must be at least 1 (LINK)');
+  }
+  return {
+    enabled: argv.includes('--fix'),
+    send: argv.includes('--send'),
+    linkTarget,
+    depositAmount: parseEther(readFlag(argv, '--deposit') ?? '1'),
+  };
+}
+
+export function buildAddChain(checkId: string, faucet: string, helperSelector: string, helper: string): FixAction {
+  return {
+    checkId,
+    side: 'active',
+    to: faucet as `0x${string}`,
+    call: `addChain(${helperSelector}, ${helper})`,
+    data: encodeFunctionData({
+      abi: FAUCET_ADMIN_ABI,
+      functionName: 'addChain',
+      args: [BigInt(helperSelector), helper as `0x${string}`],
+    }),
+    value: BigInt(0),
+    signer: 'owner',
+  };
+}
+
+export function buildAddSource(checkId: string, helper: string, activeSelector: string, faucet: string): FixAction {
+  return {
+    checkId,
+    side: 'helper',
+    to: helper as `0x${string}`,
+    call: `addSource(${activeSelector}, ${faucet})`,
+    data: encodeFunctionData({
+      abi: HELPER_ADMIN_ABI,
+      functionName: 'addSource',
+      args: [BigInt(activeSelector), faucet as `0x${string}`],
+    }),
+    value: BigInt(0),
+    signer: 'owner',
+  };
+}
+
+export function buildLinkTransfer(checkId: string, side: FixSide, linkToken: string, vault: string, amount: bigint): FixAction {
+  return {
+    checkId,
+    side,
+    to: linkToken as `0x${string}`,
+    call: `transfer(${vault}, ${formatEther(amount)} LINK)`,
+    data: encodeFunctionData({
+      abi: ERC20_TRANSFER_ABI,
+      functionName: 'transfer',
+      args: [vault as `0x${string}`, amount],
+    }),
+    value: BigInt(0),
+    signer: 'funder',
+  };
+}
+
+export function buildDeposit(checkId: string, faucet: string, amount: bigint): FixAction {
+  return {
+    checkId,
+    side: 'active',
+    to: faucet as `0x${string}`,
+    call: `deposit() with ${formatEther(amount)} native`,
+    data: encodeFunctionData({ abi: FAUCET_ADMIN_ABI, functionName: 'deposit' }),
+    value: amount,
+    signer: 'funder',
+  };
+}
+
+/**
+ * Print the plan - target, call, value and calldata of every action
+ */
+export function printFixPlan(plan: FixAction[], send: boolean) {
+  console.log(`=== 7. Fix Plan (${send ? 'sending' : 'dry run'}) ===`);
+  if (plan.length === 0) {
+    console.log('[OK] Nothing to fix');
+    console.log('');
+    return;
+  }
+  plan.forEach((action, index) => {
+    console.log(`[FIX] ${index + 1}. ${action.side} ${action.to}.${action.call} (fixes ${action.checkId})`);
+    console.log(`      signer: ${action.signer === 'owner' ? 'contract owner' : 'any funded account'}${action.value > BigInt(0) ? `, value: ${action.value} wei` : ''}`);
+    console.log(`      data: ${action.data}`);
+  });
+  if (!send) {
+    console.log('[INFO] Dry run - re-run with --fix --send and FAUCET_PRIVATE_KEY set to execute');
+  }
+  console.log('');
+}
+
+/**
+ * Send the plan in order and wait for each receipt. Stops at the first failure -
+ * later actions may depend on it (e.g. funding after a mapping fix).
+ */
+export async function sendFixes(
+  plan: FixAction[],
+  rpcUrls: Record<FixSide, string>,
+  privateKey: Hex
+): Promise<FixResult[]> {
+  const account = privateKeyToAccount(privateKey);
+  const results: FixResult[] = [];
+  console.log(`Signer: ${account.address}`);
+
+  for (const action of plan) {
+    const transport = http(rpcUrls[action.side]);
+    const publicClient = createPublicClient({ transport });
+    const wallet = createWalletClient({ account, transport });
+
+    try {
+      const hash = await wallet.sendTransaction({ account, chain: null, to: action.to, data: action.data, value: action.value });
+      console.log(`[SENT] ${action.call}: ${hash}`);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`reverted in block ${receipt.blockNumber} (${hash})`);
+      }
+      console.log(`[OK] ${action.call} confirmed in block ${receipt.blockNumber}`);
+      results.push({ action, status: 'confirmed', hash });
+    } catch (error) {
+      console.log(`[ERROR] ${action.call} failed: ${describeError(error)}`);
+      results.push({ action, status: 'failed', error: describeError(error) });
+      break;
+    }
+  }
+  console.log('');
+  return results;
+}
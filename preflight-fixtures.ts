@@ -0,0 +1,258 @@
+// Fixture mode for preflight-check.ts (--fixtures <file>)
+// Points the active/helper side at local nodes (an `anvil --fork-url` fork or a plain dev node),
+// seeds the contract state the fixture describes through anvil's cheat RPCs, and lists the
+// outcome each check is expected to have - so the preflight logic can be exercised offline.
+// A plain dev node needs no network at all: setCode installs the contracts from forge artifacts.
+
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  encodeFunctionData,
+  http,
+  keccak256,
+  parseAbi,
+  parseAbiItem,
+  parseEther,
+  toHex,
+  type AbiFunction,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describeError, type CheckStatus } from './preflight-report';
+
+export type FixtureSide = 'active' | 'helper';
+
+export type SeedStep =
+  /** Native balance in ether */
+  | { action: 'setBalance'; side: FixtureSide; address: string; ether: string }
+  /**
+   * Runtime bytecode, inline or from a forge artifact (`deployedBytecode.object`).
+   * `immutables` fills constructor-set immutables by name (artifact built with `forge build --ast`) -
+   * setCode runs no constructor, so unlisted immutables stay zero.
+   */
+  | { action: 'setCode'; side: FixtureSide; address: string; bytecode?: string; artifact?: string; immutables?: Record<string, string> }
+  | { action: 'setStorageAt'; side: FixtureSide; address: string; slot: string; value: string }
+  /** ERC20 balance in whole tokens (18 decimals) - the balances slot is found by probing */
+  | { action: 'erc20Balance'; side: FixtureSide; token: string; holder: string; amount: string }
+  /** Impersonated transaction - `from` defaults to the owner() of `to` */
+  | { action: 'send'; side: FixtureSide; to: string; signature: string; args?: unknown[]; from?: string }
+  | { action: 'increaseTime'; side: FixtureSide; seconds: number };
+
+export interface PreflightFixtures {
+  /** Config names, as with CHAIN_NAME / HELPER_NAME */
+  activeChain: string;
+  helperChain: string;
+  /** Local node per side - helper defaults to the active node (same-chain or a single fork) */
+  rpc: { active: string; helper?: string };
+  seed?: SeedStep[];
+  /** Expected status per check id, e.g. `"mappings.faucet-trusts-helper": "fail"` */
+  expect?: Record<string, CheckStatus>;
+}
+
+/** The parts of a forge artifact setCode uses */
+interface ForgeArtifact {
+  deployedBytecode: {
+    object: string;
+    /** AST id of each immutable → byte ranges in the runtime code */
+    immutableReferences?: Record<string, { start: number; length: number }[]>;
+  };
+  /** Source unit AST - only present with `forge build --ast` */
+  ast?: unknown;
+}
+
+/** Values `$name` in seed steps resolve to (from the chain configs) */
+export type FixtureRefs = Record<string, string>;
+
+export interface FixtureClients {
+  activeClient: PublicClient;
+  helperClient: PublicClient;
+}
+
+const OWNER_ABI = parseAbi(['function owner() external view returns (address)']);
+const BALANCE_OF_ABI = parseAbi(['function balanceOf(address) external view returns (uint256)']);
+
+// How many storage slots to try when looking for an ERC20 balances mapping
+const BALANCE_SLOT_PROBES = 20;
+
+export function loadFixtures(path: string): PreflightFixtures {
+  const fixtures = JSON.parse(readFileSync(resolve(process.cwd(), path), 'utf-8')) as PreflightFixtures;
+  if (!fixtures.activeChain || !fixtures.helperChain) {
+    throw new Error(`Fixtures ${path}: activeChain and helperChain are required`);
+  }
+  if (!fixtures.rpc?.active) {
+    throw new Error(`Fixtures ${path}: rpc.active is required`);
+  }
+  return fixtures;
+}
+
+/**
+ * Public clients for the fixture nodes (one shared client when both sides use the same node)
+ */
+export function createFixtureClients(fixtures: PreflightFixtures): FixtureClients {
+  const activeClient = createPublicClient({ transport: http(fixtures.rpc.active) }) as PublicClient;
+  const helperUrl = fixtures.rpc.helper ?? fixtures.rpc.active;
+  const helperClient = helperUrl === fixtures.rpc.active
+    ? activeClient
+    : createPublicClient({ transport: http(helperUrl) }) as PublicClient;
+  return { activeClient, helperClient };
+}
+
+function resolveRef(value: unknown, refs: FixtureRefs): unknown {
+  if (typeof value === 'string' && value.startsWith('$')) {
+    const resolved = refs[value.slice(1)];
+    if (resolved === undefined) {
+      throw new Error(`Unknown fixture reference ${value} (known: ${Object.keys(refs).map(key => `$${key}`).join(', ')})`);
+    }
+    return resolved;
+  }
+  if (Array.isArray(value)) return value.map(entry => resolveRef(entry, refs));
+  return value;
+}
+
+// JSON args → ABI values (integers as bigint)
+function coerceArg(type: string, value: unknown): unknown {
+  if (type.endsWith('[]') && Array.isArray(value)) {
+    return value.map(entry => coerceArg(type.slice(0, -2), entry));
+  }
+  if (/^u?int\d*$/.test(type)) return BigInt(value as string | number);
+  return value;
+}
+
+async function findBalanceSlot(
+  client: PublicClient,
+  testClient: ReturnType<typeof createTestClient>,
+  token: Address,
+  holder: Address,
+  amount: bigint
+): Promise<number> {
+  for (let slot = 0; slot < BALANCE_SLOT_PROBES; slot++) {
+    const index = keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [holder, BigInt(slot)]));
+    const original = await client.getStorageAt({ address: token, slot: index });
+    await testClient.setStorageAt({ address: token, index, value: toHex(amount, { size: 32 }) });
+
+    const balance = await client.readContract({ address: token, abi: BALANCE_OF_ABI, functionName: 'balanceOf', args: [holder] });
+    if (balance === amount) return slot;
+
+    await testClient.setStorageAt({ address: token, index, value: original ?? toHex(0, { size: 32 }) });
+  }
+  throw new Error(`No balances mapping found in the first ${BALANCE_SLOT_PROBES} slots of ${token}`);
+}
+
+// AST id → name of every immutable declared in the artifact's source unit
+function immutableNames(node: unknown, names: Map<string, string> = new Map()): Map<string, string> {
+  if (Array.isArray(node)) {
+    node.forEach(child => immutableNames(child, names));
+  } else if (node && typeof node === 'object') {
+    const entry = node as Record<string, unknown>;
+    if (entry.nodeType === 'VariableDeclaration' && entry.mutability === 'immutable') {
+      names.set(String(entry.id), String(entry.name));
+    }
+    Object.values(entry).forEach(child => immutableNames(child, names));
+  }
+  return names;
+}
+
+/**
+ * Runtime bytecode of a forge artifact with the given immutables written in (each one a 32-byte word)
+ */
+function linkImmutables(artifact: ForgeArtifact, path: string, values: Record<string, string>, refs: FixtureRefs): Hex {
+  let code = artifact.deployedBytecode.object.replace(/^0x/, '');
+  if (Object.keys(values).length === 0) return `0x${code}`;
+  if (!artifact.ast) {
+    throw new Error(`${path} has no AST - rebuild with \`forge build --ast\` to set immutables by name`);
+  }
+
+  const names = immutableNames(artifact.ast);
+  const references = artifact.deployedBytecode.immutableReferences ?? {};
+  for (const [name, value] of Object.entries(values)) {
+    const ids = Object.keys(references).filter(id => names.get(id) === name);
+    if (ids.length === 0) {
+      throw new Error(`No immutable ${name} in ${path} (known: ${[...names.values()].join(', ') || 'none'})`);
+    }
+    const word = toHex(BigInt(resolveRef(value, refs) as string), { size: 32 }).slice(2);
+    for (const { start, length } of ids.flatMap(id => references[id])) {
+      code = code.slice(0, start * 2) + word.slice(64 - length * 2) + code.slice((start + length) * 2);
+    }
+  }
+  return `0x${code}`;
+}
+
+async function runSeedStep(step: SeedStep, url: string, client: PublicClient, refs: FixtureRefs): Promise<string> {
+  const testClient = createTestClient({ mode: 'anvil', transport: http(url) });
+  const ref = (value: string) => resolveRef(value, refs) as Address;
+
+  switch (step.action) {
+    case 'setBalance': {
+      await testClient.setBalance({ address: ref(step.address), value: parseEther(step.ether) });
+      return `balance of ${ref(step.address)} = ${step.ether}`;
+    }
+    case 'setCode': {
+      const bytecode = step.artifact
+        ? linkImmutables(JSON.parse(readFileSync(resolve(process.cwd(), step.artifact), 'utf-8')) as ForgeArtifact,
+            step.artifact, step.immutables ?? {}, refs)
+        : step.bytecode;
+      if (!bytecode) throw new Error('setCode needs bytecode or artifact');
+      await testClient.setCode({ address: ref(step.address), bytecode: bytecode as Hex });
+      return `code at ${ref(step.address)} from ${step.artifact ?? 'inline bytecode'}`;
+    }
+    case 'setStorageAt': {
+      await testClient.setStorageAt({ address: ref(step.address), index: step.slot as Hex, value: step.value as Hex });
+      return `storage ${step.slot} of ${ref(step.address)} = ${step.value}`;
+    }
+    case 'erc20Balance': {
+      const slot = await findBalanceSlot(client, testClient, ref(step.token), ref(step.holder), parseEther(step.amount));
+      return `${step.amount} of ${ref(step.token)} for ${ref(step.holder)} (balances slot ${slot})`;
+    }
+    case 'send': {
+      const to = ref(step.to);
+      const from = step.from
+        ? ref(step.from)
+        : await client.readContract({ address: to, abi: OWNER_ABI, functionName: 'owner' });
+      const abiItem = parseAbiItem(`function ${step.signature}`) as AbiFunction;
+      const args = (resolveRef(step.args ?? [], refs) as unknown[]).map((arg, i) => coerceArg(abiItem.inputs[i]?.type ?? '', arg));
+      const data = encodeFunctionData({ abi: [abiItem], functionName: abiItem.name, args });
+
+      await testClient.impersonateAccount({ address: from });
+      await testClient.setBalance({ address: from, value: parseEther('10') });
+      try {
+        const wallet = createWalletClient({ transport: http(url) });
+        const hash = await wallet.sendTransaction({ account: from, chain: null, to, data });
+        const receipt = await client.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') throw new Error(`${step.signature} reverted (${hash})`);
+      } finally {
+        await testClient.stopImpersonatingAccount({ address: from });
+      }
+      return `${from} → ${to}.${step.signature}`;
+    }
+    case 'increaseTime': {
+      await testClient.increaseTime({ seconds: step.seconds });
+      await testClient.mine({ blocks: 1 });
+      return `time +${step.seconds}s`;
+    }
+  }
+}
+
+/**
+ * Apply the fixture's seed steps in order (throws on the first failing step)
+ */
+export async function seedFixtures(fixtures: PreflightFixtures, clients: FixtureClients, refs: FixtureRefs): Promise<void> {
+  const urls: Record<FixtureSide, string> = {
+    active: fixtures.rpc.active,
+    helper: fixtures.rpc.helper ?? fixtures.rpc.active,
+  };
+
+  for (const [index, step] of (fixtures.seed ?? []).entries()) {
+    const client = step.side === 'helper' ? clients.helperClient : clients.activeClient;
+    try {
+      const summary = await runSeedStep(step, urls[step.side], client, refs);
+      console.log(`✓ Seed ${index + 1} (${step.side}) ${step.action}: ${summary}`);
+    } catch (error) {
+      throw new Error(`Seed step ${index + 1} (${step.action}) failed: ${describeError(error)}`);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+// Structured results for preflight-check.ts
+// Every check records a pass/fail with a severity and, when it fails, a remediation hint.
+// The report renders as human text, JSON or JUnit XML (--format), so CI can tell which check failed.
+
+import { writeFileSync } from 'fs';
+
+export type Severity = 'error' | 'warn' | 'info';
+export type CheckStatus = 'pass' | 'fail';
+export type OutputFormat = 'text' | 'json' | 'junit';
+
+export interface PreflightCheck {
+  /** Stable id, e.g. `mappings.faucet-trusts-helper` */
+  id: string;
+  /** Report section (the numbered console headings) */
+  group: string;
+  status: CheckStatus;
+  /** How much a failure matters: only failed `error` checks make the run fail */
+  severity: Severity;
+  message: string;
+  /** What to do about a failure (command or config change) */
+  remediation?: string;
+  /** Fixture runs: the outcome matched the fixture's expectation (an expected failure does not fail the run) */
+  expected?: boolean;
+  /** --fix runs: result of re-running the check after the fix-up transactions */
+  rechecked?: boolean;
+}
+
+export interface PreflightMeta {
+  activeChain: string;
+  helperChain: string;
+  sameChain: boolean;
+}
+
+export interface OutputOptions {
+  format: OutputFormat;
+  /** Write the report here instead of stdout */
+  outputPath?: string;
+}
+
+const FORMATS: OutputFormat[] = ['text', 'json', 'junit'];
+
+/**
+ * Value of `--flag value` or `--flag=value`
+ */
+export function readFlag(argv: string[], flag: string): string | undefined {
+  const inline = argv.find(arg => arg.startsWith(`${flag}=`));
+  if (inline) return inline.slice(flag.length + 1);
+  const index = argv.indexOf(flag);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+/**
+ * `--format json|junit|text` (or `--format=...`, `--json`, `--junit`) and `--output <file>`
+ */
+export function parseOutputOptions(argv: string[]): OutputOptions {
+  let format = (readFlag(argv, '--format') ?? 'text') as OutputFormat;
+  if (argv.includes('--json')) format = 'json';
+  if (argv.includes('--junit')) format = 'junit';
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Unknown --format "${format}" (expected ${FORMATS.join(', ')})`);
+  }
+
+  return { format, outputPath: readFlag(argv, '--output') };
+}
+
+/**
+ * First line of an error (viem errors append request bodies and docs links)
+ */
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message.split('\n')[0] : String(error);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class PreflightReport {
+  readonly checks: PreflightCheck[] = [];
+  meta: PreflightMeta = { activeChain: '', helperChain: '', sameChain: false };
+  private readonly startedAt = Date.now();
+
+  pass(group: string, id: string, message: string, severity: Severity = 'error'): void {
+    this.checks.push({ id, group, status: 'pass', severity, message });
+  }
+
+  fail(group: string, id: string, severity: Severity, message: string, remediation?: string): void {
+    this.checks.push({ id, group, status: 'fail', severity, message, remediation });
+  }
+
+  /** Informational outcome - never fails the run */
+  info(group: string, id: string, message: string, remediation?: string): void {
+    this.checks.push({ id, group, status: 'pass', severity: 'info', message, remediation });
+  }
+
+  /**
+   * Fixture runs: compare each listed check with its expected status.
+   * Matches are marked `expected`; a mismatch (or a check that never ran) is an error.
+   */
+  expect(expectations: Record<string, CheckStatus>): void {
+    for (const [id, status] of Object.entries(expectations)) {
+      const matching = this.checks.filter(check => check.id === id);
+      if (matching.length === 0) {
+        this.fail('fixtures', `expect.${id}`, 'error', `${id} did not run (expected ${status})`,
+          'An earlier check stopped the run, or the check id changed in preflight-check.ts');
+        continue;
+      }
+      for (const check of matching) {
+        if (check.status === status) {
+          check.expected = true;
+        } else {
+          this.fail('fixtures', `expect.${id}`, 'error', `${id} ${check.status === 'pass' ? 'passed' : 'failed'}, expected ${status}: ${check.message}`,
+            'Either the preflight logic regressed or the fixture seed no longer produces this state');
+        }
+      }
+    }
+  }
+
+  /**
+   * --fix runs: replace each check with its re-run result (new ids are appended)
+   */
+  applyRecheck(rechecked: PreflightCheck[]): void {
+    for (const check of rechecked) {
+      const index = this.checks.findIndex(existing => existing.id === check.id);
+      const entry = { ...check, rechecked: true };
+      if (index >= 0) {
+        this.checks[index] = entry;
+      } else {
+        this.checks.push(entry);
+      }
+    }
+  }
+
+  /** Failed checks that count (expected failures of a fixture run are excluded) */
+  private get failures(): PreflightCheck[] {
+    return this.checks.filter(check => check.status === 'fail' && !check.expected);
+  }
+
+  get ok(): boolean {
+    return !this.failures.some(check => check.severity === 'error');
+  }
+
+  summary() {
+    const failed = this.failures;
+    return {
+      total: this.checks.length,
+      passed: this.checks.length - failed.length,
+      errors: failed.filter(check => check.severity === 'error').length,
+      warnings: failed.filter(check => check.severity === 'warn').length,
+    };
+  }
+
+  toJSON() {
+    return {
+      ok: this.ok,
+      ...this.meta,
+      durationMs: Date.now() - this.startedAt,
+      summary: this.summary(),
+      checks: this.checks,
+    };
+  }
+
+  /**
+   * One <testsuite> per group; failed errors are <failure>, failed warnings pass with a
+   * system-out note (CI stays green), remediation goes into the failure body
+   */
+  toJUnit(): string {
+    const groups = [...new Set(this.checks.map(check => check.group))];
+    const suites = groups.map(group => {
+      const checks = this.checks.filter(check => check.group === group);
+      const isFailure = (check: PreflightCheck) => check.status === 'fail' && check.severity === 'error' && !check.expected;
+      const failures = checks.filter(isFailure).length;
+      const cases = checks.map(check => {
+        const name = `name="${escapeXml(check.id)}" classname="preflight.${escapeXml(group)}"`;
+        const message = check.rechecked ? `${check.message} (after fix)` : check.message;
+        const body = [message, check.remediation && `Remediation: ${check.remediation}`].filter(Boolean).join('\n');
+
+        if (isFailure(check)) {
+          return `    <testcase ${name}>\n      <failure message="${escapeXml(message)}" type="error">${escapeXml(body)}</failure>\n    </testcase>`;
+        }
+        const note = check.status === 'fail'
+          ? `${check.expected ? '[EXPECTED FAIL]' : '[WARN]'} ${body}`
+          : check.severity === 'info' ? `[INFO] ${body}` : `[OK] ${body}`;
+        return `    <testcase ${name}>\n      <system-out>${escapeXml(note)}</system-out>\n    </testcase>`;
+      });
+      return `  <testsuite name="${escapeXml(group)}" tests="${checks.length}" failures="${failures}">\n${cases.join('\n')}\n  </testsuite>`;
+    });
+
+    const { total, errors } = this.summary();
+    const seconds = ((Date.now() - this.startedAt) / 1000).toFixed(3);
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="ccip-preflight ${escapeXml(this.meta.activeChain)} -> ${escapeXml(this.meta.helperChain)}" tests="${total}" failures="${errors}" time="${seconds}">`,
+      ...suites,
+      '</testsuites>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Failures with their remediation (the per-check lines are already on the console)
+   */
+  toText(): string {
+    const { total, passed, errors, warnings } = this.summary();
+    const lines = [`=== Report: ${passed}/${total} passed, ${errors} errors, ${warnings} warnings ===`];
+    for (const check of this.checks.filter(entry => entry.status === 'fail')) {
+      lines.push(`[${check.expected ? 'EXPECTED FAIL' : check.severity.toUpperCase()}] ${check.id}: ${check.message}${check.rechecked ? ' (after fix)' : ''}`);
+      if (check.remediation) lines.push(`  → ${check.remediation}`);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  render(format: OutputFormat): string {
+    if (format === 'json') return `${JSON.stringify(this.toJSON(), null, 2)}\n`;
+    if (format === 'junit') return this.toJUnit();
+    return this.toText();
+  }
+
+  /**
+   * Write the report (stdout or --output file)
+   */
+  emit({ format, outputPath }: OutputOptions): void {
+    const rendered = this.render(format);
+    if (outputPath) {
+      writeFileSync(outputPath, rendered);
+      console.error(`Report written to ${outputPath}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+  }
+}